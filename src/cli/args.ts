@@ -0,0 +1,105 @@
+// src/cli/args.ts
+import { parseArgs } from "util";
+import { LogLevel } from "../types";
+
+export const COMMAND_NAMES = [
+  "run",
+  "daemon",
+  "bot",
+  "check-config",
+  "probe",
+  "login-only",
+  "snapshot",
+  "list-resumes",
+  "cleanup-artifacts",
+  "encrypt-secrets",
+  "print-config",
+  "stats",
+] as const;
+
+export type CommandName = typeof COMMAND_NAMES[number];
+
+const LOG_LEVELS: readonly LogLevel[] = ["error", "warn", "info", "debug"];
+
+export interface CliOptions {
+  // 계정 label (여러 계정 중 하나만 실행)
+  account?: string;
+  config?: string;
+  profile?: string;
+  logLevel?: LogLevel;
+  dryRun: boolean;
+  // stats: 최근 며칠의 실행 이력을 집계할지
+  days?: number;
+  help: boolean;
+}
+
+export interface ParsedArgs {
+  command: CommandName;
+  options: CliOptions;
+  errors: string[];
+}
+
+export function parseCliArgs(argv: readonly string[]): ParsedArgs {
+  const errors: string[] = [];
+  const options: CliOptions = { dryRun: false, help: false };
+
+  let values: Record<string, string | boolean | undefined>;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        account: { type: "string" },
+        config: { type: "string" },
+        profile: { type: "string" },
+        "log-level": { type: "string" },
+        "dry-run": { type: "boolean" },
+        days: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    }));
+  } catch (error) {
+    return {
+      command: "run",
+      options,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  const [commandArg = "run", ...rest] = positionals;
+  const command = COMMAND_NAMES.find(name => name === commandArg);
+  if (!command) {
+    errors.push(`알 수 없는 명령어입니다: ${commandArg}`);
+  }
+  if (rest.length > 0) {
+    errors.push(`알 수 없는 인자입니다: ${rest.join(" ")}`);
+  }
+
+  const logLevel = values["log-level"];
+  if (typeof logLevel === "string") {
+    if (LOG_LEVELS.includes(logLevel as LogLevel)) {
+      options.logLevel = logLevel as LogLevel;
+    } else {
+      errors.push(`--log-level은 ${LOG_LEVELS.join(" | ")} 중 하나여야 합니다. (현재: ${logLevel})`);
+    }
+  }
+
+  const days = values.days;
+  if (typeof days === "string") {
+    const parsed = Number(days);
+    if (Number.isInteger(parsed) && parsed > 0) {
+      options.days = parsed;
+    } else {
+      errors.push(`--days는 1 이상의 정수여야 합니다. (현재: ${days})`);
+    }
+  }
+
+  options.account = typeof values.account === "string" ? values.account : undefined;
+  options.config = typeof values.config === "string" ? values.config : undefined;
+  options.profile = typeof values.profile === "string" ? values.profile : undefined;
+  options.dryRun = values["dry-run"] === true;
+  options.help = values.help === true;
+
+  return { command: command ?? "run", options, errors };
+}
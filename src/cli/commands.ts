@@ -0,0 +1,542 @@
+// src/cli/commands.ts
+import * as fs from "fs";
+import { configManager } from "../config";
+import { loadAccounts, toArtifactTag } from "../config/accounts";
+import { readCredential, writeVault } from "../config/credentials";
+import { dumpEffectiveConfig } from "../config/dump";
+import { loadNotifierSettings } from "../config/notifiers";
+import {
+  createNotification,
+  createNotifiers,
+  escapeHtml,
+  formatDateTime,
+  getPhrases,
+  notifyAll,
+} from "../notifiers";
+import { runPipeline } from "../pipeline";
+import { createResumeContext, createResumeSteps, resumeConditions } from "../resumeSteps";
+import { cleanupArtifacts, createArtifactStore } from "../services/artifacts";
+import { BrowserService } from "../services/browser";
+import { JobKoreaService } from "../services/jobkorea";
+import { runPreflight } from "../services/preflight";
+import {
+  createRunHistoryStore,
+  describeStats,
+  lastRunRecords,
+  recordsSince,
+  RunHistoryRecord,
+  summarizeHistory,
+} from "../services/runHistory";
+import { BotCommandHandlers, BotReply, TelegramBot } from "../services/telegramBot";
+import { DaemonScheduler, parseSchedules } from "../services/scheduler";
+import { createSessionStore } from "../services/session";
+import { Account, Config, EXIT_CODES, ExitCode, StepName } from "../types";
+import { updateResume } from "../updateResume";
+import { JobQueue } from "../utils/jobQueue";
+import { Logger } from "../utils/logger";
+import { ConfigValidator } from "../utils/validation";
+import { CliOptions, CommandName } from "./args";
+
+type Command = (options: CliOptions) => Promise<ExitCode>;
+
+interface RuntimeConfigOptions {
+  // false면 알림 채널 환경변수/형식을 검사하지 않는다.
+  notifiers: boolean;
+}
+
+function buildRuntimeConfig(accounts: Account[]): Config {
+  return {
+    accounts,
+    telegramToken: readCredential("TELEGRAM_BOT_TOKEN") ?? "",
+    telegramChatId: readCredential("TELEGRAM_CHAT_ID") ?? "",
+    notifiers: loadNotifierSettings(),
+  };
+}
+
+/**
+ * 환경변수 검증 → 계정 로드 → --account 필터 → 설정 값 검증 순으로 실행 설정을 만든다.
+ * 실패하면 오류를 로그로 남기고 null을 반환한다.
+ */
+function loadRuntimeConfig(
+  options: CliOptions,
+  { notifiers }: RuntimeConfigOptions
+): Config | null {
+  const envValidation = ConfigValidator.validateEnvironmentVariables({ notifiers });
+  if (!envValidation.isValid) {
+    Logger.error("환경변수 검증 실패:");
+    envValidation.errors.forEach(error => Logger.error(`  - ${error}`));
+    return null;
+  }
+
+  const accountLoad = loadAccounts();
+  if (accountLoad.errors.length > 0) {
+    Logger.error("계정 목록 로드 실패:");
+    accountLoad.errors.forEach(error => Logger.error(`  - ${error}`));
+    return null;
+  }
+
+  let accounts = accountLoad.accounts;
+  if (options.account) {
+    accounts = accounts.filter(account => account.label === options.account);
+    if (accounts.length === 0) {
+      Logger.error(
+        `--account ${options.account}: 해당 label의 계정이 없습니다. (사용 가능: ${accountLoad.accounts
+          .map(account => account.label)
+          .join(", ")})`
+      );
+      return null;
+    }
+  }
+
+  const config = buildRuntimeConfig(accounts);
+  if (!ConfigValidator.validateConfig(config, { notifiers }).isValid) {
+    Logger.error("설정 검증 실패. 환경변수를 확인해주세요.");
+    return null;
+  }
+
+  Logger.info(`계정 ${accounts.length}개 로드 (source: ${accountLoad.source})`);
+  return config;
+}
+
+/**
+ * 계정 하나로 브라우저를 열고 lastStep까지만 파이프라인을 실행한 뒤 action을 수행한다.
+ * 디버깅용 명령어이므로 브라우저 재시작 없이 단계별 재시도만 적용한다.
+ */
+async function withAccountPage(
+  account: Account,
+  lastStep: StepName,
+  { reuseSession }: { reuseSession: boolean },
+  action: (jobKorea: JobKoreaService) => Promise<void> = async () => {}
+): Promise<boolean> {
+  const artifactTag = toArtifactTag(account.label);
+  const artifacts = createArtifactStore({ accounts: [account] });
+  const browserService = new BrowserService();
+  const allSteps = createResumeSteps();
+  const steps = allSteps.slice(0, allSteps.findIndex(step => step.name === lastStep) + 1);
+  let failed = false;
+
+  try {
+    await browserService.initialize({
+      sessionStore: reuseSession ? createSessionStore(account) : null,
+      artifacts,
+      recordingTag: artifactTag,
+    });
+    const interruptions = browserService.getInterruptions();
+    const jobKorea = new JobKoreaService(browserService.getPage(), {
+      artifacts,
+      artifactTag,
+      interruptions,
+    });
+    await runPipeline(
+      steps,
+      resumeConditions,
+      createResumeContext(account, browserService, jobKorea),
+      { wrapStep: (_name, fn) => interruptions.guard(fn) }
+    );
+    await action(jobKorea);
+    return true;
+  } catch (error) {
+    Logger.error(`[${account.label}] 실패`, error instanceof Error ? error : undefined);
+    failed = true;
+    return false;
+  } finally {
+    await browserService.close({ keepRecordings: failed });
+  }
+}
+
+// 접속 점검 후 이력서 업데이트 (run, daemon 공통)
+async function runUpdate(config: Config): Promise<ExitCode> {
+  // Chromium 실행 전 JobKorea 접속 가능 여부 점검
+  if (configManager.getPreflightConfig().enabled) {
+    try {
+      await runPreflight();
+    } catch {
+      Logger.error("JobKorea에 접속할 수 없어 업데이트를 시작하지 않습니다.");
+      return EXIT_CODES.SITE_UNREACHABLE;
+    }
+  }
+
+  Logger.info(`애플리케이션 시작 (계정 ${config.accounts.length}개)`);
+  const results = await updateResume(config);
+
+  const failedCount = results.filter(result => !result.success).length;
+  if (failedCount > 0) {
+    Logger.error(`${results.length}개 계정 중 ${failedCount}개 계정 업데이트 실패`);
+    return EXIT_CODES.FAILURE;
+  }
+
+  Logger.success("애플리케이션 정상 종료");
+  return EXIT_CODES.SUCCESS;
+}
+
+const run: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: true });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  return runUpdate(config);
+};
+
+// 종료 시그널을 받을 때까지 schedule.cron 일정(KST)에 맞춰 같은 프로세스에서 계속 실행
+const daemon: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: true });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  const { schedules, errors } = parseSchedules(configManager.getScheduleConfig().cron);
+  if (errors.length > 0) {
+    Logger.error("실행 일정 검증 실패:");
+    errors.forEach(error => Logger.error(`  - ${error}`));
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  // 예약 실행과 봇 명령어가 동시에 브라우저를 띄우지 않도록 같은 큐를 사용
+  const queue = new JobQueue();
+  const scheduler = new DaemonScheduler(schedules, () =>
+    queue.run("예약 실행", async () => {
+      const exitCode = await runUpdate(config);
+      if (exitCode !== EXIT_CODES.SUCCESS) {
+        Logger.warning(`예약 실행 실패 (종료 코드 ${exitCode}). 다음 일정까지 기다립니다.`);
+      }
+    })
+  );
+  const bot = configManager.getTelegramBotConfig().enabled
+    ? createTelegramBot(config, queue)
+    : null;
+
+  const stop = (signal: string) => {
+    Logger.info(`${signal} 수신. 데몬을 종료합니다.`);
+    scheduler.stop();
+    bot?.stop();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  await Promise.all([scheduler.start(), bot?.start()]);
+  return EXIT_CODES.SUCCESS;
+};
+
+function describeLastRun(records: readonly RunHistoryRecord[]): string {
+  const phrases = getPhrases();
+  const lastRun = lastRunRecords(records);
+  if (lastRun.length === 0) {
+    return phrases.lastRun.empty;
+  }
+
+  const { date, time } = formatDateTime(new Date(lastRun[0].startedAt));
+  const lines = lastRun.map(record => {
+    const outcome =
+      record.outcome === "failure"
+        ? `${phrases.resume.failure} (${record.errorCode})`
+        : phrases.resume[record.outcome];
+    const details = phrases.lastRun.details(
+      Math.round(record.durationMs / 1000),
+      record.processAttempts
+    );
+    return `• ${escapeHtml(record.account)}: ${outcome}, ${details}`;
+  });
+  return [phrases.lastRun.title(date, time, lastRun[0].dryRun), ...lines].join("\n");
+}
+
+function createBotHandlers(config: Config): BotCommandHandlers {
+  // 업데이트 결과는 updateResume이 알림으로 보내므로 접속 불가만 따로 알린다.
+  const update = async (): Promise<BotReply[]> => {
+    const exitCode = await runUpdate(config);
+    return exitCode === EXIT_CODES.SITE_UNREACHABLE
+      ? [{ text: getPhrases().bot.siteUnreachable }]
+      : [];
+  };
+
+  return {
+    update,
+
+    async dryrun() {
+      const { dryRun } = configManager.getUpdateConfig();
+      configManager.setDryRun(true);
+      try {
+        return await update();
+      } finally {
+        configManager.setDryRun(dryRun);
+      }
+    },
+
+    async snapshot() {
+      const replies: BotReply[] = [];
+      for (const account of config.accounts) {
+        const success = await withAccountPage(
+          account,
+          "navigateToMypage",
+          { reuseSession: true },
+          async jobKorea => {
+            const [screenshotPath] = await jobKorea.captureSnapshot("mypage");
+            const caption = getPhrases().bot.snapshotCaption(escapeHtml(account.label));
+            replies.push({ photo: screenshotPath, caption });
+          }
+        );
+        if (!success) {
+          replies.push({ text: getPhrases().bot.snapshotFailed(escapeHtml(account.label)) });
+        }
+      }
+      return replies;
+    },
+
+    async status(running) {
+      const records = await createRunHistoryStore().read();
+      const runningInfo = running ? `${getPhrases().bot.running(running)}\n` : "";
+      return [{ text: `${runningInfo}${describeLastRun(records)}` }];
+    },
+  };
+}
+
+/**
+ * TELEGRAM_CHAT_ID 채팅의 명령어를 처리하는 봇을 만든다. (bot, daemon 명령어)
+ */
+export function createTelegramBot(config: Config, queue: JobQueue): TelegramBot {
+  return new TelegramBot(
+    config.telegramToken,
+    config.telegramChatId,
+    createBotHandlers(config),
+    queue
+  );
+}
+
+// 종료 시그널을 받을 때까지 Telegram 봇 명령어를 받아 처리
+const bot: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: true });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+  if (!config.telegramToken || !config.telegramChatId) {
+    Logger.error("봇을 실행하려면 TELEGRAM_BOT_TOKEN과 TELEGRAM_CHAT_ID가 필요합니다.");
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  const telegramBot = createTelegramBot(config, new JobQueue());
+  const stop = (signal: string) => {
+    Logger.info(`${signal} 수신. 봇을 종료합니다.`);
+    telegramBot.stop();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  await telegramBot.start();
+  return EXIT_CODES.SUCCESS;
+};
+
+const checkConfig: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: true });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  const notifiers = createNotifiers(config);
+  if (notifiers.length === 0) {
+    Logger.error("전송 가능한 알림 채널이 없습니다. NOTIFY_CHANNELS와 채널별 설정을 확인해주세요.");
+    return EXIT_CODES.NOTIFICATION_FAILED;
+  }
+
+  const labels = config.accounts.map(account => account.label).join(", ");
+  const phrases = getPhrases().checkConfig;
+  const message = createNotification("info", phrases.subject, phrases.body(labels));
+  const results = await notifyAll(notifiers, message);
+  const failed = results.filter(result => !result.success);
+  if (failed.length > 0) {
+    Logger.error(`테스트 알림 전송 실패: ${failed.map(result => result.channel).join(", ")}`);
+    return EXIT_CODES.NOTIFICATION_FAILED;
+  }
+
+  Logger.success(`설정 확인 완료. 테스트 알림 전송: ${results.map(r => r.channel).join(", ")}`);
+  return EXIT_CODES.SUCCESS;
+};
+
+const probe: Command = async () => {
+  try {
+    await runPreflight();
+    return EXIT_CODES.SUCCESS;
+  } catch {
+    return EXIT_CODES.SITE_UNREACHABLE;
+  }
+};
+
+const loginOnly: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: false });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  let failedCount = 0;
+  for (const account of config.accounts) {
+    // 저장된 세션을 쓰면 계정 정보를 확인할 수 없으므로 항상 새로 로그인한다.
+    const success = await withAccountPage(account, "login", { reuseSession: false });
+    if (success) {
+      Logger.success(`[${account.label}] 로그인 성공`);
+    } else {
+      failedCount++;
+    }
+  }
+
+  return failedCount > 0 ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS;
+};
+
+const snapshot: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: false });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  let failedCount = 0;
+  for (const account of config.accounts) {
+    const success = await withAccountPage(
+      account,
+      "navigateToMypage",
+      { reuseSession: true },
+      async jobKorea => {
+        await jobKorea.captureSnapshot("mypage");
+      }
+    );
+    if (!success) {
+      failedCount++;
+    }
+  }
+
+  return failedCount > 0 ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS;
+};
+
+const listResumes: Command = async options => {
+  const config = loadRuntimeConfig(options, { notifiers: false });
+  if (!config) {
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  let failedCount = 0;
+  for (const account of config.accounts) {
+    const success = await withAccountPage(
+      account,
+      "navigateToMypage",
+      { reuseSession: true },
+      async jobKorea => {
+        const resumes = await jobKorea.listResumes();
+        if (resumes.length === 0) {
+          throw new Error("이력서 목록을 찾을 수 없습니다. (selectors.mypage.resumeItem 확인)");
+        }
+        Logger.info(`[${account.label}] 이력서 ${resumes.length}개`);
+        for (const resume of resumes) {
+          Logger.info(
+            `  - ${resume.id} "${resume.title}" 최종수정일: ${resume.updatedAt?.raw ?? "확인 불가"}`
+          );
+        }
+      }
+    );
+    if (!success) {
+      failedCount++;
+    }
+  }
+
+  return failedCount > 0 ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS;
+};
+
+const cleanup: Command = async () => {
+  if (cleanupArtifacts() === 0) {
+    Logger.info("삭제할 아티팩트가 없습니다.");
+  }
+  return EXIT_CODES.SUCCESS;
+};
+
+// 표준 입력의 JSON 객체({ "JOBKOREA_PWD": "..." })를 SECRETS_VAULT_PASSPHRASE로 암호화해 저장
+const encryptSecrets: Command = async () => {
+  let secrets: unknown;
+  try {
+    secrets = JSON.parse(fs.readFileSync(0, "utf-8"));
+  } catch (error) {
+    Logger.error(
+      `표준 입력을 JSON으로 읽을 수 없습니다: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  if (
+    typeof secrets !== "object" ||
+    secrets === null ||
+    Array.isArray(secrets) ||
+    Object.values(secrets).some(value => typeof value !== "string")
+  ) {
+    Logger.error("비밀 값은 문자열 값만 가진 JSON 객체여야 합니다.");
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+
+  try {
+    const vaultFile = writeVault(secrets as Record<string, string>);
+    Logger.success(`비밀 값 ${Object.keys(secrets).length}개를 암호화해 저장했습니다: ${vaultFile}`);
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    Logger.error("비밀 값 암호화 실패", error instanceof Error ? error : undefined);
+    return EXIT_CODES.CONFIG_INVALID;
+  }
+};
+
+const printConfig: Command = async options => {
+  let { accounts } = loadAccounts();
+  if (options.account) {
+    accounts = accounts.filter(account => account.label === options.account);
+  }
+
+  console.log(
+    dumpEffectiveConfig(
+      configManager.getConfig(),
+      buildRuntimeConfig(accounts),
+      configManager.getConfigSource()
+    )
+  );
+  return EXIT_CODES.SUCCESS;
+};
+
+const stats: Command = async options => {
+  const { path } = configManager.getHistoryConfig();
+  let records = await createRunHistoryStore().read();
+  if (options.account) {
+    records = records.filter(record => record.account === options.account);
+  }
+  if (records.length === 0) {
+    Logger.info(`실행 이력이 없습니다. (${path})`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const { history } = getPhrases();
+  const periods: [string, typeof records][] = options.days
+    ? [[history.lastDays(options.days), recordsSince(records, options.days)]]
+    : [
+        [history.allTime, records],
+        [history.lastDays(7), recordsSince(records, 7)],
+      ];
+
+  const accounts = [...new Set(records.map(record => record.account))];
+  for (const [title, periodRecords] of periods) {
+    console.log(`[${title}]`);
+    describeStats(summarizeHistory(periodRecords)).forEach(line => console.log(`  ${line}`));
+    if (accounts.length > 1) {
+      for (const account of accounts) {
+        const accountRecords = periodRecords.filter(record => record.account === account);
+        console.log(`  - ${account}: ${describeStats(summarizeHistory(accountRecords))[0]}`);
+      }
+    }
+  }
+
+  return EXIT_CODES.SUCCESS;
+};
+
+export const COMMANDS: Record<CommandName, Command> = {
+  run,
+  daemon,
+  bot,
+  "check-config": checkConfig,
+  probe,
+  "login-only": loginOnly,
+  snapshot,
+  "list-resumes": listResumes,
+  "cleanup-artifacts": cleanup,
+  "encrypt-secrets": encryptSecrets,
+  "print-config": printConfig,
+  stats,
+};
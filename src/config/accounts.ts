@@ -0,0 +1,158 @@
+// src/config/accounts.ts
+import * as fs from "fs";
+import { Account } from "../types";
+import { readCredential, resolveCredential } from "./credentials";
+
+export type AccountSource = "file" | "indexed-env" | "env" | "none";
+
+export interface AccountLoadResult {
+  accounts: Account[];
+  source: AccountSource;
+  errors: string[];
+}
+
+interface AccountFileEntry {
+  label?: unknown;
+  id?: unknown;
+  password?: unknown;
+}
+
+/**
+ * 계정 목록 파일(JSON 배열)을 읽는다.
+ * 형식: [{ "label": "개발", "id": "...", "password": "..." }]
+ */
+function loadFromFile(filePath: string): AccountLoadResult {
+  const errors: string[] = [];
+  let entries: unknown;
+
+  try {
+    entries = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    return {
+      accounts: [],
+      source: "file",
+      errors: [
+        `계정 파일을 읽을 수 없습니다 (${filePath}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ],
+    };
+  }
+
+  if (!Array.isArray(entries)) {
+    return { accounts: [], source: "file", errors: ["계정 파일은 JSON 배열이어야 합니다."] };
+  }
+
+  const accounts: Account[] = [];
+  entries.forEach((entry: AccountFileEntry, index) => {
+    const position = index + 1;
+    if (typeof entry !== "object" || entry === null) {
+      errors.push(`계정 파일 ${position}번째 항목이 객체가 아닙니다.`);
+      return;
+    }
+    if (typeof entry.id !== "string" || typeof entry.password !== "string") {
+      errors.push(`계정 파일 ${position}번째 항목에 id/password 문자열이 필요합니다.`);
+      return;
+    }
+
+    accounts.push({
+      label: typeof entry.label === "string" && entry.label.length > 0 ? entry.label : `account${position}`,
+      jobkoreaId: entry.id,
+      jobkoreaPwd: entry.password,
+    });
+  });
+
+  return { accounts, source: "file", errors };
+}
+
+// 제공자 중 하나로 지정했으면 값을 읽지 못했더라도 지정한 것으로 본다. (읽지 못한 이유는 오류로 알린다)
+function isProvided(name: string): boolean {
+  const { value, error } = resolveCredential(name);
+  return Boolean(value || error);
+}
+
+/**
+ * JOBKOREA_ID_1/JOBKOREA_PWD_1/JOBKOREA_LABEL_1 ... 형태의 번호 붙은 환경변수를 읽는다.
+ * 번호는 1부터 시작하며 처음으로 비어있는 번호에서 멈춘다.
+ * ID와 비밀번호는 자격 증명 제공자(JOBKOREA_ID_1_FILE, JOBKOREA_PWD_1_FILE 등)로도 지정할 수 있다.
+ */
+function loadFromIndexedEnv(): AccountLoadResult {
+  const accounts: Account[] = [];
+  const errors: string[] = [];
+
+  for (let index = 1; isProvided(`JOBKOREA_ID_${index}`); index++) {
+    const id = resolveCredential(`JOBKOREA_ID_${index}`);
+    if (!id.value) {
+      errors.push(id.error!);
+      continue;
+    }
+
+    const { value: password, error } = resolveCredential(`JOBKOREA_PWD_${index}`);
+    if (!password) {
+      errors.push(error ?? `환경변수 JOBKOREA_PWD_${index}이 설정되지 않았습니다.`);
+      continue;
+    }
+
+    accounts.push({
+      label: process.env[`JOBKOREA_LABEL_${index}`] || `account${index}`,
+      jobkoreaId: id.value,
+      jobkoreaPwd: password,
+    });
+  }
+
+  return { accounts, source: "indexed-env", errors };
+}
+
+/**
+ * 계정을 어디서 불러올지 우선순위에 따라 정한다.
+ * JOBKOREA_ACCOUNTS_FILE → JOBKOREA_ID_n → JOBKOREA_ID/JOBKOREA_PWD (단일 계정)
+ */
+export function detectAccountSource(): AccountSource {
+  if (process.env.JOBKOREA_ACCOUNTS_FILE) {
+    return "file";
+  }
+  if (isProvided("JOBKOREA_ID_1")) {
+    return "indexed-env";
+  }
+  if (isProvided("JOBKOREA_ID")) {
+    return "env";
+  }
+  return "none";
+}
+
+export function hasAccountSource(): boolean {
+  return detectAccountSource() !== "none";
+}
+
+// 계정 목록을 detectAccountSource가 정한 곳에서 불러온다.
+export function loadAccounts(): AccountLoadResult {
+  switch (detectAccountSource()) {
+    case "file":
+      return loadFromFile(process.env.JOBKOREA_ACCOUNTS_FILE!);
+    case "indexed-env":
+      return loadFromIndexedEnv();
+    case "env": {
+      const id = resolveCredential("JOBKOREA_ID");
+      return {
+        accounts: id.value
+          ? [
+              {
+                label: process.env.JOBKOREA_LABEL || "default",
+                jobkoreaId: id.value,
+                jobkoreaPwd: readCredential("JOBKOREA_PWD") ?? "",
+              },
+            ]
+          : [],
+        source: "env",
+        errors: id.error ? [id.error] : [],
+      };
+    }
+    case "none":
+      return { accounts: [], source: "none", errors: ["설정된 JobKorea 계정이 없습니다."] };
+  }
+}
+
+// 계정 label을 파일명에 안전한 형태로 변환
+export function toArtifactTag(label: string): string {
+  return label.replace(/[^A-Za-z0-9_-]/g, "_");
+}
@@ -0,0 +1,188 @@
+// src/config/credentials.ts
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { decryptText, encryptText } from "../utils/encryption";
+import { configManager } from "./index";
+
+/**
+ * 비밀 값을 어디서 읽었는지. 같은 이름에 대해 아래 순서로 찾는다.
+ * - env: 환경변수 <이름>
+ * - file: <이름>_FILE이 가리키는 파일 (Docker secret 등)
+ * - command: <이름>_COMMAND 명령어의 표준 출력 (pass, op 등 비밀 값 관리 도구)
+ * - vault: SECRETS_VAULT_PASSPHRASE로 여는 암호화된 비밀 값 파일 (credentials.vaultFile)
+ */
+export type CredentialSource = "env" | "file" | "command" | "vault";
+
+export interface CredentialResolution {
+  value?: string;
+  source?: CredentialSource;
+  // 제공자를 설정했지만 값을 읽지 못한 이유
+  error?: string;
+}
+
+// 암호화 파일을 여는 암호. 암호화 파일 자체에서는 찾지 않는다.
+export const VAULT_PASSPHRASE_NAME = "SECRETS_VAULT_PASSPHRASE";
+
+interface VaultLoad {
+  secrets: Record<string, string>;
+  error?: string;
+}
+
+// 명령어를 여러 번 실행하거나 암호화 파일을 여러 번 복호화하지 않도록 프로세스 동안 유지한다.
+const resolutions = new Map<string, CredentialResolution>();
+let vaultLoad: VaultLoad | null = null;
+
+// 파일과 명령어 출력 끝의 줄바꿈은 값에 넣지 않는다.
+function trimTrailingNewline(value: string): string {
+  return value.replace(/\r?\n$/, "");
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function readFromFile(name: string, filePath: string): CredentialResolution {
+  try {
+    return { value: trimTrailingNewline(fs.readFileSync(filePath, "utf-8")), source: "file" };
+  } catch (error) {
+    return { error: `${name}_FILE을 읽을 수 없습니다 (${filePath}): ${describeError(error)}` };
+  }
+}
+
+function readFromCommand(name: string, command: string): CredentialResolution {
+  try {
+    const output = execSync(command, {
+      encoding: "utf-8",
+      timeout: configManager.getCredentialsConfig().commandTimeoutMs,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    return { value: trimTrailingNewline(output), source: "command" };
+  } catch (error) {
+    // 명령어 출력에 비밀 값이 섞일 수 있으므로 종료 상태만 알린다.
+    const status = (error as { status?: number | null }).status;
+    const detail = typeof status === "number" ? ` (종료 코드 ${status})` : "";
+    return { error: `${name}_COMMAND 실행 실패${detail}` };
+  }
+}
+
+// 환경변수, 파일, 명령어 순으로 찾는다. 둘 이상 설정하면 어느 값을 쓸지 모호하므로 오류로 본다.
+function resolveDirect(name: string): CredentialResolution {
+  const env = process.env[name];
+  const file = process.env[`${name}_FILE`];
+  const command = process.env[`${name}_COMMAND`];
+
+  const configured = [env && name, file && `${name}_FILE`, command && `${name}_COMMAND`].filter(
+    Boolean
+  );
+  if (configured.length > 1) {
+    return { error: `${configured.join(", ")} 중 하나만 설정해야 합니다.` };
+  }
+
+  if (env) {
+    return { value: env, source: "env" };
+  }
+  if (file) {
+    return readFromFile(name, file);
+  }
+  if (command) {
+    return readFromCommand(name, command);
+  }
+  return {};
+}
+
+function loadVault(): VaultLoad {
+  const passphrase = resolveDirect(VAULT_PASSPHRASE_NAME);
+  if (passphrase.error) {
+    return { secrets: {}, error: passphrase.error };
+  }
+  if (!passphrase.value) {
+    return { secrets: {} };
+  }
+
+  const { vaultFile } = configManager.getCredentialsConfig();
+  try {
+    const secrets: unknown = JSON.parse(
+      decryptText(fs.readFileSync(vaultFile, "utf-8"), passphrase.value)
+    );
+    if (
+      typeof secrets !== "object" ||
+      secrets === null ||
+      Array.isArray(secrets) ||
+      Object.values(secrets).some(value => typeof value !== "string")
+    ) {
+      return {
+        secrets: {},
+        error: `암호화 파일(${vaultFile})은 문자열 값만 가진 객체여야 합니다.`,
+      };
+    }
+    return { secrets: secrets as Record<string, string> };
+  } catch (error) {
+    return {
+      secrets: {},
+      error: `암호화 파일을 열 수 없습니다 (${vaultFile}): ${describeError(error)}`,
+    };
+  }
+}
+
+function getVault(): VaultLoad {
+  vaultLoad ??= loadVault();
+  return vaultLoad;
+}
+
+/**
+ * 이름에 해당하는 값을 제공자 순서대로 찾는다.
+ * 환경변수, 파일, 명령어 중 하나가 설정되어 있으면 암호화 파일은 보지 않는다.
+ */
+export function resolveCredential(name: string): CredentialResolution {
+  const cached = resolutions.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  let resolution = resolveDirect(name);
+  if (!resolution.value && !resolution.error && name !== VAULT_PASSPHRASE_NAME) {
+    const value = getVault().secrets[name];
+    if (value) {
+      resolution = { value, source: "vault" };
+    }
+  }
+
+  resolutions.set(name, resolution);
+  return resolution;
+}
+
+// 값만 필요할 때 쓴다. 읽지 못한 이유는 ConfigValidator가 알린다.
+export function readCredential(name: string): string | undefined {
+  return resolveCredential(name).value || undefined;
+}
+
+// SECRETS_VAULT_PASSPHRASE가 설정되어 있을 때 암호화 파일을 열지 못한 이유
+export function getVaultError(): string | undefined {
+  return getVault().error;
+}
+
+/**
+ * 비밀 값을 암호화 파일로 저장한다. (encrypt-secrets 명령어)
+ * 암호는 환경변수, 파일, 명령어 제공자에서 읽는다.
+ */
+export function writeVault(secrets: Record<string, string>): string {
+  const passphrase = resolveDirect(VAULT_PASSPHRASE_NAME);
+  if (!passphrase.value) {
+    throw new Error(passphrase.error ?? `${VAULT_PASSPHRASE_NAME}이 설정되지 않았습니다.`);
+  }
+
+  const { vaultFile } = configManager.getCredentialsConfig();
+  fs.mkdirSync(path.dirname(vaultFile), { recursive: true });
+  const file = encryptText(JSON.stringify(secrets), passphrase.value);
+  fs.writeFileSync(vaultFile, JSON.stringify(file), { encoding: "utf-8", mode: 0o600 });
+
+  clearCredentials();
+  return vaultFile;
+}
+
+// 캐시를 비워 다음 조회 때 제공자를 다시 읽게 한다. (비밀 값 파일을 새로 쓴 뒤, 테스트)
+export function clearCredentials(): void {
+  resolutions.clear();
+  vaultLoad = null;
+}
@@ -0,0 +1,54 @@
+// src/config/dump.ts
+import { Config } from "../types";
+import { AppConfig, ConfigSource } from "./index";
+import { isPlainObject } from "./schema";
+
+// 값 전체를 가리는 키 (키 이름 끝부분 기준, selectors.login.passwordInput 같은 셀렉터는 제외)
+const SECRET_KEY_PATTERN = /(password|pwd|pass|token|secret|webhookurl|key)$/i;
+// 식별 가능한 앞부분만 남기는 키
+const PARTIAL_KEY_PATTERN = /(jobkoreaid|chatid|user)$/i;
+
+const MASK = "****";
+
+function maskPartially(value: string): string {
+  if (value.length <= 3) {
+    return MASK;
+  }
+  return `${value.slice(0, 2)}${MASK}${value.slice(-1)}`;
+}
+
+function maskValue(key: string, value: unknown): unknown {
+  if (typeof value !== "string" || value.length === 0) {
+    return maskNode(value);
+  }
+  if (SECRET_KEY_PATTERN.test(key)) {
+    return MASK;
+  }
+  if (PARTIAL_KEY_PATTERN.test(key)) {
+    return maskPartially(value);
+  }
+  return value;
+}
+
+function maskNode(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(maskNode);
+  }
+  if (isPlainObject(node)) {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, maskValue(key, value)])
+    );
+  }
+  return node;
+}
+
+/**
+ * 실제 적용되는 설정을 민감 정보를 가린 JSON 문자열로 만든다. (--print-config)
+ */
+export function dumpEffectiveConfig(
+  appConfig: AppConfig,
+  runtime: Config,
+  source: ConfigSource
+): string {
+  return JSON.stringify(maskNode({ source, runtime, app: appConfig }), null, 2);
+}
@@ -0,0 +1,89 @@
+// src/config/file.ts
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { isPlainObject, validateConfigOverlay } from "./schema";
+
+// CONFIG_FILE이 없을 때 현재 디렉터리에서 찾는 파일 이름
+export const DEFAULT_CONFIG_FILES = [
+  "jobkorea.config.json",
+  "jobkorea.config.yaml",
+  "jobkorea.config.yml",
+];
+
+export interface ConfigFileResult {
+  // 순서대로 덮어쓸 부분 설정 (파일 기본값 → 프로필)
+  layers: unknown[];
+  errors: string[];
+}
+
+export function resolveConfigFile(explicitPath?: string): string | undefined {
+  if (explicitPath) {
+    return explicitPath;
+  }
+  if (process.env.CONFIG_FILE) {
+    return process.env.CONFIG_FILE;
+  }
+  return DEFAULT_CONFIG_FILES.find(fileName => fs.existsSync(fileName));
+}
+
+function parseConfigFile(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === ".yaml" || extension === ".yml" ? parseYaml(content) : JSON.parse(content);
+}
+
+/**
+ * 설정 파일을 읽어 기본 설정 위에 덮어쓸 부분 설정을 만든다.
+ * 최상위 profiles 키 아래의 프로필을 지정하면 파일 기본값 위에 한 번 더 덮어쓴다.
+ */
+export function readConfigFile(
+  filePath: string,
+  reference: object,
+  profile?: string
+): ConfigFileResult {
+  let parsed: unknown;
+  try {
+    parsed = parseConfigFile(filePath) ?? {};
+  } catch (error) {
+    return {
+      layers: [],
+      errors: [
+        `설정 파일을 읽을 수 없습니다 (${filePath}): ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ],
+    };
+  }
+
+  if (!isPlainObject(parsed)) {
+    return { layers: [], errors: [`${filePath}: (root): 설정 파일은 객체여야 합니다.`] };
+  }
+
+  const { profiles, ...base } = parsed;
+  const errors = validateConfigOverlay(reference, base);
+
+  if (profiles !== undefined && !isPlainObject(profiles)) {
+    errors.push("profiles: 객체여야 합니다.");
+  }
+
+  const layers: unknown[] = [base];
+  if (profile) {
+    const available = isPlainObject(profiles) ? profiles : {};
+    if (!(profile in available)) {
+      errors.push(
+        `profiles.${profile}: 프로필을 찾을 수 없습니다. (사용 가능: ${
+          Object.keys(available).join(", ") || "없음"
+        })`
+      );
+    } else {
+      layers.push(available[profile]);
+      errors.push(...validateConfigOverlay(reference, available[profile], `profiles.${profile}`));
+    }
+  }
+
+  return {
+    layers,
+    errors: errors.map(error => `${filePath}: ${error}`),
+  };
+}
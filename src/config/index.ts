@@ -1,4 +1,21 @@
 // src/config/index.ts
+import {
+  InterruptionRule,
+  LogLevel,
+  MESSAGE_EVENTS,
+  MESSAGE_LOCALES,
+  MessageEvent,
+  MessageLocale,
+  NOTIFIER_CHANNELS,
+  NotifierChannel,
+  STEP_NAMES,
+  StepName,
+  TELEGRAM_PARSE_MODES,
+  TelegramParseMode,
+} from "../types";
+import { readConfigFile, resolveConfigFile } from "./file";
+import { deepMerge, isValidTimeZone } from "./schema";
+
 export interface AppConfig {
   // URL 설정
   urls: {
@@ -12,10 +29,19 @@ export interface AppConfig {
       idInput: readonly string[];
       passwordInput: readonly string[];
       loginButton: readonly string[];
+      // 로그인 실패 안내 문구가 표시되는 영역
+      errorMessage: readonly string[];
+      // 보안 문자(캡차) 입력 영역
+      captcha: readonly string[];
     };
     mypage: {
       statusLink: readonly string[];
       updateButton: readonly string[];
+      // 이력서 최종수정일 표시 영역 (못 찾으면 페이지 텍스트에서 라벨로 검색)
+      lastUpdated: readonly string[];
+      // 이력서 목록의 각 항목과 항목 안의 제목
+      resumeItem: readonly string[];
+      resumeTitle: readonly string[];
     };
   };
 
@@ -33,6 +59,8 @@ export interface AppConfig {
     baseDelay: number;
     maxDelay: number;
     backoffMultiplier: number;
+    // 단계별 재시도 횟수 (지정하지 않은 단계는 maxOperationRetries 사용)
+    steps: Partial<Record<StepName, number>>;
   };
 
   // 브라우저 설정
@@ -49,6 +77,13 @@ export interface AppConfig {
       socialMedia: boolean;
       unnecessaryImages: boolean;
     };
+    // 시도마다 남기는 기록 (실패한 시도만 error-* 파일로 보관)
+    recording: {
+      // Playwright trace (화면 스냅샷, 네트워크, 콘솔)
+      trace: boolean;
+      har: boolean;
+      video: boolean;
+    };
   };
 
   // 로깅 설정
@@ -61,12 +96,141 @@ export interface AppConfig {
   // 업데이트 검증 설정
   update: {
     successPatterns: readonly string[];
+    // true면 업데이트 버튼 확인까지만 하고 클릭하지 않는다.
+    dryRun: boolean;
+    // 업데이트 후 마이페이지의 최종수정일이 갱신되었는지 확인
+    verifyTimestamp: boolean;
+    // 업데이트할 이력서 ID (비어 있으면 목록의 모든 이력서)
+    resumeIds: readonly string[];
+    // 최종수정일이 이 시간(분) 안이면 업데이트하지 않고 건너뛴다. (0이면 항상 업데이트)
+    minIntervalMinutes: number;
   };
 
   // 보안 설정
   security: {
     maskSensitiveInfo: boolean;
   };
+
+  // 알림 채널 설정 (모든 채널로 동시에 전송)
+  notifications: {
+    channels: readonly NotifierChannel[];
+    telegramApiBaseUrl: string;
+    // Telegram 본문 형식 (문구는 형식에 맞게 escape)
+    telegramParseMode: TelegramParseMode;
+    // 브라우저를 재시작해 다시 시도할 때마다 알림 전송
+    notifyRetries: boolean;
+    // 실패 알림에 스크린샷(sendPhoto)과 HTML(sendDocument)을 첨부
+    telegramAttachments: boolean;
+    // 이보다 큰 파일은 첨부하지 않는다. (sendPhoto 한도 10MB)
+    telegramAttachmentMaxBytes: number;
+  };
+
+  // 알림 문구 (언어, 시간대, 이벤트별 템플릿)
+  messages: {
+    locale: MessageLocale;
+    // 알림의 날짜/시간을 표시할 IANA 시간대
+    timezone: string;
+    // 기본 템플릿 대신 쓸 이벤트별 템플릿 (자리표시자 {date} 등, 줄바꿈은 \n)
+    templates: Partial<Record<MessageEvent, string>>;
+  };
+
+  // Telegram 봇 명령어 (/update, /status, /dryrun, /snapshot)
+  telegramBot: {
+    // daemon 명령어에서 봇도 함께 실행 (bot 명령어는 항상 실행)
+    enabled: boolean;
+    // getUpdates 롱 폴링 대기 시간
+    pollTimeoutSeconds: number;
+  };
+
+  // 로그인 실패 원인 판별 (loginFailure.ts)
+  loginFailure: {
+    // 오류 영역과 알림창에 나타나는 문구 (보안 문자 → 휴면 → 잠금 → 본인 인증 → 비밀번호 순으로 확인)
+    messages: {
+      captcha: readonly string[];
+      dormant: readonly string[];
+      locked: readonly string[];
+      verification: readonly string[];
+      wrongPassword: readonly string[];
+    };
+    // 로그인 후 이동한 URL에 포함된 문자열
+    redirects: {
+      dormant: readonly string[];
+      verification: readonly string[];
+    };
+  };
+
+  // 방해 요소 처리 규칙 (interruptions.ts). 앞의 규칙이 우선한다.
+  interruptions: readonly InterruptionRule[];
+
+  // 실행 전 네트워크 점검(preflight) 설정
+  preflight: {
+    enabled: boolean;
+    connectTimeout: number;
+    totalTimeout: number;
+    maxRetries: number;
+  };
+
+  // 실행 리포트(JSON) 설정
+  report: {
+    path: string;
+  };
+
+  // 스크린샷, HTML, 기록 파일 저장 설정 (artifacts.ts)
+  artifacts: {
+    // 실행마다 <dir>/<실행 폴더>를 만든다.
+    dir: string;
+    // 최근 실행 폴더를 몇 개까지 남길지
+    keepRuns: number;
+    // 이보다 오래된 실행 폴더는 지운다.
+    maxAgeDays: number;
+    // 값을 아티팩트에서 지울 환경변수 (계정 ID와 비밀번호는 항상 지운다)
+    redactEnv: readonly string[];
+  };
+
+  // 로그인 세션 재사용 설정 (SESSION_ENCRYPTION_KEY가 있을 때만 사용)
+  session: {
+    stateDir: string;
+  };
+
+  // 환경변수 외의 자격 증명 제공자 설정 (credentials.ts)
+  credentials: {
+    // SECRETS_VAULT_PASSPHRASE로 여는 암호화된 비밀 값 파일
+    vaultFile: string;
+    // <이름>_COMMAND 명령어를 기다리는 최대 시간
+    commandTimeoutMs: number;
+  };
+
+  // 셀렉터 매칭 이력 (fallback 사용/셀렉터 변경 조기 경고)
+  selectorHistory: {
+    path: string;
+    maxEntries: number;
+  };
+
+  // 계정별 하루(KST) 업데이트 시도 기록과 한도
+  attemptLedger: {
+    path: string;
+    dailyCap: number;
+  };
+
+  // 실행 이력 (JSONL, 실행마다 계정별 한 줄)
+  history: {
+    path: string;
+    // 한 주(월요일 시작, KST)의 첫 실행에서 지난 7일 요약 알림 전송
+    weeklyDigest: boolean;
+  };
+
+  // daemon 명령어의 실행 일정 (Asia/Seoul 기준)
+  schedule: {
+    // cron 식 (분 시 일 월 요일)
+    cron: readonly string[];
+    // 예약 시각보다 0~jitterMinutes분 늦게 임의로 실행
+    jitterMinutes: number;
+    skipWeekends: boolean;
+    // 실행하지 않을 날짜 (YYYY-MM-DD)
+    skipDates: readonly string[];
+    // 공휴일 목록 파일 (한 줄에 YYYY-MM-DD 하나, # 뒤는 주석). 비어 있으면 사용하지 않음
+    holidaysFile: string;
+  };
 }
 
 export const defaultConfig: AppConfig = {
@@ -85,6 +249,8 @@ export const defaultConfig: AppConfig = {
         'input[type="password"]',
       ],
       loginButton: [".login-button", "#login_btn", 'button[type="submit"]', ".btn-login"],
+      errorMessage: [".login-error", "#errMsg", ".error_msg", '[role="alert"]'],
+      captcha: ["#captcha", 'img[src*="captcha" i]', 'input[name*="captcha" i]'],
     },
     mypage: {
       statusLink: [".status a", ".my-status a", 'a[href*="status"]', ".resume-status a"],
@@ -94,6 +260,9 @@ export const defaultConfig: AppConfig = {
         'button[onclick*="update"]',
         ".update-btn",
       ],
+      lastUpdated: [".resume-date", ".date-update", ".mod-date", ".resume-status .date"],
+      resumeItem: [".resume-list li", ".resume-item", "[data-resume-id]", "[data-rno]"],
+      resumeTitle: [".resume-title", ".tit", ".title"],
     },
   },
 
@@ -109,6 +278,7 @@ export const defaultConfig: AppConfig = {
     baseDelay: 2000,
     maxDelay: 10000,
     backoffMultiplier: 2,
+    steps: {},
   },
 
   browser: {
@@ -136,6 +306,11 @@ export const defaultConfig: AppConfig = {
       socialMedia: true,
       unnecessaryImages: true,
     },
+    recording: {
+      trace: false,
+      har: false,
+      video: false,
+    },
   },
 
   logging: {
@@ -146,11 +321,124 @@ export const defaultConfig: AppConfig = {
 
   update: {
     successPatterns: ["업데이트 되었습니다", "업데이트되었습니다", "수정되었습니다"],
+    dryRun: false,
+    verifyTimestamp: true,
+    resumeIds: [],
+    minIntervalMinutes: 60,
   },
 
   security: {
     maskSensitiveInfo: true,
   },
+
+  notifications: {
+    channels: ["telegram"],
+    telegramApiBaseUrl: "https://api.telegram.org",
+    telegramParseMode: "HTML",
+    notifyRetries: false,
+    telegramAttachments: true,
+    telegramAttachmentMaxBytes: 10 * 1024 * 1024,
+  },
+
+  messages: {
+    locale: "ko",
+    timezone: "Asia/Seoul",
+    templates: {},
+  },
+
+  telegramBot: {
+    enabled: false,
+    pollTimeoutSeconds: 30,
+  },
+
+  loginFailure: {
+    messages: {
+      captcha: ["자동입력 방지", "자동 입력 방지", "보안문자", "보안 문자"],
+      dormant: ["휴면"],
+      locked: ["잠금", "잠겼", "로그인이 제한", "로그인 제한"],
+      verification: ["본인인증", "본인 인증", "본인확인", "추가 인증"],
+      wrongPassword: [
+        "비밀번호가 일치하지",
+        "비밀번호를 확인",
+        "아이디 또는 비밀번호",
+        "회원정보가 없",
+        "잘못 입력",
+      ],
+    },
+    redirects: {
+      dormant: ["Dormant", "dormant", "Sleep"],
+      verification: ["Certify", "certify", "SelfAuth", "Verify"],
+    },
+  },
+
+  interruptions: [
+    {
+      name: "비밀번호 변경 안내 팝업",
+      popupSelector: 'a[href*="나중에 변경"]',
+      action: "click",
+      selector: 'a[href*="나중에 변경"]',
+    },
+    { name: "비밀번호 나중에 변경 확인", dialogMessage: "나중에 변경", action: "dismiss" },
+    { name: "광고 모달", overlay: ".ab-iam-root", action: "remove" },
+  ],
+
+  preflight: {
+    enabled: true,
+    connectTimeout: 10000,
+    totalTimeout: 30000,
+    maxRetries: 3,
+  },
+
+  report: {
+    path: "run-report.json",
+  },
+
+  artifacts: {
+    dir: "artifacts",
+    keepRuns: 20,
+    maxAgeDays: 14,
+    redactEnv: [
+      "TELEGRAM_BOT_TOKEN",
+      "SESSION_ENCRYPTION_KEY",
+      "SMTP_PASS",
+      "SLACK_WEBHOOK_URL",
+      "DISCORD_WEBHOOK_URL",
+      "NOTIFY_WEBHOOK_URL",
+    ],
+  },
+
+  session: {
+    stateDir: ".session",
+  },
+
+  credentials: {
+    vaultFile: ".secrets.enc",
+    commandTimeoutMs: 10000,
+  },
+
+  selectorHistory: {
+    path: "selector-history.json",
+    maxEntries: 500,
+  },
+
+  attemptLedger: {
+    path: "attempt-ledger.json",
+    dailyCap: 10,
+  },
+
+  history: {
+    path: "run-history.jsonl",
+    weeklyDigest: false,
+  },
+
+  // GitHub Actions 워크플로와 같은 시각 (KST 08:50, 12:50)
+  schedule: {
+    cron: ["50 8 * * *", "50 12 * * *"],
+    jitterMinutes: 10,
+    skipWeekends: false,
+    skipDates: [],
+    holidaysFile: "",
+  },
 };
 
 function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
@@ -158,9 +446,26 @@ function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
     ...baseConfig,
     urls: { ...baseConfig.urls },
     timeouts: { ...baseConfig.timeouts },
-    retry: { ...baseConfig.retry },
-    browser: { ...baseConfig.browser },
+    retry: { ...baseConfig.retry, steps: { ...baseConfig.retry.steps } },
+    browser: { ...baseConfig.browser, recording: { ...baseConfig.browser.recording } },
     logging: { ...baseConfig.logging },
+    update: { ...baseConfig.update },
+    notifications: { ...baseConfig.notifications },
+    messages: { ...baseConfig.messages, templates: { ...baseConfig.messages.templates } },
+    telegramBot: { ...baseConfig.telegramBot },
+    loginFailure: {
+      messages: { ...baseConfig.loginFailure.messages },
+      redirects: { ...baseConfig.loginFailure.redirects },
+    },
+    preflight: { ...baseConfig.preflight },
+    report: { ...baseConfig.report },
+    artifacts: { ...baseConfig.artifacts },
+    session: { ...baseConfig.session },
+    credentials: { ...baseConfig.credentials },
+    selectorHistory: { ...baseConfig.selectorHistory },
+    attemptLedger: { ...baseConfig.attemptLedger },
+    history: { ...baseConfig.history },
+    schedule: { ...baseConfig.schedule },
   };
 
   const readPositiveInt = (name: string): number | undefined => {
@@ -171,6 +476,24 @@ function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
     return !isNaN(parsed) && parsed > 0 ? parsed : undefined;
   };
 
+  const readNonNegativeInt = (name: string): number | undefined => {
+    const value = process.env[name];
+    if (!value) return undefined;
+
+    const parsed = parseInt(value, 10);
+    return !isNaN(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  const readList = (name: string, separator: string): string[] | undefined => {
+    const value = process.env[name];
+    if (!value) return undefined;
+
+    return value
+      .split(separator)
+      .map(item => item.trim())
+      .filter(Boolean);
+  };
+
   const readPositiveFloat = (name: string): number | undefined => {
     const value = process.env[name];
     if (!value) return undefined;
@@ -187,10 +510,185 @@ function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
     config.urls.mypage = process.env.JOBKOREA_MYPAGE_URL;
   }
 
+  if (process.env.NOTIFY_CHANNELS) {
+    const channels = process.env.NOTIFY_CHANNELS.split(",")
+      .map(channel => channel.trim().toLowerCase())
+      .filter((channel): channel is NotifierChannel =>
+        NOTIFIER_CHANNELS.includes(channel as NotifierChannel)
+      );
+    if (channels.length > 0) {
+      config.notifications.channels = [...new Set(channels)];
+    }
+  }
+
+  if (process.env.TELEGRAM_API_BASE_URL) {
+    config.notifications.telegramApiBaseUrl = process.env.TELEGRAM_API_BASE_URL.replace(/\/+$/, "");
+  }
+
+  if (TELEGRAM_PARSE_MODES.includes(process.env.TELEGRAM_PARSE_MODE as TelegramParseMode)) {
+    config.notifications.telegramParseMode = process.env.TELEGRAM_PARSE_MODE as TelegramParseMode;
+  }
+
+  if (process.env.NOTIFY_RETRIES) {
+    config.notifications.notifyRetries = process.env.NOTIFY_RETRIES === "true";
+  }
+
+  if (MESSAGE_LOCALES.includes(process.env.MESSAGE_LOCALE as MessageLocale)) {
+    config.messages.locale = process.env.MESSAGE_LOCALE as MessageLocale;
+  }
+
+  if (process.env.MESSAGE_TIMEZONE && isValidTimeZone(process.env.MESSAGE_TIMEZONE)) {
+    config.messages.timezone = process.env.MESSAGE_TIMEZONE;
+  }
+
+  // MESSAGE_TEMPLATE_SUCCESS="✅ {date} {time}\n최종수정일: {resumeUpdatedAt}"
+  for (const event of MESSAGE_EVENTS) {
+    const envName = `MESSAGE_TEMPLATE_${event.replace(/[A-Z]/g, "_$&").toUpperCase()}`;
+    const template = process.env[envName];
+    if (template) {
+      config.messages.templates[event] = template.replace(/\\n/g, "\n");
+    }
+  }
+
+  if (process.env.TELEGRAM_ATTACHMENTS) {
+    config.notifications.telegramAttachments = process.env.TELEGRAM_ATTACHMENTS === "true";
+  }
+
+  const attachmentMaxBytes = readPositiveInt("TELEGRAM_ATTACHMENT_MAX_BYTES");
+  if (attachmentMaxBytes) {
+    config.notifications.telegramAttachmentMaxBytes = attachmentMaxBytes;
+  }
+
+  if (process.env.TELEGRAM_BOT_ENABLED) {
+    config.telegramBot.enabled = process.env.TELEGRAM_BOT_ENABLED === "true";
+  }
+
+  const pollTimeout = readPositiveInt("TELEGRAM_POLL_TIMEOUT_SECONDS");
+  if (pollTimeout) {
+    config.telegramBot.pollTimeoutSeconds = pollTimeout;
+  }
+
+  if (process.env.PREFLIGHT_ENABLED) {
+    config.preflight.enabled = process.env.PREFLIGHT_ENABLED === "true";
+  }
+
+  const preflightTimeout = readPositiveInt("PREFLIGHT_TIMEOUT_MS");
+  if (preflightTimeout) {
+    config.preflight.totalTimeout = preflightTimeout;
+  }
+
+  if (process.env.RUN_REPORT_PATH) {
+    config.report.path = process.env.RUN_REPORT_PATH;
+  }
+
+  if (process.env.ARTIFACTS_DIR) {
+    config.artifacts.dir = process.env.ARTIFACTS_DIR;
+  }
+
+  const keepRuns = readPositiveInt("ARTIFACTS_KEEP_RUNS");
+  if (keepRuns) {
+    config.artifacts.keepRuns = keepRuns;
+  }
+
+  const maxAgeDays = readPositiveInt("ARTIFACTS_MAX_AGE_DAYS");
+  if (maxAgeDays) {
+    config.artifacts.maxAgeDays = maxAgeDays;
+  }
+
+  if (process.env.SESSION_STATE_DIR) {
+    config.session.stateDir = process.env.SESSION_STATE_DIR;
+  }
+
+  if (process.env.SECRETS_VAULT_FILE) {
+    config.credentials.vaultFile = process.env.SECRETS_VAULT_FILE;
+  }
+
+  const commandTimeoutMs = readPositiveInt("SECRETS_COMMAND_TIMEOUT_MS");
+  if (commandTimeoutMs) {
+    config.credentials.commandTimeoutMs = commandTimeoutMs;
+  }
+
+  if (process.env.DRY_RUN) {
+    config.update.dryRun = process.env.DRY_RUN === "true";
+  }
+
+  if (process.env.VERIFY_UPDATE_TIMESTAMP) {
+    config.update.verifyTimestamp = process.env.VERIFY_UPDATE_TIMESTAMP === "true";
+  }
+
+  // RESUME_IDS="12345678,23456789"
+  const resumeIds = readList("RESUME_IDS", ",");
+  if (resumeIds) {
+    config.update.resumeIds = resumeIds;
+  }
+
+  // 0이면 최근 업데이트 여부와 관계없이 항상 업데이트
+  const minInterval = readNonNegativeInt("MIN_UPDATE_INTERVAL_MINUTES");
+  if (minInterval !== undefined) {
+    config.update.minIntervalMinutes = minInterval;
+  }
+
+  if (process.env.ATTEMPT_LEDGER_PATH) {
+    config.attemptLedger.path = process.env.ATTEMPT_LEDGER_PATH;
+  }
+
+  const dailyAttemptCap = readPositiveInt("DAILY_ATTEMPT_CAP");
+  if (dailyAttemptCap) {
+    config.attemptLedger.dailyCap = dailyAttemptCap;
+  }
+
+  if (process.env.RUN_HISTORY_PATH) {
+    config.history.path = process.env.RUN_HISTORY_PATH;
+  }
+
+  if (process.env.WEEKLY_DIGEST) {
+    config.history.weeklyDigest = process.env.WEEKLY_DIGEST === "true";
+  }
+
+  // cron 식 안에 쉼표를 쓸 수 있으므로 세미콜론으로 구분: SCHEDULE_CRON="50 8 * * 1-5;50 12 * * 1-5"
+  const scheduleCron = readList("SCHEDULE_CRON", ";");
+  if (scheduleCron && scheduleCron.length > 0) {
+    config.schedule.cron = scheduleCron;
+  }
+
+  const jitterMinutes = readNonNegativeInt("SCHEDULE_JITTER_MINUTES");
+  if (jitterMinutes !== undefined) {
+    config.schedule.jitterMinutes = jitterMinutes;
+  }
+
+  if (process.env.SCHEDULE_SKIP_WEEKENDS) {
+    config.schedule.skipWeekends = process.env.SCHEDULE_SKIP_WEEKENDS === "true";
+  }
+
+  const skipDates = readList("SCHEDULE_SKIP_DATES", ",");
+  if (skipDates) {
+    config.schedule.skipDates = skipDates;
+  }
+
+  if (process.env.HOLIDAYS_FILE) {
+    config.schedule.holidaysFile = process.env.HOLIDAYS_FILE;
+  }
+
+  if (process.env.SELECTOR_HISTORY_PATH) {
+    config.selectorHistory.path = process.env.SELECTOR_HISTORY_PATH;
+  }
+
   if (process.env.BROWSER_HEADLESS) {
     config.browser.headless = process.env.BROWSER_HEADLESS === "true";
   }
 
+  if (process.env.RECORD_TRACE) {
+    config.browser.recording.trace = process.env.RECORD_TRACE === "true";
+  }
+
+  if (process.env.RECORD_HAR) {
+    config.browser.recording.har = process.env.RECORD_HAR === "true";
+  }
+
+  if (process.env.RECORD_VIDEO) {
+    config.browser.recording.video = process.env.RECORD_VIDEO === "true";
+  }
+
   const navigationTimeout = readPositiveInt("NAVIGATION_TIMEOUT_MS");
   if (navigationTimeout) {
     config.timeouts.navigation = navigationTimeout;
@@ -224,6 +722,17 @@ function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
     config.retry.maxProcessRetries = maxProcessRetries;
   }
 
+  // STEP_RETRIES="login=1,updateCareerInfo=5"
+  if (process.env.STEP_RETRIES) {
+    for (const entry of process.env.STEP_RETRIES.split(",")) {
+      const [name, value] = entry.split("=").map(part => part.trim());
+      const retries = parseInt(value, 10);
+      if (STEP_NAMES.includes(name as StepName) && !isNaN(retries) && retries > 0) {
+        config.retry.steps[name as StepName] = retries;
+      }
+    }
+  }
+
   const retryBaseDelay = readPositiveInt("RETRY_BASE_DELAY_MS");
   if (retryBaseDelay) {
     config.retry.baseDelay = retryBaseDelay;
@@ -246,9 +755,101 @@ function loadEnvironmentOverrides(baseConfig: AppConfig): AppConfig {
   return config;
 }
 
-const appConfig = loadEnvironmentOverrides(defaultConfig);
+export interface ConfigLoadOptions {
+  // 지정하지 않으면 CONFIG_FILE → 현재 디렉터리의 jobkorea.config.* 순으로 찾는다.
+  configFile?: string;
+  // 지정하지 않으면 CONFIG_PROFILE을 사용한다.
+  profile?: string;
+  // CLI --log-level (환경변수보다 우선)
+  logLevel?: LogLevel;
+  // CLI --dry-run (환경변수보다 우선)
+  dryRun?: boolean;
+}
+
+export interface ConfigSource {
+  file: string | null;
+  profile: string | null;
+}
+
+export interface ConfigLoadResult {
+  config: AppConfig;
+  source: ConfigSource;
+  errors: string[];
+}
+
+/**
+ * 설정을 기본값 → 설정 파일 → 프로필 → 환경변수 → CLI 옵션 순으로 덮어써 만든다.
+ */
+export function buildConfig(options: ConfigLoadOptions = {}): ConfigLoadResult {
+  const result = buildLayeredConfig(options);
+  if (options.logLevel) {
+    result.config.logging.logLevel = options.logLevel;
+  }
+  if (options.dryRun) {
+    result.config.update.dryRun = true;
+  }
+  result.errors.push(...enforceCiRestrictions(result.config));
+  return result;
+}
+
+/**
+ * CI 환경(CI 환경변수)에서는 Playwright trace를 끈다.
+ * trace는 압축 파일이라 가리지 못해 입력한 비밀번호가 그대로 남고, CI는 아티팩트를 업로드한다.
+ */
+function enforceCiRestrictions(config: AppConfig): string[] {
+  if (!process.env.CI || !config.browser.recording.trace) {
+    return [];
+  }
+  config.browser.recording.trace = false;
+  return [
+    "browser.recording.trace (RECORD_TRACE): CI 환경에서는 trace를 기록할 수 없습니다. " +
+      "trace에는 입력한 비밀번호가 그대로 남으므로 로컬에서만 켜세요.",
+  ];
+}
+
+function buildLayeredConfig(options: ConfigLoadOptions): ConfigLoadResult {
+  const file = resolveConfigFile(options.configFile) ?? null;
+  const profile = options.profile ?? process.env.CONFIG_PROFILE ?? null;
+
+  if (!file) {
+    const errors = profile
+      ? [`CONFIG_PROFILE=${profile}: 프로필을 사용하려면 설정 파일이 필요합니다.`]
+      : [];
+    return { config: loadEnvironmentOverrides(defaultConfig), source: { file, profile }, errors };
+  }
+
+  const { layers, errors } = readConfigFile(file, defaultConfig, profile ?? undefined);
+  const merged = layers.reduce<AppConfig>(
+    (config, layer) => deepMerge(config, layer),
+    defaultConfig
+  );
+
+  return { config: loadEnvironmentOverrides(merged), source: { file, profile }, errors };
+}
+
+// import 시점에는 환경변수만 반영하고, 설정 파일은 configManager.load()에서 읽는다.
+let appConfig = loadEnvironmentOverrides(defaultConfig);
+enforceCiRestrictions(appConfig);
+let configSource: ConfigSource = { file: null, profile: null };
 
 export const configManager = {
+  /**
+   * 설정 파일과 환경변수를 다시 읽는다.
+   * 검증 오류가 있으면 기존 설정을 유지하고 오류 목록을 반환한다.
+   */
+  load(options: ConfigLoadOptions = {}): string[] {
+    const result = buildConfig(options);
+    if (result.errors.length === 0) {
+      appConfig = result.config;
+      configSource = result.source;
+    }
+    return result.errors;
+  },
+
+  getConfigSource(): ConfigSource {
+    return configSource;
+  },
+
   getConfig(): AppConfig {
     return appConfig;
   },
@@ -269,6 +870,10 @@ export const configManager = {
     return appConfig.retry;
   },
 
+  getStepRetries(step: StepName): number {
+    return appConfig.retry.steps[step] ?? appConfig.retry.maxOperationRetries;
+  },
+
   getBrowserConfig() {
     return appConfig.browser;
   },
@@ -284,6 +889,67 @@ export const configManager = {
   getSecurityConfig() {
     return appConfig.security;
   },
+
+  getNotificationConfig() {
+    return appConfig.notifications;
+  },
+
+  getMessageConfig() {
+    return appConfig.messages;
+  },
+
+  getTelegramBotConfig() {
+    return appConfig.telegramBot;
+  },
+
+  // 봇의 /dryrun처럼 실행 중에 드라이런 여부만 바꿀 때 사용
+  setDryRun(dryRun: boolean): void {
+    appConfig = { ...appConfig, update: { ...appConfig.update, dryRun } };
+  },
+
+  getLoginFailureConfig() {
+    return appConfig.loginFailure;
+  },
+
+  getInterruptionRules() {
+    return appConfig.interruptions;
+  },
+
+  getPreflightConfig() {
+    return appConfig.preflight;
+  },
+
+  getReportConfig() {
+    return appConfig.report;
+  },
+
+  getArtifactsConfig() {
+    return appConfig.artifacts;
+  },
+
+  getSessionConfig() {
+    return appConfig.session;
+  },
+
+  getCredentialsConfig() {
+    return appConfig.credentials;
+  },
+
+  getSelectorHistoryConfig() {
+    return appConfig.selectorHistory;
+  },
+
+  getAttemptLedgerConfig() {
+    return appConfig.attemptLedger;
+  },
+
+  getHistoryConfig() {
+    return appConfig.history;
+  },
+
+  getScheduleConfig() {
+    return appConfig.schedule;
+  },
 };
 
 export default configManager;
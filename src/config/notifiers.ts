@@ -0,0 +1,43 @@
+// src/config/notifiers.ts
+import { NotifierChannel, NotifierSettings, SmtpSettings } from "../types";
+import { readCredential } from "./credentials";
+
+function loadSmtpSettings(): SmtpSettings | undefined {
+  const host = readCredential("SMTP_HOST");
+  const from = readCredential("SMTP_FROM");
+  const to = readCredential("SMTP_TO");
+  if (!host || !from || !to) {
+    return undefined;
+  }
+
+  const secure = process.env.SMTP_SECURE === "true";
+  const port = parseInt(process.env.SMTP_PORT ?? "", 10);
+
+  return {
+    host,
+    port: !isNaN(port) && port > 0 ? port : secure ? 465 : 587,
+    secure,
+    user: readCredential("SMTP_USER"),
+    pass: readCredential("SMTP_PASS"),
+    from,
+    to: to.split(",").map(address => address.trim()).filter(Boolean),
+  };
+}
+
+export function loadNotifierSettings(): NotifierSettings {
+  return {
+    slackWebhookUrl: readCredential("SLACK_WEBHOOK_URL"),
+    discordWebhookUrl: readCredential("DISCORD_WEBHOOK_URL"),
+    webhookUrl: readCredential("NOTIFY_WEBHOOK_URL"),
+    smtp: loadSmtpSettings(),
+  };
+}
+
+// 채널별로 반드시 필요한 값 (환경변수 또는 자격 증명 제공자)
+export const REQUIRED_CHANNEL_VARS: Record<NotifierChannel, readonly string[]> = {
+  telegram: ["TELEGRAM_BOT_TOKEN", "TELEGRAM_CHAT_ID"],
+  slack: ["SLACK_WEBHOOK_URL"],
+  discord: ["DISCORD_WEBHOOK_URL"],
+  webhook: ["NOTIFY_WEBHOOK_URL"],
+  email: ["SMTP_HOST", "SMTP_FROM", "SMTP_TO"],
+};
@@ -0,0 +1,291 @@
+// src/config/schema.ts
+import {
+  ERROR_CODES,
+  INTERRUPTION_ACTIONS,
+  InterruptionAction,
+  MESSAGE_EVENTS,
+  MESSAGE_LOCALES,
+  MESSAGE_PLACEHOLDERS,
+  NOTIFIER_CHANNELS,
+  STEP_NAMES,
+  TELEGRAM_PARSE_MODES,
+} from "../types";
+import { parseCron } from "../utils/cron";
+
+type Rule = (value: unknown, path: string, errors: string[]) => void;
+
+const LOG_LEVELS = ["error", "warn", "info", "debug"];
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+function enumOf(allowed: readonly string[]): Rule {
+  return (value, path, errors) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      errors.push(
+        `${path}: ${allowed.join(" | ")} 중 하나여야 합니다. (현재: ${JSON.stringify(value)})`
+      );
+    }
+  };
+}
+
+function arrayOf(rule: Rule): Rule {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: 배열이어야 합니다. (현재: ${describe(value)})`);
+      return;
+    }
+    value.forEach((item, index) => rule(item, `${path}[${index}]`, errors));
+  };
+}
+
+const positiveNumber: Rule = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    errors.push(`${path}: 0보다 큰 숫자여야 합니다. (현재: ${JSON.stringify(value)})`);
+  }
+};
+
+const nonNegativeNumber: Rule = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    errors.push(`${path}: 0 이상의 숫자여야 합니다. (현재: ${JSON.stringify(value)})`);
+  }
+};
+
+const nonEmptyString: Rule = (value, path, errors) => {
+  if (typeof value !== "string" || value.length === 0) {
+    errors.push(`${path}: 비어있지 않은 문자열이어야 합니다. (현재: ${describe(value)})`);
+  }
+};
+
+const cronExpression: Rule = (value, path, errors) => {
+  try {
+    parseCron(String(value));
+  } catch (error) {
+    errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const dateString: Rule = (value, path, errors) => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    errors.push(`${path}: YYYY-MM-DD 형식이어야 합니다. (현재: ${JSON.stringify(value)})`);
+  }
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const timeZone: Rule = (value, path, errors) => {
+  if (typeof value !== "string" || !isValidTimeZone(value)) {
+    errors.push(`${path}: 알 수 없는 시간대입니다. (현재: ${JSON.stringify(value)})`);
+  }
+};
+
+// 오타로 자리표시자가 그대로 출력되지 않도록 알 수 없는 {이름}을 오류로 본다.
+const messageTemplate: Rule = (value, path, errors) => {
+  if (typeof value !== "string" || value.length === 0) {
+    errors.push(`${path}: 비어있지 않은 문자열이어야 합니다. (현재: ${describe(value)})`);
+    return;
+  }
+  for (const [, name] of value.matchAll(/\{(\w+)\}/g)) {
+    if (!MESSAGE_PLACEHOLDERS.includes(name as never)) {
+      errors.push(`${path}: 알 수 없는 자리표시자 {${name}} (${MESSAGE_PLACEHOLDERS.join(", ")})`);
+    }
+  }
+};
+
+// 정규식으로 맞추는 대상 (나머지는 CSS 셀렉터)
+const REGEXP_TARGETS = ["popupUrl", "dialogMessage"];
+
+// 대상 종류별로 쓸 수 있는 처리 방법
+const INTERRUPTION_TARGETS: Record<string, readonly InterruptionAction[]> = {
+  popupUrl: ["click", "dismiss", "fail"],
+  popupSelector: ["click", "dismiss", "fail"],
+  dialogMessage: ["accept", "dismiss", "fail"],
+  overlay: ["click", "remove", "fail"],
+};
+
+const isValidRegExp = (value: string): boolean => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const interruptionRule: Rule = (value, path, errors) => {
+  if (!isPlainObject(value)) {
+    errors.push(`${path}: 객체여야 합니다. (현재: ${describe(value)})`);
+    return;
+  }
+  const allowedKeys = ["name", "action", "selector", "code", ...Object.keys(INTERRUPTION_TARGETS)];
+  for (const key of Object.keys(value).filter(key => !allowedKeys.includes(key))) {
+    errors.push(`${path}.${key}: 알 수 없는 설정 키입니다.`);
+  }
+  nonEmptyString(value.name, `${path}.name`, errors);
+  enumOf(INTERRUPTION_ACTIONS)(value.action, `${path}.action`, errors);
+
+  const targets = Object.keys(INTERRUPTION_TARGETS).filter(key => value[key] !== undefined);
+  if (targets.length !== 1) {
+    errors.push(`${path}: ${Object.keys(INTERRUPTION_TARGETS).join(", ")} 중 하나만 지정해야 합니다.`);
+    return;
+  }
+  const [target] = targets;
+  nonEmptyString(value[target], `${path}.${target}`, errors);
+  if (
+    REGEXP_TARGETS.includes(target) &&
+    typeof value[target] === "string" &&
+    !isValidRegExp(value[target])
+  ) {
+    errors.push(`${path}.${target}: 올바른 정규식이 아닙니다. (현재: ${JSON.stringify(value[target])})`);
+  }
+  if (
+    typeof value.action === "string" &&
+    INTERRUPTION_ACTIONS.includes(value.action as never) &&
+    !INTERRUPTION_TARGETS[target].includes(value.action as InterruptionAction)
+  ) {
+    errors.push(
+      `${path}.action: ${target} 규칙은 ${INTERRUPTION_TARGETS[target].join(" | ")} 중 하나여야 합니다.`
+    );
+  }
+  if (value.action === "click") {
+    nonEmptyString(value.selector, `${path}.selector`, errors);
+  }
+  if (value.action === "fail") {
+    enumOf(Object.values(ERROR_CODES))(value.code, `${path}.code`, errors);
+  }
+};
+
+// 기본값의 모양만으로 표현할 수 없는 규칙
+const SPECIAL_RULES: Record<string, Rule> = {
+  "logging.logLevel": enumOf(LOG_LEVELS),
+  "notifications.channels": arrayOf(enumOf(NOTIFIER_CHANNELS)),
+  "notifications.telegramParseMode": enumOf(TELEGRAM_PARSE_MODES),
+  "messages.locale": enumOf(MESSAGE_LOCALES),
+  "messages.timezone": timeZone,
+  "messages.templates": (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${path}: 객체여야 합니다. (현재: ${describe(value)})`);
+      return;
+    }
+    for (const [key, template] of Object.entries(value)) {
+      if (!MESSAGE_EVENTS.includes(key as never)) {
+        errors.push(`${path}.${key}: 알 수 없는 이벤트입니다. (${MESSAGE_EVENTS.join(", ")})`);
+        continue;
+      }
+      messageTemplate(template, `${path}.${key}`, errors);
+    }
+  },
+  interruptions: arrayOf(interruptionRule),
+  "update.minIntervalMinutes": nonNegativeNumber,
+  "schedule.cron": arrayOf(cronExpression),
+  "schedule.jitterMinutes": nonNegativeNumber,
+  "schedule.skipDates": arrayOf(dateString),
+  "retry.steps": (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${path}: 객체여야 합니다. (현재: ${describe(value)})`);
+      return;
+    }
+    for (const [key, retries] of Object.entries(value)) {
+      if (!STEP_NAMES.includes(key as never)) {
+        errors.push(`${path}.${key}: 알 수 없는 단계입니다. (${STEP_NAMES.join(", ")})`);
+        continue;
+      }
+      positiveNumber(retries, `${path}.${key}`, errors);
+    }
+  },
+};
+
+function validateNode(reference: unknown, value: unknown, path: string, errors: string[]): void {
+  const special = SPECIAL_RULES[path];
+  if (special) {
+    special(value, path, errors);
+    return;
+  }
+
+  if (Array.isArray(reference)) {
+    arrayOf(nonEmptyString)(value, path, errors);
+    return;
+  }
+
+  if (isPlainObject(reference)) {
+    if (!isPlainObject(value)) {
+      errors.push(`${path}: 객체여야 합니다. (현재: ${describe(value)})`);
+      return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in reference)) {
+        errors.push(`${childPath}: 알 수 없는 설정 키입니다.`);
+        continue;
+      }
+      validateNode(reference[key], child, childPath, errors);
+    }
+    return;
+  }
+
+  if (typeof reference === "number") {
+    positiveNumber(value, path, errors);
+    return;
+  }
+
+  if (typeof reference === "string") {
+    nonEmptyString(value, path, errors);
+    return;
+  }
+
+  if (typeof value !== typeof reference) {
+    errors.push(`${path}: ${typeof reference} 타입이어야 합니다. (현재: ${describe(value)})`);
+  }
+}
+
+/**
+ * 설정 파일 내용(부분 설정)을 기본 설정의 모양과 비교해 검증한다.
+ * 오류는 "retry.maxDelay: ..." 처럼 정확한 키 경로와 함께 반환한다.
+ */
+export function validateConfigOverlay(
+  reference: object,
+  overlay: unknown,
+  pathPrefix = ""
+): string[] {
+  const errors: string[] = [];
+
+  if (!isPlainObject(overlay)) {
+    errors.push(`${pathPrefix || "(root)"}: 객체여야 합니다. (현재: ${describe(overlay)})`);
+    return errors;
+  }
+
+  // 특수 규칙은 설정 루트 기준 경로로 정의되어 있으므로 접두사는 마지막에 붙인다.
+  validateNode(reference, overlay, "", errors);
+  return pathPrefix ? errors.map(error => `${pathPrefix}.${error}`) : errors;
+}
+
+export function deepMerge<T>(base: T, overlay: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return (overlay === undefined ? base : overlay) as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = result[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      result[key] = deepMerge(current, value);
+    } else {
+      result[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return result as T;
+}
@@ -1,9 +1,10 @@
 // src/index.ts
-import { updateResume } from "./updateResume";
-import { ConfigValidator } from "./utils/validation";
 import { Logger } from "./utils/logger";
-import * as fs from "fs";
-import * as path from "path";
+import { configManager } from "./config";
+import { parseCliArgs } from "./cli/args";
+import { COMMANDS } from "./cli/commands";
+import { getPhrases } from "./notifiers";
+import { EXIT_CODES } from "./types";
 
 // dotenv는 로컬 개발 환경에서만 필요 (CI에서는 환경변수가 직접 주입됨)
 try {
@@ -12,63 +13,38 @@ try {
   // dotenv가 설치되지 않은 환경 (CI 등)에서는 무시
 }
 
-function cleanupOldScreenshots(): void {
-  try {
-    const cwd = process.cwd();
-    const files = fs.readdirSync(cwd);
-    const screenshotFiles = files.filter(f => f.startsWith("error-") && f.endsWith(".png"));
-    let deletedCount = 0;
-
-    for (const file of screenshotFiles) {
-      try {
-        fs.unlinkSync(path.join(cwd, file));
-        deletedCount++;
-      } catch {
-        Logger.warning(`스크린샷 삭제 실패: ${file}`);
-      }
-    }
-
-    if (deletedCount > 0) {
-      Logger.info(`이전 스크린샷 ${deletedCount}개 정리 완료`);
-    }
-  } catch (error) {
-    Logger.warning("스크린샷 정리 중 오류 발생");
-  }
-}
-
 async function main() {
   try {
-    cleanupOldScreenshots();
-
-    // 환경변수 존재 여부 검증
-    const envValidation = ConfigValidator.validateEnvironmentVariables();
-    if (!envValidation.isValid) {
-      Logger.error("환경변수 검증 실패:");
-      envValidation.errors.forEach(error => Logger.error(`  - ${error}`));
-      process.exit(1);
+    const { command, options, errors } = parseCliArgs(process.argv.slice(2));
+    // 설정 파일을 읽기 전이므로 도움말은 MESSAGE_LOCALE 환경변수의 언어로 출력한다.
+    if (errors.length > 0) {
+      errors.forEach(error => Logger.error(error));
+      console.error(getPhrases().usage);
+      process.exit(EXIT_CODES.USAGE);
     }
 
-    // 설정 객체 생성
-    const config = {
-      jobkoreaId: process.env.JOBKOREA_ID!,
-      jobkoreaPwd: process.env.JOBKOREA_PWD!,
-      telegramToken: process.env.TELEGRAM_BOT_TOKEN!,
-      telegramChatId: process.env.TELEGRAM_CHAT_ID!,
-    };
+    if (options.help) {
+      console.log(getPhrases().usage);
+      process.exit(EXIT_CODES.SUCCESS);
+    }
 
-    // 설정 값 형식 검증
-    const configValidation = ConfigValidator.validateConfig(config);
-    if (!configValidation.isValid) {
-      Logger.error("설정 검증 실패. 환경변수를 확인해주세요.");
-      process.exit(1);
+    // 기본값 → 설정 파일 → 프로필 → 환경변수 → CLI 옵션 순으로 설정 로드
+    const configErrors = configManager.load({
+      configFile: options.config,
+      profile: options.profile,
+      logLevel: options.logLevel,
+      dryRun: options.dryRun,
+    });
+    if (configErrors.length > 0) {
+      Logger.error("설정 파일 검증 실패:");
+      configErrors.forEach(error => Logger.error(`  - ${error}`));
+      process.exit(EXIT_CODES.CONFIG_INVALID);
     }
 
-    Logger.info("애플리케이션 시작");
-    await updateResume(config);
-    Logger.success("애플리케이션 정상 종료");
+    process.exit(await COMMANDS[command](options));
   } catch (error) {
     Logger.error("애플리케이션 실행 중 치명적 오류 발생", error as Error);
-    process.exit(1);
+    process.exit(EXIT_CODES.FAILURE);
   }
 }
 
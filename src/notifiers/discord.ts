@@ -0,0 +1,25 @@
+// src/notifiers/discord.ts
+import { postJsonWithRetry } from "./http";
+import { NotificationMessage, Notifier } from "./types";
+
+// Discord content 필드 최대 길이
+const MAX_CONTENT_LENGTH = 2000;
+
+export class DiscordNotifier implements Notifier {
+  readonly channel = "Discord";
+
+  constructor(private readonly webhookUrl: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const content =
+      message.text.length > MAX_CONTENT_LENGTH
+        ? `${message.text.slice(0, MAX_CONTENT_LENGTH - 1)}…`
+        : message.text;
+
+    await postJsonWithRetry(
+      this.webhookUrl,
+      { content, allowed_mentions: { parse: [] } },
+      this.channel
+    );
+  }
+}
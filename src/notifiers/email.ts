@@ -0,0 +1,212 @@
+// src/notifiers/email.ts
+import * as net from "net";
+import * as os from "os";
+import * as tls from "tls";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { SmtpSettings } from "../types";
+import { NonRetryableError, RetryableError, withNotifierRetry } from "./http";
+import { NotificationMessage, Notifier } from "./types";
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * 최소한의 SMTP 클라이언트 세션.
+ * 응답은 "250-..." 로 이어지다가 "250 ..." 줄에서 끝나는 규칙(RFC 5321)으로 구분한다.
+ */
+class SmtpSession {
+  private buffer = "";
+  private error: Error | null = null;
+  private waiters: Array<() => void> = [];
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf-8");
+    this.wake();
+  };
+
+  private readonly onError = (error: Error) => {
+    this.error = error;
+    this.wake();
+  };
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", () => this.onError(new Error("SMTP 연결이 종료되었습니다.")));
+    socket.setTimeout(configManager.getTimeouts().navigation, () => {
+      socket.destroy(new Error("SMTP 응답 시간 초과"));
+    });
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private takeResponse(): SmtpResponse | null {
+    const lines = this.buffer.split("\r\n");
+
+    // 마지막 원소는 아직 끝나지 않은 줄이므로 제외
+    for (let i = 0; i < lines.length - 1; i++) {
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        const responseLines = lines.slice(0, i + 1);
+        this.buffer = lines.slice(i + 1).join("\r\n");
+        return {
+          code: Number(lines[i].slice(0, 3)),
+          lines: responseLines.map(line => line.slice(4)),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  async read(expectedCodes: number[]): Promise<SmtpResponse> {
+    for (;;) {
+      const response = this.takeResponse();
+      if (response) {
+        if (!expectedCodes.includes(response.code)) {
+          const message = `SMTP error: ${response.code} ${response.lines.join(" ")}`;
+          // 4xx는 일시적 오류, 5xx는 영구적 오류 (RFC 5321 4.2.1)
+          throw response.code >= 400 && response.code < 500
+            ? new RetryableError(message)
+            : new NonRetryableError(message);
+        }
+        return response;
+      }
+
+      if (this.error) {
+        throw this.error;
+      }
+
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  async command(line: string, expectedCodes: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return await this.read(expectedCodes);
+  }
+
+  async upgradeToTls(servername: string): Promise<void> {
+    const plainSocket = this.socket;
+    plainSocket.removeAllListeners("data");
+    plainSocket.removeAllListeners("error");
+    plainSocket.removeAllListeners("close");
+    plainSocket.setTimeout(0);
+
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plainSocket, servername });
+      socket.once("secureConnect", () => resolve(socket));
+      socket.once("error", reject);
+    });
+
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(settings: SmtpSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = settings.secure
+      ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host })
+      : net.connect({ host: settings.host, port: settings.port });
+
+    socket.once(settings.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function extractAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return match ? match[1] : address.trim();
+}
+
+function encodeHeader(value: string): string {
+  return `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function buildMimeMessage(settings: SmtpSettings, message: NotificationMessage): string {
+  // base64 본문에는 "."으로 시작하는 줄이 생기지 않아 dot-stuffing이 필요 없다.
+  const encoded = Buffer.from(message.text, "utf-8").toString("base64");
+  const body = (encoded.match(/.{1,76}/g) ?? []).join("\r\n");
+
+  return [
+    `From: ${settings.from}`,
+    `To: ${settings.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export class EmailNotifier implements Notifier {
+  readonly channel = "Email";
+
+  constructor(private readonly settings: SmtpSettings) {}
+
+  private async deliver(message: NotificationMessage): Promise<void> {
+    const { settings } = this;
+    const session = new SmtpSession(await connect(settings));
+
+    try {
+      await session.read([220]);
+      const ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+      // 암호화되지 않은 연결이면 서버가 지원할 때 STARTTLS로 전환
+      let encrypted = settings.secure;
+      if (!encrypted && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.command("STARTTLS", [220]);
+        await session.upgradeToTls(settings.host);
+        await session.command(`EHLO ${os.hostname()}`, [250]);
+        encrypted = true;
+      }
+
+      if (settings.user) {
+        // AUTH PLAIN은 base64일 뿐이므로 암호화되지 않은 연결로는 계정 정보를 보내지 않는다.
+        if (!encrypted) {
+          throw new NonRetryableError(
+            "SMTP 서버가 STARTTLS를 지원하지 않아 암호화되지 않은 연결로는 인증하지 않습니다. " +
+              "SMTP_SECURE=true(보통 465 포트)를 사용하거나 STARTTLS를 지원하는 서버를 설정하세요."
+          );
+        }
+        const credentials = Buffer.from(`\0${settings.user}\0${settings.pass ?? ""}`, "utf-8");
+        await session.command(`AUTH PLAIN ${credentials.toString("base64")}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(settings.from)}>`, [250]);
+      for (const recipient of settings.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+
+      await session.command("DATA", [354]);
+      await session.command(`${buildMimeMessage(settings, message)}\r\n.`, [250]);
+      await session.command("QUIT", [221]).catch(() => undefined);
+      Logger.info("Email 메시지 전송 성공");
+    } finally {
+      session.close();
+    }
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await withNotifierRetry("Email 메시지 전송", () => this.deliver(message));
+  }
+}
@@ -0,0 +1,101 @@
+// src/notifiers/http.ts
+import { withRetry } from "../utils/retry";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableError";
+  }
+}
+
+export class RetryableError extends Error {
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export function parseRetryAfterMs(retryAfterHeader: string | null): number | undefined {
+  if (!retryAfterHeader) return undefined;
+
+  const seconds = Number(retryAfterHeader);
+  if (!Number.isNaN(seconds) && seconds > 0) {
+    return seconds * 1000;
+  }
+
+  const retryAt = Date.parse(retryAfterHeader);
+  if (!Number.isNaN(retryAt)) {
+    const diffMs = retryAt - Date.now();
+    if (diffMs > 0) {
+      return diffMs;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 알림 채널 공통 재시도 래퍼.
+ * NonRetryableError는 즉시 중단하고, RetryableError의 retryAfterMs는 withRetry가 대기 시간으로 사용한다.
+ */
+export async function withNotifierRetry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const retryConfig = configManager.getRetryConfig();
+
+  return await withRetry(fn, {
+    maxRetries: retryConfig.maxOperationRetries,
+    baseDelay: retryConfig.baseDelay,
+    maxDelay: retryConfig.maxDelay,
+    backoffMultiplier: retryConfig.backoffMultiplier,
+    operation,
+    shouldRetry: (error) => !(error instanceof NonRetryableError),
+  });
+}
+
+/**
+ * HTTP 응답을 검사해 실패 시 재시도 여부가 분류된 에러를 던진다.
+ * 429를 제외한 4xx는 설정 오류로 보고 재시도하지 않는다.
+ */
+export async function assertOkResponse(response: Response, channel: string): Promise<void> {
+  if (response.ok) {
+    return;
+  }
+
+  const errorBody = await response.text().catch(() => "Unknown error");
+  const errorMessage = `${channel} API error: ${response.status} ${response.statusText} - ${errorBody}`;
+
+  // 429는 일시적 throttling이므로 재시도 대상이다.
+  if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+    Logger.error(`${channel} API 영구적 오류 (재시도 안함): ${errorMessage}`);
+    throw new NonRetryableError(errorMessage);
+  }
+
+  const retryAfterMs =
+    response.status === 429 ? parseRetryAfterMs(response.headers.get("retry-after")) : undefined;
+  Logger.warning(`${channel} API 임시적 오류 (재시도 예정): ${errorMessage}`);
+  throw new RetryableError(errorMessage, retryAfterMs);
+}
+
+export async function postJsonWithRetry(
+  url: string,
+  payload: unknown,
+  channel: string
+): Promise<Response> {
+  return await withNotifierRetry(`${channel} 메시지 전송`, async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    await assertOkResponse(response, channel);
+    Logger.info(`${channel} 메시지 전송 성공`);
+    return response;
+  });
+}
@@ -0,0 +1,95 @@
+// src/notifiers/index.ts
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { Config } from "../types";
+import { DiscordNotifier } from "./discord";
+import { EmailNotifier } from "./email";
+import { SlackNotifier } from "./slack";
+import { TelegramNotifier } from "./telegram";
+import { NotificationMessage, Notifier } from "./types";
+import { WebhookNotifier } from "./webhook";
+
+export { createNotification, createTextNotification, escapeHtml } from "./types";
+export { formatDateTime, getPhrases, renderMessage } from "./templates";
+export type { TemplateValues } from "./templates";
+export type {
+  MessageBody,
+  NotificationAttachment,
+  NotificationMessage,
+  NotificationSeverity,
+  Notifier,
+} from "./types";
+
+/**
+ * 설정된 채널 목록(notifications.channels)에 따라 Notifier를 만든다.
+ * 접속 정보가 없는 채널은 경고 후 건너뛴다.
+ */
+export function createNotifiers(config: Config): Notifier[] {
+  const settings = config.notifiers ?? {};
+  const notifiers: Notifier[] = [];
+
+  for (const channel of configManager.getNotificationConfig().channels) {
+    switch (channel) {
+      case "telegram":
+        if (config.telegramToken && config.telegramChatId) {
+          notifiers.push(new TelegramNotifier(config.telegramToken, config.telegramChatId));
+          continue;
+        }
+        break;
+      case "slack":
+        if (settings.slackWebhookUrl) {
+          notifiers.push(new SlackNotifier(settings.slackWebhookUrl));
+          continue;
+        }
+        break;
+      case "discord":
+        if (settings.discordWebhookUrl) {
+          notifiers.push(new DiscordNotifier(settings.discordWebhookUrl));
+          continue;
+        }
+        break;
+      case "webhook":
+        if (settings.webhookUrl) {
+          notifiers.push(new WebhookNotifier(settings.webhookUrl));
+          continue;
+        }
+        break;
+      case "email":
+        if (settings.smtp) {
+          notifiers.push(new EmailNotifier(settings.smtp));
+          continue;
+        }
+        break;
+    }
+
+    Logger.warning(`알림 채널 ${channel}의 접속 정보가 없어 건너뜁니다.`);
+  }
+
+  return notifiers;
+}
+
+export interface NotifyResult {
+  channel: string;
+  success: boolean;
+}
+
+/**
+ * 모든 채널로 동시에 전송한다. 한 채널의 실패는 로그만 남기고 다른 채널 전송을 막지 않는다.
+ */
+export async function notifyAll(
+  notifiers: readonly Notifier[],
+  message: NotificationMessage
+): Promise<NotifyResult[]> {
+  const results = await Promise.allSettled(notifiers.map(notifier => notifier.send(message)));
+
+  return results.map((result, index) => {
+    const { channel } = notifiers[index];
+    if (result.status === "rejected") {
+      Logger.warning(`${channel} 알림 전송 실패. ${channel} 설정을 확인해주세요.`, {
+        reason: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+      return { channel, success: false };
+    }
+    return { channel, success: true };
+  });
+}
@@ -0,0 +1,476 @@
+// src/notifiers/locales.ts
+import { ErrorCode, MessageEvent, MessageLocale } from "../types";
+
+// 템플릿 밖에서 코드가 조합하는 문구 (건너뜀 이유, 이력서별 결과 등)
+export interface MessagePhrases {
+  subjects: {
+    success: string;
+    failure: string;
+    skipped: string;
+    retry: string;
+    dryRunOk: string;
+    dryRunFail: string;
+    selectorDrift: string;
+    weeklyDigest: string;
+  };
+  summary: {
+    success: string;
+    failure: string;
+    dryRunOk: string;
+    dryRunFail: string;
+  };
+  dryRun: {
+    ok: string;
+    fail: string;
+  };
+  resume: {
+    success: string;
+    failure: string;
+    skipped: string;
+  };
+  // 실패 알림의 {error}에 오류 메시지 대신 쓰는 설명 (로그인 실패 원인 등)
+  errorReasons: Partial<Record<ErrorCode, string>>;
+  // 실패 알림의 {suggestion} (오류 코드별 조치 안내)
+  suggestions: Partial<Record<ErrorCode, string>>;
+  unknownError: string;
+  unknownStep: string;
+  noSelectors: string;
+  updatedAt(value: string): string;
+  dailyQuota(cap: number): string;
+  recentlyUpdated(minutes: number): string;
+  failureCaption(code: string, step: string, account?: string): string;
+  // 셀렉터 변경 감지 경고
+  selectorDrift: {
+    title: string;
+    fallback(name: string, index: number, selector: string): string;
+    changed(name: string, previous: string, selector: string): string;
+    footer: string;
+  };
+  // 실행 이력 요약 (stats 명령어, 주간 요약 알림)
+  history: {
+    empty: string;
+    allTime: string;
+    lastDays(days: number): string;
+    runs(total: number, outcomes: string): string;
+    outcomes(success: number, failure: number, skipped: number): string;
+    rates(rate: string, duration: string, attempts: string): string;
+    topErrors(errors: string): string;
+    errorCount(code: string, count: number): string;
+    duration(seconds: number): string;
+  };
+  weeklyDigest: {
+    title: string;
+    dateLine(date: string, time: string): string;
+  };
+  // 봇 /status 응답
+  lastRun: {
+    empty: string;
+    title(date: string, time: string, dryRun: boolean): string;
+    details(seconds: number, attempts: number): string;
+  };
+  // 봇 명령어 응답 (값은 호출하는 쪽에서 escape한다)
+  bot: {
+    help: string;
+    commands: Record<"update" | "dryrun" | "snapshot", string>;
+    started(name: string): string;
+    queued(running: string, name: string): string;
+    failed(name: string, reason: string): string;
+    running(name: string): string;
+    siteUnreachable: string;
+    snapshotCaption(account: string): string;
+    snapshotFailed(account: string): string;
+  };
+  // check-config 테스트 알림
+  checkConfig: {
+    subject: string;
+    body(accounts: string): string;
+  };
+  // 명령어 도움말 (--help, 잘못된 명령어)
+  usage: string;
+}
+
+export interface LocaleMessages {
+  // 날짜/시간 표시 형식 (toLocaleDateString)
+  dateLocale: string;
+  templates: Record<MessageEvent, string>;
+  phrases: MessagePhrases;
+}
+
+const ko: LocaleMessages = {
+  dateLocale: "ko-KR",
+  templates: {
+    success: [
+      "✅ 이력서 업데이트 완료!",
+      "계정: {account}",
+      "날짜: {date} 시간: {time}",
+      "최종수정일: {resumeUpdatedAt}",
+      "{resumes}",
+      "재시도 횟수: {retryCount}번",
+    ].join("\n"),
+    failure: [
+      "❌ 이력서 업데이트 최종 실패!",
+      "계정: {account}",
+      "이유: {error}",
+      "재시도 횟수: {retryCount}번 (모든 재시도 실패)",
+      "조치: {suggestion}",
+      "기록: {recordings}",
+      "{resumes}",
+    ].join("\n"),
+    retry: [
+      "🔁 이력서 업데이트 재시도 예정 ({attempt}/{maxAttempts})",
+      "계정: {account}",
+      "이유: {error}",
+    ].join("\n"),
+    skipped: [
+      "⏭️ 이력서 업데이트 건너뜀 ({reason})",
+      "계정: {account}",
+      "날짜: {date} 시간: {time}",
+      "최종수정일: {resumeUpdatedAt}",
+      "{resumes}",
+    ].join("\n"),
+    dryRun: [
+      "🧪 드라이런 {status}",
+      "계정: {account}",
+      "날짜: {date} 시간: {time}",
+      "이유: {error}",
+      "",
+      "{selectors}",
+    ].join("\n"),
+    summary: ["{status} ({successCount}/{total})", "날짜: {date} 시간: {time}"].join("\n"),
+  },
+  phrases: {
+    subjects: {
+      success: "이력서 업데이트 완료",
+      failure: "이력서 업데이트 실패",
+      skipped: "이력서 업데이트 건너뜀",
+      retry: "이력서 업데이트 재시도",
+      dryRunOk: "드라이런 OK",
+      dryRunFail: "드라이런 FAIL",
+      selectorDrift: "셀렉터 변경 감지",
+      weeklyDigest: "이력서 업데이트 주간 요약",
+    },
+    summary: {
+      success: "✅ 이력서 업데이트 완료!",
+      failure: "❌ 이력서 업데이트 일부 실패",
+      dryRunOk: "🧪 드라이런 OK",
+      dryRunFail: "🧪 드라이런 FAIL",
+    },
+    dryRun: {
+      ok: "OK (업데이트 버튼은 클릭하지 않았습니다)",
+      fail: "FAIL",
+    },
+    resume: {
+      success: "성공",
+      failure: "실패",
+      skipped: "건너뜀",
+    },
+    errorReasons: {
+      CREDENTIALS_REJECTED: "로그인 실패: 아이디 또는 비밀번호가 맞지 않습니다.",
+      CAPTCHA_REQUIRED: "로그인 실패: 보안 문자(CAPTCHA) 입력을 요구합니다.",
+      ACCOUNT_LOCKED: "로그인 실패: 계정이 잠겼습니다.",
+      ACCOUNT_DORMANT: "로그인 실패: 휴면 계정입니다.",
+      VERIFICATION_REQUIRED: "로그인 실패: 추가 본인 인증을 요구합니다.",
+    },
+    suggestions: {
+      NETWORK_ERROR: "네트워크 상태를 확인해주세요. 다음 실행에서 다시 시도합니다.",
+      NAVIGATION_ERROR: "probe 명령어로 JobKorea 접속 상태를 확인해주세요.",
+      CREDENTIALS_REJECTED:
+        "아이디/비밀번호를 확인해주세요. 계정 잠금을 막기 위해 재시도하지 않았습니다.",
+      CAPTCHA_REQUIRED: "브라우저에서 직접 로그인해 보안 문자를 통과한 뒤 다시 실행해주세요.",
+      ACCOUNT_LOCKED: "JobKorea에서 계정 잠금을 해제한 뒤 다시 실행해주세요.",
+      ACCOUNT_DORMANT: "JobKorea에서 휴면 상태를 해제한 뒤 다시 실행해주세요.",
+      VERIFICATION_REQUIRED: "브라우저에서 직접 로그인해 본인 인증을 마친 뒤 다시 실행해주세요.",
+      SELECTOR_DRIFT:
+        "화면 구성이 바뀐 것 같습니다. snapshot 명령어로 화면을 확인하고 셀렉터 설정을 점검해주세요.",
+      SITE_MAINTENANCE: "JobKorea 점검이 끝난 뒤 다시 실행해주세요.",
+      CONFIG_ERROR: "RESUME_IDS 등 설정을 실제 화면과 비교해 고친 뒤 다시 실행해주세요.",
+    },
+    unknownError: "알 수 없는 오류",
+    unknownStep: "알 수 없음",
+    noSelectors: "• 매칭된 셀렉터 없음",
+    updatedAt: value => `최종수정일 ${value}`,
+    dailyQuota: cap => `오늘 시도 한도 ${cap}회 도달`,
+    recentlyUpdated: minutes => `최근 ${minutes}분 안에 업데이트됨`,
+    failureCaption: (code, step, account) =>
+      `❌ 실패${account ? ` [${account}]` : ""}\n코드: ${code} · 단계: ${step}`,
+    selectorDrift: {
+      title: "⚠️ 셀렉터 변경 감지",
+      fallback: (name, index, selector) => `${name}: fallback ${index} 사용 (${selector})`,
+      changed: (name, previous, selector) =>
+        `${name}: 이전 실행과 다른 셀렉터 (${previous} → ${selector})`,
+      footer: "기본 셀렉터(defaultConfig.selectors)를 점검해주세요.",
+    },
+    history: {
+      empty: "실행 기록 없음",
+      allTime: "전체",
+      lastDays: days => `최근 ${days}일`,
+      runs: (total, outcomes) => `실행 ${total}회: ${outcomes}`,
+      outcomes: (success, failure, skipped) =>
+        `성공 ${success} / 실패 ${failure} / 건너뜀 ${skipped}`,
+      rates: (rate, duration, attempts) =>
+        `성공률 ${rate}% · 평균 소요 시간 ${duration} · 평균 시도 ${attempts}회`,
+      topErrors: errors => `주요 실패: ${errors}`,
+      errorCount: (code, count) => `${code} ${count}회`,
+      duration: seconds =>
+        seconds >= 60 ? `${Math.floor(seconds / 60)}분 ${seconds % 60}초` : `${seconds}초`,
+    },
+    weeklyDigest: {
+      title: "📊 이력서 업데이트 주간 요약 (최근 7일)",
+      dateLine: (date, time) => `날짜: ${date} 시간: ${time}`,
+    },
+    lastRun: {
+      empty: "실행 기록이 없습니다.",
+      title: (date, time, dryRun) => `📋 마지막 실행${dryRun ? " (드라이런)" : ""}: ${date} ${time}`,
+      details: (seconds, attempts) => `${seconds}초, 시도 ${attempts}번`,
+    },
+    bot: {
+      help: [
+        "사용 가능한 명령어:",
+        "/update - 이력서 업데이트 실행",
+        "/status - 마지막 실행 결과",
+        "/dryrun - 업데이트 버튼 확인까지만 실행 (클릭하지 않음)",
+        "/snapshot - 마이페이지 스크린샷",
+      ].join("\n"),
+      commands: {
+        update: "이력서 업데이트",
+        dryrun: "드라이런",
+        snapshot: "마이페이지 스냅샷",
+      },
+      started: name => `⏳ ${name}을(를) 시작합니다.`,
+      queued: (running, name) => `⏳ ${running} 작업이 끝난 뒤 ${name}을(를) 시작합니다.`,
+      failed: (name, reason) => `❌ ${name} 실패: ${reason}`,
+      running: name => `⏳ 실행 중: ${name}`,
+      siteUnreachable: "❌ JobKorea에 접속할 수 없어 업데이트를 시작하지 않았습니다.",
+      snapshotCaption: account => `📸 ${account} 마이페이지`,
+      snapshotFailed: account => `❌ ${account} 스냅샷 실패`,
+    },
+    checkConfig: {
+      subject: "JobKorea 업데이터 설정 확인",
+      body: accounts => `🔔 설정 확인용 테스트 알림입니다.\n계정: ${accounts}`,
+    },
+    usage: `사용법: jobkorea-updater [명령어] [옵션]
+
+명령어:
+  run                 이력서 업데이트 실행 (기본값)
+  daemon              종료할 때까지 schedule.cron 일정(KST)에 맞춰 반복 실행
+  bot                 Telegram 봇 명령어(/update, /status, /dryrun, /snapshot) 처리
+  check-config        설정 검증 후 설정된 모든 채널로 테스트 알림 전송
+  probe               JobKorea 접속 가능 여부 점검 (DNS/TCP/TLS/HTTP)
+  login-only          로그인만 수행해 계정 정보 확인 (업데이트하지 않음)
+  snapshot            로그인 후 마이페이지 스크린샷과 HTML 저장
+  list-resumes        로그인 후 이력서 목록(ID, 제목, 최종수정일) 출력
+  cleanup-artifacts   아티팩트 폴더와 현재 디렉터리의 error-*, snapshot-* 파일 삭제
+  encrypt-secrets     표준 입력의 JSON 비밀 값을 SECRETS_VAULT_PASSPHRASE로 암호화해 저장
+  print-config        실제 적용되는 설정을 민감 정보를 가려 출력
+  stats               실행 이력의 성공률, 평균 소요 시간, 주요 실패 코드 출력
+
+옵션:
+  --account <label>   지정한 label의 계정만 사용
+  --config <path>     설정 파일 경로 (CONFIG_FILE 대신)
+  --profile <name>    설정 파일 프로필 (CONFIG_PROFILE 대신)
+  --log-level <level> error | warn | info | debug (LOG_LEVEL 대신)
+  --days <n>          stats: 최근 n일만 집계 (기본값: 전체와 최근 7일)
+  --dry-run           run, daemon: 업데이트 버튼 확인까지만 하고 클릭하지 않음 (DRY_RUN=true)
+  -h, --help          도움말 출력
+
+종료 코드:
+  0  성공 (daemon, bot은 SIGINT/SIGTERM으로 정상 종료)
+  1  작업 실패 (업데이트, 로그인, 스냅샷, 이력서 목록 조회 실패)
+  2  잘못된 명령어 또는 옵션
+  3  JobKorea 접속 불가 (probe, run)
+  4  설정/환경변수/계정/실행 일정 검증 실패
+  5  테스트 알림 전송 실패 (check-config)`,
+  },
+};
+
+const en: LocaleMessages = {
+  dateLocale: "en-US",
+  templates: {
+    success: [
+      "✅ Resume updated!",
+      "Account: {account}",
+      "Date: {date} Time: {time}",
+      "Last updated: {resumeUpdatedAt}",
+      "{resumes}",
+      "Retries: {retryCount}",
+    ].join("\n"),
+    failure: [
+      "❌ Resume update failed!",
+      "Account: {account}",
+      "Reason: {error}",
+      "Retries: {retryCount} (all retries failed)",
+      "Action: {suggestion}",
+      "Recordings: {recordings}",
+      "{resumes}",
+    ].join("\n"),
+    retry: [
+      "🔁 Retrying resume update ({attempt}/{maxAttempts})",
+      "Account: {account}",
+      "Reason: {error}",
+    ].join("\n"),
+    skipped: [
+      "⏭️ Resume update skipped ({reason})",
+      "Account: {account}",
+      "Date: {date} Time: {time}",
+      "Last updated: {resumeUpdatedAt}",
+      "{resumes}",
+    ].join("\n"),
+    dryRun: [
+      "🧪 Dry run {status}",
+      "Account: {account}",
+      "Date: {date} Time: {time}",
+      "Reason: {error}",
+      "",
+      "{selectors}",
+    ].join("\n"),
+    summary: ["{status} ({successCount}/{total})", "Date: {date} Time: {time}"].join("\n"),
+  },
+  phrases: {
+    subjects: {
+      success: "Resume updated",
+      failure: "Resume update failed",
+      skipped: "Resume update skipped",
+      retry: "Retrying resume update",
+      dryRunOk: "Dry run OK",
+      dryRunFail: "Dry run FAIL",
+      selectorDrift: "Selector change detected",
+      weeklyDigest: "Weekly resume update summary",
+    },
+    summary: {
+      success: "✅ Resumes updated!",
+      failure: "❌ Some resume updates failed",
+      dryRunOk: "🧪 Dry run OK",
+      dryRunFail: "🧪 Dry run FAIL",
+    },
+    dryRun: {
+      ok: "OK (the update button was not clicked)",
+      fail: "FAIL",
+    },
+    resume: {
+      success: "updated",
+      failure: "failed",
+      skipped: "skipped",
+    },
+    errorReasons: {
+      CREDENTIALS_REJECTED: "Login failed: the ID or password is incorrect.",
+      CAPTCHA_REQUIRED: "Login failed: JobKorea is asking for a CAPTCHA.",
+      ACCOUNT_LOCKED: "Login failed: the account is locked.",
+      ACCOUNT_DORMANT: "Login failed: the account is dormant.",
+      VERIFICATION_REQUIRED: "Login failed: JobKorea is asking for identity verification.",
+    },
+    suggestions: {
+      NETWORK_ERROR: "Check the network. The next scheduled run will try again.",
+      NAVIGATION_ERROR: "Check that JobKorea is reachable with the probe command.",
+      CREDENTIALS_REJECTED:
+        "Check the ID and password. Not retried to avoid locking the account.",
+      CAPTCHA_REQUIRED: "Log in once in a browser to pass the CAPTCHA, then run again.",
+      ACCOUNT_LOCKED: "Unlock the account on JobKorea, then run again.",
+      ACCOUNT_DORMANT: "Reactivate the dormant account on JobKorea, then run again.",
+      VERIFICATION_REQUIRED:
+        "Log in once in a browser to complete identity verification, then run again.",
+      SELECTOR_DRIFT:
+        "The page layout may have changed. " +
+        "Check it with the snapshot command and update the selectors.",
+      SITE_MAINTENANCE: "Run again after JobKorea maintenance ends.",
+      CONFIG_ERROR: "Fix the settings (RESUME_IDS, etc.) to match the page, then run again.",
+    },
+    unknownError: "Unknown error",
+    unknownStep: "unknown",
+    noSelectors: "• No selectors matched",
+    updatedAt: value => `last updated ${value}`,
+    dailyQuota: cap => `daily limit of ${cap} attempts reached`,
+    recentlyUpdated: minutes => `updated within the last ${minutes} minutes`,
+    failureCaption: (code, step, account) =>
+      `❌ Failed${account ? ` [${account}]` : ""}\nCode: ${code} · Step: ${step}`,
+    selectorDrift: {
+      title: "⚠️ Selector change detected",
+      fallback: (name, index, selector) => `${name}: used fallback ${index} (${selector})`,
+      changed: (name, previous, selector) =>
+        `${name}: selector differs from the previous run (${previous} → ${selector})`,
+      footer: "Check the default selectors (defaultConfig.selectors).",
+    },
+    history: {
+      empty: "No runs recorded",
+      allTime: "All time",
+      lastDays: days => `Last ${days} days`,
+      runs: (total, outcomes) => `${total} runs: ${outcomes}`,
+      outcomes: (success, failure, skipped) =>
+        `success ${success} / failure ${failure} / skipped ${skipped}`,
+      rates: (rate, duration, attempts) =>
+        `success rate ${rate}% · average duration ${duration} · average attempts ${attempts}`,
+      topErrors: errors => `Top failures: ${errors}`,
+      errorCount: (code, count) => `${code} ×${count}`,
+      duration: seconds =>
+        seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`,
+    },
+    weeklyDigest: {
+      title: "📊 Weekly resume update summary (last 7 days)",
+      dateLine: (date, time) => `Date: ${date} Time: ${time}`,
+    },
+    lastRun: {
+      empty: "No runs recorded.",
+      title: (date, time, dryRun) => `📋 Last run${dryRun ? " (dry run)" : ""}: ${date} ${time}`,
+      details: (seconds, attempts) => `${seconds}s, ${attempts} attempt(s)`,
+    },
+    bot: {
+      help: [
+        "Available commands:",
+        "/update - run the resume update",
+        "/status - last run result",
+        "/dryrun - run until the update button is found (without clicking it)",
+        "/snapshot - mypage screenshot",
+      ].join("\n"),
+      commands: {
+        update: "resume update",
+        dryrun: "dry run",
+        snapshot: "mypage snapshot",
+      },
+      started: name => `⏳ Starting ${name}.`,
+      queued: (running, name) => `⏳ Starting ${name} after ${running} finishes.`,
+      failed: (name, reason) => `❌ ${name} failed: ${reason}`,
+      running: name => `⏳ Running: ${name}`,
+      siteUnreachable: "❌ JobKorea is unreachable, so the update was not started.",
+      snapshotCaption: account => `📸 ${account} mypage`,
+      snapshotFailed: account => `❌ ${account} snapshot failed`,
+    },
+    checkConfig: {
+      subject: "JobKorea updater settings check",
+      body: accounts =>
+        `🔔 This is a test notification to check the settings.\nAccounts: ${accounts}`,
+    },
+    usage: `Usage: jobkorea-updater [command] [options]
+
+Commands:
+  run                 Run the resume update (default)
+  daemon              Run repeatedly on the schedule.cron schedule (KST) until stopped
+  bot                 Handle Telegram bot commands (/update, /status, /dryrun, /snapshot)
+  check-config        Validate the settings and send a test notification to every channel
+  probe               Check whether JobKorea is reachable (DNS/TCP/TLS/HTTP)
+  login-only          Log in only to check the account (no update)
+  snapshot            Log in and save a mypage screenshot and HTML
+  list-resumes        Log in and print the resume list (ID, title, last modified)
+  cleanup-artifacts   Delete the artifact folder and error-*, snapshot-* files in this directory
+  encrypt-secrets     Encrypt JSON secrets from stdin with SECRETS_VAULT_PASSPHRASE and save them
+  print-config        Print the effective settings with sensitive values masked
+  stats               Print the success rate, average duration and top failure codes
+
+Options:
+  --account <label>   Use only the account with this label
+  --config <path>     Config file path (instead of CONFIG_FILE)
+  --profile <name>    Config file profile (instead of CONFIG_PROFILE)
+  --log-level <level> error | warn | info | debug (instead of LOG_LEVEL)
+  --days <n>          stats: only the last n days (default: all time and the last 7 days)
+  --dry-run           run, daemon: stop before clicking the update button (DRY_RUN=true)
+  -h, --help          Print this help
+
+Exit codes:
+  0  Success (daemon and bot exit normally on SIGINT/SIGTERM)
+  1  Task failed (update, login, snapshot or resume list failed)
+  2  Invalid command or option
+  3  JobKorea unreachable (probe, run)
+  4  Settings, environment, account or schedule validation failed
+  5  Test notification failed (check-config)`,
+  },
+};
+
+export const LOCALES: Record<MessageLocale, LocaleMessages> = { ko, en };
@@ -0,0 +1,16 @@
+// src/notifiers/slack.ts
+import { postJsonWithRetry } from "./http";
+import { NotificationMessage, Notifier } from "./types";
+
+// Slack incoming webhook: https://api.slack.com/messaging/webhooks
+export class SlackNotifier implements Notifier {
+  readonly channel = "Slack";
+
+  constructor(private readonly webhookUrl: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    // mrkdwn 제어문자(&, <, >)는 Slack 규칙대로 escape
+    const text = message.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    await postJsonWithRetry(this.webhookUrl, { text }, this.channel);
+  }
+}
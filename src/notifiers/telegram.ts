@@ -0,0 +1,68 @@
+// src/notifiers/telegram.ts
+import { stat } from "fs/promises";
+import { configManager } from "../config";
+import { sendTelegramFile, sendTelegramMessage } from "../notify";
+import { Logger } from "../utils/logger";
+import { NotificationAttachment, NotificationMessage, Notifier } from "./types";
+
+export class TelegramNotifier implements Notifier {
+  readonly channel = "Telegram";
+
+  constructor(
+    private readonly token: string,
+    private readonly chatId: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const { telegramParseMode, telegramAttachments } = configManager.getNotificationConfig();
+    const body = telegramParseMode === "MarkdownV2" ? message.markdown : message.html;
+    await sendTelegramMessage(this.token, this.chatId, body, telegramParseMode);
+
+    if (telegramAttachments) {
+      for (const attachment of message.attachments ?? []) {
+        await this.sendAttachment(attachment);
+      }
+    }
+  }
+
+  // 본문은 이미 전송했으므로 첨부 실패는 경고만 남긴다.
+  private async sendAttachment(attachment: NotificationAttachment): Promise<void> {
+    const { telegramAttachmentMaxBytes } = configManager.getNotificationConfig();
+    try {
+      const { size } = await stat(attachment.path);
+      if (size > telegramAttachmentMaxBytes) {
+        Logger.warning("첨부 파일이 너무 커서 전송하지 않습니다.", {
+          path: attachment.path,
+          size,
+          maxBytes: telegramAttachmentMaxBytes,
+        });
+        return;
+      }
+
+      if (attachment.kind === "photo") {
+        await sendTelegramFile(
+          this.token,
+          this.chatId,
+          "sendPhoto",
+          "photo",
+          attachment.path,
+          attachment.caption
+        );
+      } else {
+        await sendTelegramFile(
+          this.token,
+          this.chatId,
+          "sendDocument",
+          "document",
+          attachment.path,
+          attachment.caption
+        );
+      }
+    } catch (error) {
+      Logger.warning("Telegram 첨부 파일 전송 실패", {
+        path: attachment.path,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// src/notifiers/templates.ts
+import { configManager } from "../config";
+import { MessageEvent, MessagePlaceholder } from "../types";
+import { LOCALES, MessagePhrases } from "./locales";
+
+export type TemplateValues = Partial<Record<MessagePlaceholder, string | number>>;
+
+/**
+ * {이름} 자리표시자를 값으로 바꾼다.
+ * 값이 없는 자리표시자가 있는 줄은 통째로 생략해 선택 항목(재시도 횟수 등)을 표현한다.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const valueOf = (name: string): string | undefined => {
+    const value = values[name as MessagePlaceholder];
+    return value === undefined || value === "" ? undefined : String(value);
+  };
+
+  return template
+    .split("\n")
+    .filter(line => [...line.matchAll(/\{(\w+)\}/g)].every(([, name]) => valueOf(name)))
+    .map(line => line.replace(/\{(\w+)\}/g, (_, name: string) => valueOf(name) ?? ""))
+    .join("\n");
+}
+
+// 설정한 템플릿이 있으면 그것을, 없으면 언어별 기본 템플릿을 쓴다.
+export function renderMessage(event: MessageEvent, values: TemplateValues): string {
+  const { locale, templates } = configManager.getMessageConfig();
+  return renderTemplate(templates[event] ?? LOCALES[locale].templates[event], values);
+}
+
+export function getPhrases(): MessagePhrases {
+  return LOCALES[configManager.getMessageConfig().locale].phrases;
+}
+
+// 설정한 시간대와 언어로 {date}, {time} 값을 만든다.
+export function formatDateTime(now: Date): { date: string; time: string } {
+  const { locale, timezone } = configManager.getMessageConfig();
+  const { dateLocale } = LOCALES[locale];
+  return {
+    date: now.toLocaleDateString(dateLocale, { timeZone: timezone }),
+    time: now.toLocaleTimeString(dateLocale, { timeZone: timezone }),
+  };
+}
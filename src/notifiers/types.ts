@@ -0,0 +1,94 @@
+// src/notifiers/types.ts
+export type NotificationSeverity = "success" | "failure" | "warning" | "info";
+
+// 실패 시 저장한 스크린샷/HTML (첨부를 지원하는 채널만 전송)
+export interface NotificationAttachment {
+  readonly kind: "photo" | "document";
+  readonly path: string;
+  // Telegram HTML parse_mode 기준 설명
+  readonly caption: string;
+}
+
+export interface NotificationMessage {
+  readonly severity: NotificationSeverity;
+  readonly subject: string;
+  // Telegram HTML parse_mode 기준 본문
+  readonly html: string;
+  // Telegram MarkdownV2 parse_mode 기준 본문
+  readonly markdown: string;
+  // 태그를 제거한 일반 텍스트 본문 (Slack, Discord, 이메일 등)
+  readonly text: string;
+  readonly attachments?: readonly NotificationAttachment[];
+}
+
+export interface Notifier {
+  readonly channel: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// https://core.telegram.org/bots/api#markdownv2-style
+export function escapeMarkdownV2(text: string): string {
+  return text.replace(/[\\_*[\]()~`>#+\-=|{}.!]/g, "\\$&");
+}
+
+// 템플릿으로 만든 일반 텍스트 본문. quote면 인용 블록으로 표시한다.
+export interface MessageBody {
+  readonly text: string;
+  readonly quote?: boolean;
+}
+
+export function toHtml(body: MessageBody): string {
+  const html = escapeHtml(body.text);
+  return body.quote ? `<blockquote>${html}</blockquote>` : html;
+}
+
+export function toMarkdownV2(body: MessageBody): string {
+  return body.text
+    .split("\n")
+    .map(line => (body.quote ? `>${escapeMarkdownV2(line)}` : escapeMarkdownV2(line)))
+    .join("\n");
+}
+
+export function toPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+export function createNotification(
+  severity: NotificationSeverity,
+  subject: string,
+  html: string,
+  attachments?: readonly NotificationAttachment[]
+): NotificationMessage {
+  const text = toPlainText(html);
+  return { severity, subject, html, markdown: toMarkdownV2({ text }), text, attachments };
+}
+
+/**
+ * 일반 텍스트 본문을 채널별 형식(HTML, MarkdownV2, 일반 텍스트)으로 escape해 알림을 만든다.
+ * 오류 메시지 등 본문에 어떤 문자가 들어가도 형식이 깨지지 않는다.
+ */
+export function createTextNotification(
+  severity: NotificationSeverity,
+  subject: string,
+  body: MessageBody,
+  attachments?: readonly NotificationAttachment[]
+): NotificationMessage {
+  return {
+    severity,
+    subject,
+    html: toHtml(body),
+    markdown: toMarkdownV2(body),
+    text: body.text,
+    attachments,
+  };
+}
@@ -0,0 +1,24 @@
+// src/notifiers/webhook.ts
+import { postJsonWithRetry } from "./http";
+import { NotificationMessage, Notifier } from "./types";
+
+// 임의의 수신 서버로 알림을 JSON 그대로 전달하는 범용 webhook
+export class WebhookNotifier implements Notifier {
+  readonly channel = "Webhook";
+
+  constructor(private readonly url: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await postJsonWithRetry(
+      this.url,
+      {
+        severity: message.severity,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        timestamp: new Date().toISOString(),
+      },
+      this.channel
+    );
+  }
+}
@@ -1,42 +1,12 @@
 // src/notify.ts
-import { withRetry } from "./utils/retry";
+import { readFile } from "fs/promises";
+import * as path from "path";
 import { configManager } from "./config";
+import { assertOkResponse, postJsonWithRetry, withNotifierRetry } from "./notifiers/http";
 import { Logger } from "./utils/logger";
 
-class NonRetryableError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "NonRetryableError";
-  }
-}
-
-class RetryableError extends Error {
-  retryAfterMs?: number;
-
-  constructor(message: string, retryAfterMs?: number) {
-    super(message);
-    this.name = "RetryableError";
-    this.retryAfterMs = retryAfterMs;
-  }
-}
-
-function parseRetryAfterMs(retryAfterHeader: string | null): number | undefined {
-  if (!retryAfterHeader) return undefined;
-
-  const seconds = Number(retryAfterHeader);
-  if (!Number.isNaN(seconds) && seconds > 0) {
-    return seconds * 1000;
-  }
-
-  const retryAt = Date.parse(retryAfterHeader);
-  if (!Number.isNaN(retryAt)) {
-    const diffMs = retryAt - Date.now();
-    if (diffMs > 0) {
-      return diffMs;
-    }
-  }
-
-  return undefined;
+function telegramApiUrl(token: string, method: string): string {
+  return `${configManager.getNotificationConfig().telegramApiBaseUrl}/bot${token}/${method}`;
 }
 
 export async function sendTelegramMessage(
@@ -45,52 +15,73 @@ export async function sendTelegramMessage(
   message: string,
   parseMode: string = "HTML"
 ) {
-  const retryConfig = configManager.getRetryConfig();
+  const response = await postJsonWithRetry(
+    telegramApiUrl(token, "sendMessage"),
+    {
+      chat_id: chatId,
+      text: message,
+      parse_mode: parseMode,
+    },
+    "Telegram"
+  );
 
-  return await withRetry(
-    async () => {
-      const response = await fetch(
-        `https://api.telegram.org/bot${token}/sendMessage`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            chat_id: chatId,
-            text: message,
-            parse_mode: parseMode,
-          }),
-        }
-      );
+  return await response.json();
+}
 
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => "Unknown error");
-        const errorMessage = `Telegram API error: ${response.status} ${response.statusText} - ${errorBody}`;
+/**
+ * 파일을 multipart/form-data로 업로드한다. (sendPhoto, sendDocument)
+ */
+export async function sendTelegramFile(
+  token: string,
+  chatId: string,
+  method: "sendPhoto" | "sendDocument",
+  field: "photo" | "document",
+  filePath: string,
+  caption: string
+) {
+  const content = await readFile(filePath);
 
-        // Telegram 429는 일시적 throttling이므로 재시도 대상이다.
-        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-          Logger.error(`Telegram API 영구적 오류 (재시도 안함): ${errorMessage}`);
-          throw new NonRetryableError(errorMessage);
-        }
+  return await withNotifierRetry(`Telegram ${method}`, async () => {
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    form.append("caption", caption);
+    form.append("parse_mode", "HTML");
+    form.append(field, new Blob([content]), path.basename(filePath));
 
-        const retryAfterMs =
-          response.status === 429 ? parseRetryAfterMs(response.headers.get("retry-after")) : undefined;
-        Logger.warning(`Telegram API 임시적 오류 (재시도 예정): ${errorMessage}`);
-        throw new RetryableError(errorMessage, retryAfterMs);
-      }
+    const response = await fetch(telegramApiUrl(token, method), { method: "POST", body: form });
+    await assertOkResponse(response, "Telegram");
+    Logger.info(`Telegram ${method} 전송 성공`);
+    return await response.json();
+  });
+}
 
-      const result = await response.json();
-      Logger.info("Telegram 메시지 전송 성공");
-      return result;
-    },
-    {
-      maxRetries: retryConfig.maxOperationRetries,
-      baseDelay: retryConfig.baseDelay,
-      maxDelay: retryConfig.maxDelay,
-      backoffMultiplier: retryConfig.backoffMultiplier,
-      operation: "Telegram 메시지 전송",
-      shouldRetry: (error) => !(error instanceof NonRetryableError),
-    }
-  );
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    date: number;
+    chat: { id: number | string };
+    text?: string;
+  };
+}
+
+/**
+ * getUpdates 롱 폴링. timeoutSeconds 동안 새 메시지를 기다린다.
+ */
+export async function getTelegramUpdates(
+  token: string,
+  offset: number,
+  timeoutSeconds: number,
+  signal?: AbortSignal
+): Promise<TelegramUpdate[]> {
+  const response = await fetch(telegramApiUrl(token, "getUpdates"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ offset, timeout: timeoutSeconds, allowed_updates: ["message"] }),
+    signal,
+  });
+  await assertOkResponse(response, "Telegram");
+
+  const body = (await response.json()) as { ok: boolean; result?: TelegramUpdate[] };
+  return body.result ?? [];
 }
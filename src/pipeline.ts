@@ -0,0 +1,73 @@
+// src/pipeline.ts
+import { Logger } from "./utils/logger";
+import { StepName } from "./types";
+
+/**
+ * 파이프라인의 한 단계.
+ * requires는 실행 전에 성립해야 하는 상태, provides는 성공 후 성립하는 상태다.
+ */
+export interface PipelineStep<TContext, TCondition extends string> {
+  readonly name: StepName;
+  readonly requires: readonly TCondition[];
+  readonly provides?: TCondition;
+  readonly maxRetries: number;
+  run(context: TContext, options: { maxRetries: number }): Promise<void>;
+}
+
+// 각 상태가 현재 성립하는지 확인하는 함수
+export type ConditionChecks<TContext, TCondition extends string> = Record<
+  TCondition,
+  (context: TContext) => Promise<boolean> | boolean
+>;
+
+export interface PipelineOptions {
+  // 단계 실행을 감싸는 훅 (실행 리포트 기록 등)
+  wrapStep?: <T>(name: StepName, fn: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * 이미 성립한 상태를 뒤에서부터 찾아 그 다음 단계부터 시작한다.
+ * 예: 브라우저 재시작 후 세션 복원으로 "마이페이지 도착"이 성립하면 업데이트 단계부터 실행한다.
+ */
+async function findStartIndex<TContext, TCondition extends string>(
+  steps: readonly PipelineStep<TContext, TCondition>[],
+  checks: ConditionChecks<TContext, TCondition>,
+  context: TContext
+): Promise<number> {
+  for (let index = steps.length - 1; index >= 0; index--) {
+    const { provides } = steps[index];
+    if (provides && (await checks[provides](context))) {
+      return index + 1;
+    }
+  }
+  return 0;
+}
+
+export async function runPipeline<TContext, TCondition extends string>(
+  steps: readonly PipelineStep<TContext, TCondition>[],
+  checks: ConditionChecks<TContext, TCondition>,
+  context: TContext,
+  options: PipelineOptions = {}
+): Promise<void> {
+  const wrapStep = options.wrapStep ?? (<T>(_name: StepName, fn: () => Promise<T>) => fn());
+  const startIndex = await findStartIndex(steps, checks, context);
+
+  if (startIndex > 0) {
+    Logger.info(
+      `이미 완료된 단계를 건너뜁니다: ${steps
+        .slice(0, startIndex)
+        .map(step => step.name)
+        .join(", ")}`
+    );
+  }
+
+  for (const step of steps.slice(startIndex)) {
+    for (const condition of step.requires) {
+      if (!(await checks[condition](context))) {
+        throw new Error(`${step.name} 단계의 전제조건이 충족되지 않았습니다: ${condition}`);
+      }
+    }
+
+    await wrapStep(step.name, () => step.run(context, { maxRetries: step.maxRetries }));
+  }
+}
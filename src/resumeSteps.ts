@@ -0,0 +1,137 @@
+// src/resumeSteps.ts
+import { Page } from "playwright";
+import { configManager } from "./config";
+import { ConditionChecks, PipelineStep } from "./pipeline";
+import { BrowserService } from "./services/browser";
+import { JobKoreaService } from "./services/jobkorea";
+import { Account, isRetryableError, ResumeOutcome, UpdateError } from "./types";
+
+export type ResumeCondition = "onLoginPage" | "loggedIn" | "sessionReady" | "onMypage";
+
+// 브라우저 한 번의 수명 동안 유지되는 파이프라인 상태
+export interface ResumeContext {
+  readonly account: Account;
+  readonly page: Page;
+  readonly jobKorea: JobKoreaService;
+  readonly browserService: BrowserService;
+  loggedIn: boolean;
+  // 로그인 직후 팝업 처리까지 끝났는지 (세션 복원 시에는 처리할 팝업이 없음)
+  popupSettled: boolean;
+  // 이력서 ID별 결과 (브라우저 재시작 후에도 유지되어 이미 업데이트한 이력서를 건너뜀)
+  readonly resumeOutcomes: Map<string, ResumeOutcome>;
+}
+
+export type ResumeStep = PipelineStep<ResumeContext, ResumeCondition>;
+
+function isOnPath(page: Page, url: string): boolean {
+  try {
+    const current = new URL(page.url()).pathname.toLowerCase();
+    return current.startsWith(new URL(url).pathname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+export const resumeConditions: ConditionChecks<ResumeContext, ResumeCondition> = {
+  onLoginPage: (context) => isOnPath(context.page, configManager.getUrls().login),
+  loggedIn: (context) => context.loggedIn,
+  sessionReady: (context) => context.loggedIn && context.popupSettled,
+  onMypage: (context) =>
+    context.loggedIn && isOnPath(context.page, configManager.getUrls().mypage),
+};
+
+export function createResumeContext(
+  account: Account,
+  browserService: BrowserService,
+  jobKorea: JobKoreaService,
+  resumeOutcomes: Map<string, ResumeOutcome> = new Map()
+): ResumeContext {
+  const restored = browserService.isSessionRestored();
+  return {
+    account,
+    page: browserService.getPage(),
+    jobKorea,
+    browserService,
+    loggedIn: restored,
+    popupSettled: restored,
+    resumeOutcomes,
+  };
+}
+
+export function createResumeSteps(): ResumeStep[] {
+  return [
+    {
+      name: "navigateToLoginPage",
+      requires: [],
+      provides: "onLoginPage",
+      maxRetries: configManager.getStepRetries("navigateToLoginPage"),
+      run: (context, options) => context.jobKorea.navigateToLoginPage(options),
+    },
+    {
+      name: "login",
+      requires: ["onLoginPage"],
+      provides: "loggedIn",
+      maxRetries: configManager.getStepRetries("login"),
+      run: async (context, options) => {
+        await context.jobKorea.login(
+          context.account.jobkoreaId,
+          context.account.jobkoreaPwd,
+          options
+        );
+        context.loggedIn = true;
+        await context.browserService.saveSession();
+      },
+    },
+    {
+      name: "handleLoginPopup",
+      requires: ["loggedIn"],
+      provides: "sessionReady",
+      maxRetries: configManager.getStepRetries("handleLoginPopup"),
+      run: async (context) => {
+        await context.jobKorea.handleLoginPopup();
+        context.popupSettled = true;
+      },
+    },
+    {
+      name: "navigateToMypage",
+      requires: ["sessionReady"],
+      provides: "onMypage",
+      maxRetries: configManager.getStepRetries("navigateToMypage"),
+      run: (context, options) => context.jobKorea.navigateToMypage(options),
+    },
+    {
+      name: "updateCareerInfo",
+      requires: ["onMypage"],
+      maxRetries: configManager.getStepRetries("updateCareerInfo"),
+      run: async (context, options) => {
+        // 성공했거나 다시 시도해도 소용없는 이력서(확인 실패, 없는 ID)는 다시 처리하지 않는다.
+        const skipIds = new Set(
+          [...context.resumeOutcomes.values()]
+            .filter(outcome => outcome.success || !isRetryableError(outcome.error))
+            .map(outcome => outcome.id)
+        );
+        const outcomes = await context.jobKorea.updateResumes({
+          ...options,
+          resumeIds: configManager.getUpdateConfig().resumeIds,
+          skipIds,
+        });
+        outcomes.forEach(outcome => context.resumeOutcomes.set(outcome.id, outcome));
+
+        // 한 이력서만 실패하면 원래 에러를 그대로 전달해 에러 종류를 유지한다.
+        // 이전 시도에서 재시도하지 않기로 한 실패도 결과에 포함한다.
+        const failed = [...context.resumeOutcomes.values()].filter(outcome => !outcome.success);
+        if (failed.length === 1) {
+          throw failed[0].error;
+        }
+        if (failed.length > 1) {
+          const retryable = failed.some(outcome => isRetryableError(outcome.error));
+          throw new UpdateError(
+            `이력서 ${failed.length}개 업데이트 실패: ${failed.map(outcome => outcome.id).join(", ")}`,
+            { resumeIds: failed.map(outcome => outcome.id) },
+            retryable ? undefined : { retryable: false, severity: "error" }
+          );
+        }
+      },
+    },
+  ];
+}
@@ -0,0 +1,323 @@
+// src/services/artifacts.ts
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { configManager } from "../config";
+import { readCredential } from "../config/credentials";
+import { Account } from "../types";
+import { Logger } from "../utils/logger";
+
+// 이전 버전이 현재 디렉터리에 남긴 실패 아티팩트 (error-*), snapshot 명령어 결과 (snapshot-*)
+const LEGACY_ARTIFACT_PREFIXES = ["error-", "snapshot-"];
+
+// 스크린샷, HTML, Playwright trace, HAR, 동영상
+const ARTIFACT_EXTENSIONS = [".png", ".html", ".zip", ".har", ".webm"];
+
+const MANIFEST_FILE = "manifest.json";
+const REDACTED = "[REDACTED]";
+
+// HAR에서 값을 지우는 헤더 (세션 쿠키, 인증 정보)
+const SENSITIVE_HEADERS = ["cookie", "set-cookie", "authorization", "proxy-authorization"];
+
+// 이보다 짧은 값은 일반 문자열까지 지워 버리므로 가리지 않는다.
+const MIN_SECRET_LENGTH = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// runFolderName이 만드는 이름 (시작 시각-실행 ID 앞 8자리)
+const RUN_FOLDER_PATTERN = /^\d{8}-\d{6}-[0-9a-f]{8}$/;
+
+export interface ArtifactEntry {
+  // 실행 폴더 기준 파일 이름
+  file: string;
+  account?: string;
+  step?: string;
+  bytes: number;
+  createdAt: string;
+}
+
+// 실행 폴더의 manifest.json
+export interface ArtifactManifest {
+  runId: string;
+  startedAt: string;
+  files: ArtifactEntry[];
+}
+
+export interface ArtifactMeta {
+  account?: string;
+  step?: string;
+}
+
+// HTML 덤프와 HAR에 그대로 또는 이스케이프된 형태로 들어갈 수 있는 값
+function secretVariants(secret: string): string[] {
+  const htmlEscaped = secret
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  // 로그인 폼 본문(application/x-www-form-urlencoded)은 공백을 +로 인코딩한다.
+  const formEncoded = new URLSearchParams({ value: secret }).toString().slice("value=".length);
+  return [
+    secret,
+    htmlEscaped,
+    encodeURIComponent(secret),
+    formEncoded,
+    JSON.stringify(secret).slice(1, -1),
+  ];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarMessage {
+  headers?: HarNameValue[];
+  cookies?: HarNameValue[];
+}
+
+interface HarLog {
+  log?: { entries?: { request?: HarMessage; response?: HarMessage }[] };
+}
+
+function scrubHarMessage(message: HarMessage | undefined): void {
+  for (const header of message?.headers ?? []) {
+    if (SENSITIVE_HEADERS.includes(header.name.toLowerCase())) {
+      header.value = REDACTED;
+    }
+  }
+  for (const cookie of message?.cookies ?? []) {
+    cookie.value = REDACTED;
+  }
+}
+
+/**
+ * HAR의 요청/응답에서 쿠키, 인증 헤더 값과 cookies[] 항목의 값을 지운다.
+ * 로그인 세션을 그대로 넘겨받을 수 있는 값이라 계정 정보와 달리 값을 몰라도 지워야 한다.
+ * JSON으로 읽을 수 없으면 예외를 던진다.
+ */
+export function scrubHar(text: string): string {
+  const har = JSON.parse(text) as HarLog;
+  for (const entry of har.log?.entries ?? []) {
+    scrubHarMessage(entry.request);
+    scrubHarMessage(entry.response);
+  }
+  return JSON.stringify(har, null, 2);
+}
+
+// 실행 폴더 이름. 이름순 정렬이 시간순이 되도록 시작 시각을 앞에 둔다.
+function runFolderName(runId: string, startedAt: string): string {
+  const stamp = startedAt.replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `${stamp}-${runId.slice(0, 8)}`;
+}
+
+/**
+ * 한 실행의 아티팩트를 <artifacts.dir>/<실행 폴더>에 모으고 manifest.json에 목록을 남긴다.
+ * 텍스트 아티팩트는 쓰기 전에 계정 ID, 비밀번호, 설정한 환경변수 값을 가린다.
+ * 실행 폴더는 처음 저장할 때 만들므로 아티팩트가 없는 실행은 폴더를 남기지 않는다.
+ */
+export class ArtifactStore {
+  readonly runDir: string;
+  private readonly manifest: ArtifactManifest;
+  private readonly pattern: RegExp | null;
+
+  constructor(runId: string, startedAt: string, secrets: readonly string[]) {
+    const { dir } = configManager.getArtifactsConfig();
+    this.runDir = path.join(dir, runFolderName(runId, startedAt));
+    this.manifest = { runId, startedAt, files: [] };
+
+    const variants = secrets
+      .filter(secret => secret.length >= MIN_SECRET_LENGTH)
+      .flatMap(secretVariants);
+    // 긴 값부터 바꿔야 다른 값을 포함하는 값이 남지 않는다.
+    const unique = [...new Set(variants)].sort((a, b) => b.length - a.length);
+    this.pattern = unique.length > 0 ? new RegExp(unique.map(escapeRegExp).join("|"), "g") : null;
+  }
+
+  // 실행 폴더 안의 경로를 돌려주고 폴더가 없으면 만든다.
+  pathFor(file: string): string {
+    fs.mkdirSync(this.runDir, { recursive: true });
+    return path.join(this.runDir, file);
+  }
+
+  redact(text: string): string {
+    return this.pattern ? text.replace(this.pattern, REDACTED) : text;
+  }
+
+  // 가린 텍스트를 저장하고 manifest에 기록한다.
+  writeText(file: string, text: string, meta: ArtifactMeta = {}): string {
+    const filePath = this.pathFor(file);
+    fs.writeFileSync(filePath, this.redact(text), "utf-8");
+    this.record(filePath, meta);
+    return filePath;
+  }
+
+  /**
+   * HAR는 쿠키와 인증 헤더를 지운 뒤 다른 텍스트처럼 가려서 저장한다.
+   * 읽을 수 없는 HAR는 가릴 수 없으므로 저장하지 않고 null을 반환한다.
+   */
+  writeHar(file: string, text: string, meta: ArtifactMeta = {}): string | null {
+    let scrubbed: string;
+    try {
+      scrubbed = scrubHar(text);
+    } catch (error) {
+      Logger.warning(`HAR를 읽을 수 없어 저장하지 않습니다: ${file}`, {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+    return this.writeText(file, scrubbed, meta);
+  }
+
+  // 다른 곳(Playwright 스크린샷 등)에서 저장한 파일을 manifest에 기록한다.
+  record(filePath: string, meta: ArtifactMeta = {}): void {
+    try {
+      this.manifest.files.push({
+        file: path.relative(this.runDir, filePath),
+        ...meta,
+        bytes: fs.statSync(filePath).size,
+        createdAt: new Date().toISOString(),
+      });
+      fs.writeFileSync(
+        this.pathFor(MANIFEST_FILE),
+        JSON.stringify(this.manifest, null, 2),
+        "utf-8"
+      );
+    } catch (error) {
+      Logger.warning(`아티팩트 manifest 기록 실패: ${filePath}`, {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * 실행 ID가 없으면(디버깅 명령어) 새로 만든다.
+ * 계정의 ID와 비밀번호, artifacts.redactEnv 환경변수 값을 가린다.
+ */
+export function createArtifactStore(options: {
+  accounts: readonly Account[];
+  runId?: string;
+  startedAt?: string;
+}): ArtifactStore {
+  const envSecrets = configManager
+    .getArtifactsConfig()
+    .redactEnv.map(name => readCredential(name))
+    .filter((value): value is string => Boolean(value));
+
+  return new ArtifactStore(
+    options.runId ?? randomUUID(),
+    options.startedAt ?? new Date().toISOString(),
+    [
+      ...options.accounts.flatMap(account => [account.jobkoreaId, account.jobkoreaPwd]),
+      ...envSecrets,
+    ]
+  );
+}
+
+/**
+ * 아티팩트 디렉터리에서 실행 폴더만 고른다.
+ * artifacts.dir를 다른 용도와 같이 쓰더라도 이름 형식이 맞거나 manifest.json이 있는 폴더만 삭제 대상이다.
+ */
+function listRunFolders(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter(
+      entry =>
+        entry.isDirectory() &&
+        (RUN_FOLDER_PATTERN.test(entry.name) ||
+          fs.existsSync(path.join(dir, entry.name, MANIFEST_FILE)))
+    )
+    .map(entry => entry.name)
+    .sort();
+}
+
+function removeRunFolder(dir: string, name: string): boolean {
+  try {
+    fs.rmSync(path.join(dir, name), { recursive: true, force: true });
+    return true;
+  } catch {
+    Logger.warning(`아티팩트 폴더 삭제 실패: ${name}`);
+    return false;
+  }
+}
+
+/**
+ * 보관 정책(artifacts.keepRuns, artifacts.maxAgeDays)을 넘는 실행 폴더를 삭제한다.
+ * 삭제한 폴더 수를 반환한다.
+ */
+export function pruneArtifactRuns(now: Date = new Date()): number {
+  const { dir, keepRuns, maxAgeDays } = configManager.getArtifactsConfig();
+  let deletedCount = 0;
+
+  try {
+    const folders = listRunFolders(dir);
+    const expiredBefore = now.getTime() - maxAgeDays * DAY_MS;
+
+    folders.forEach((name, index) => {
+      const beyondCount = index < folders.length - keepRuns;
+      const expired = fs.statSync(path.join(dir, name)).mtimeMs < expiredBefore;
+      if ((beyondCount || expired) && removeRunFolder(dir, name)) {
+        deletedCount++;
+      }
+    });
+
+    if (deletedCount > 0) {
+      Logger.info(`보관 기간이 지난 아티팩트 폴더 ${deletedCount}개 정리 완료`);
+    }
+  } catch {
+    Logger.warning("아티팩트 정리 중 오류 발생");
+  }
+
+  return deletedCount;
+}
+
+/**
+ * 모든 실행 폴더와 이전 버전이 현재 디렉터리에 남긴 아티팩트 파일을 삭제한다. (cleanup 명령어)
+ * 삭제한 폴더와 파일 수를 반환하며, 개별 삭제 실패는 경고만 남긴다.
+ */
+export function cleanupArtifacts(): number {
+  const { dir } = configManager.getArtifactsConfig();
+  let deletedCount = 0;
+
+  try {
+    for (const name of listRunFolders(dir)) {
+      if (removeRunFolder(dir, name)) {
+        deletedCount++;
+      }
+    }
+
+    const cwd = process.cwd();
+    const legacyFiles = fs
+      .readdirSync(cwd)
+      .filter(
+        file =>
+          LEGACY_ARTIFACT_PREFIXES.some(prefix => file.startsWith(prefix)) &&
+          ARTIFACT_EXTENSIONS.includes(path.extname(file))
+      );
+
+    for (const file of legacyFiles) {
+      try {
+        fs.unlinkSync(path.join(cwd, file));
+        deletedCount++;
+      } catch {
+        Logger.warning(`아티팩트 삭제 실패: ${file}`);
+      }
+    }
+
+    if (deletedCount > 0) {
+      Logger.info(`아티팩트 ${deletedCount}개 정리 완료`);
+    }
+  } catch {
+    Logger.warning("아티팩트 정리 중 오류 발생");
+  }
+
+  return deletedCount;
+}
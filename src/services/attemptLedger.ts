@@ -0,0 +1,95 @@
+// src/services/attemptLedger.ts
+import { mkdir, readFile, writeFile } from "fs/promises";
+import * as path from "path";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { toKstDateKey } from "../utils/resumeTimestamp";
+
+// 시도 기록 파일 형식. days[YYYY-MM-DD (KST)][계정 label] = 시도 횟수
+interface AttemptLedgerFile {
+  version: 1;
+  days: Record<string, Record<string, number>>;
+}
+
+// 오늘 한도 계산에는 오늘 기록만 필요하지만, 확인용으로 최근 며칠은 남겨둔다.
+const RETAINED_DAYS = 14;
+
+function emptyLedger(): AttemptLedgerFile {
+  return { version: 1, days: {} };
+}
+
+/**
+ * 계정별 하루(KST) 업데이트 시도 횟수를 실행 간에 보관해 일일 한도를 지킨다.
+ * 시도할 때마다 바로 저장해 프로세스가 중간에 죽어도 시도 횟수가 남는다.
+ * 기록 파일을 읽거나 쓰지 못해도 업데이트 자체는 막지 않는다.
+ */
+export class AttemptLedger {
+  private ledger: AttemptLedgerFile = emptyLedger();
+
+  constructor(
+    private readonly filePath: string,
+    readonly dailyCap: number
+  ) {}
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch {
+      Logger.info("업데이트 시도 기록이 없습니다. 이번 실행부터 기록합니다.");
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as AttemptLedgerFile;
+      if (parsed.version !== 1) {
+        throw new Error(`지원하지 않는 시도 기록 버전: ${parsed.version}`);
+      }
+      this.ledger = parsed;
+    } catch (error) {
+      Logger.warning("업데이트 시도 기록을 읽을 수 없어 새로 기록합니다.", {
+        path: this.filePath,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  getAttempts(account: string, now: Date = new Date()): number {
+    return this.ledger.days[toKstDateKey(now)]?.[account] ?? 0;
+  }
+
+  hasRemaining(account: string, now: Date = new Date()): boolean {
+    return this.getAttempts(account, now) < this.dailyCap;
+  }
+
+  async recordAttempt(account: string, now: Date = new Date()): Promise<void> {
+    const day = toKstDateKey(now);
+    const attempts = (this.ledger.days[day] ??= {});
+    attempts[account] = (attempts[account] ?? 0) + 1;
+
+    // 오래된 날짜부터 버려 파일 크기를 제한
+    const days = Object.keys(this.ledger.days).sort();
+    for (const oldDay of days.slice(0, Math.max(0, days.length - RETAINED_DAYS))) {
+      delete this.ledger.days[oldDay];
+    }
+
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(this.filePath, JSON.stringify(this.ledger, null, 2), "utf-8");
+    } catch (error) {
+      Logger.warning("업데이트 시도 기록 저장 실패", {
+        path: this.filePath,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export function createAttemptLedger(): AttemptLedger {
+  const { path: filePath, dailyCap } = configManager.getAttemptLedgerConfig();
+  return new AttemptLedger(filePath, dailyCap);
+}
@@ -1,11 +1,33 @@
+import { copyFile, mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
 import { Browser, chromium, Page, BrowserContext } from "playwright";
 import { Logger } from "../utils/logger";
 import { configManager } from "../config";
+import { ArtifactStore } from "./artifacts";
+import { InterruptionHandler } from "./interruptions";
+import { SessionStateStore } from "./session";
+
+// 진행 중인 시도의 기록. 임시 디렉터리에 쓰고 실패한 시도만 아티팩트 폴더로 옮긴다.
+interface AttemptRecording {
+  readonly dir: string;
+  readonly artifacts: ArtifactStore;
+  readonly tag?: string;
+  readonly trace: boolean;
+}
+
+// 임시 디렉터리의 파일 이름 → 보관할 파일 이름의 단계 부분
+const TRACE_FILE = "trace.zip";
+const HAR_FILE = "network.har";
 
 export class BrowserService {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
+  private interruptions: InterruptionHandler | null = null;
+  private recording: AttemptRecording | null = null;
+  private sessionStore: SessionStateStore | null = null;
+  private sessionRestored = false;
 
   private wirePageDiagnostics(page: Page): void {
     page.on("domcontentloaded", () => {
@@ -53,9 +75,64 @@ export class BrowserService {
     }
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * 저장된 세션으로 마이페이지를 열어 로그인 상태가 유지되는지 확인한다.
+   * 로그인 페이지로 리다이렉트되면 세션이 만료된 것으로 본다.
+   */
+  private async verifySession(page: Page): Promise<boolean> {
+    try {
+      await page.goto(configManager.getUrls().mypage, {
+        waitUntil: "domcontentloaded",
+        timeout: configManager.getTimeouts().navigation,
+      });
+
+      const isLoggedIn = !new URL(page.url()).pathname.includes("/Login/");
+      Logger.info(
+        isLoggedIn
+          ? "저장된 세션 유효. 로그인 단계를 생략합니다."
+          : "저장된 세션 만료. 전체 로그인을 진행합니다.",
+        { currentUrl: page.url() },
+        "navigation"
+      );
+      return isLoggedIn;
+    } catch (error) {
+      Logger.warning("세션 확인 중 오류 발생. 전체 로그인을 진행합니다.", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * @param options.artifacts 실패한 시도의 기록을 보관할 곳 (없으면 기록하지 않는다)
+   * @param options.recordingTag 기록 파일 이름에 붙일 계정 태그 (아티팩트 파일과 같은 규칙)
+   */
+  async initialize(
+    options: {
+      sessionStore?: SessionStateStore | null;
+      artifacts?: ArtifactStore;
+      recordingTag?: string;
+    } = {}
+  ): Promise<void> {
     try {
       const browserConfig = configManager.getBrowserConfig();
+      const recordingConfig = browserConfig.recording;
+      this.sessionStore = options.sessionStore ?? null;
+      this.sessionRestored = false;
+      const storageState = this.sessionStore ? await this.sessionStore.load() : null;
+
+      if (
+        options.artifacts &&
+        (recordingConfig.trace || recordingConfig.har || recordingConfig.video)
+      ) {
+        this.recording = {
+          dir: await mkdtemp(path.join(tmpdir(), "jobkorea-recording-")),
+          artifacts: options.artifacts,
+          tag: options.recordingTag,
+          trace: recordingConfig.trace,
+        };
+      }
+      const recordingDir = this.recording?.dir;
 
       // 설정 기반 브라우저 옵션
       this.browser = await chromium.launch({
@@ -77,8 +154,22 @@ export class BrowserService {
         extraHTTPHeaders: {
           "Accept-Language": "ko-KR,ko;q=0.9,en;q=0.8",
         },
+        storageState: storageState ?? undefined,
+        // HAR는 컨텍스트를 닫을 때, 동영상은 페이지를 닫을 때 파일로 기록된다.
+        recordHar:
+          recordingDir && recordingConfig.har
+            ? { path: path.join(recordingDir, HAR_FILE) }
+            : undefined,
+        recordVideo:
+          recordingDir && recordingConfig.video
+            ? { dir: recordingDir, size: browserConfig.viewport }
+            : undefined,
       });
 
+      if (this.recording?.trace) {
+        await this.context.tracing.start({ screenshots: true, snapshots: true });
+      }
+
       // 설정 기반 리소스 차단
       if (
         browserConfig.blockResources.ads ||
@@ -138,11 +229,19 @@ export class BrowserService {
         });
       }
 
+      // 팝업, 다이얼로그, 오버레이 규칙은 메인 페이지가 열리기 전에 붙여 모든 페이지에 적용한다.
+      this.interruptions = new InterruptionHandler(configManager.getInterruptionRules());
+      this.interruptions.attach(this.context);
+
       this.page = await this.context.newPage();
       this.page.setDefaultNavigationTimeout(configManager.getTimeouts().navigation);
       this.page.setDefaultTimeout(configManager.getTimeouts().element);
       this.wirePageDiagnostics(this.page);
 
+      if (storageState) {
+        this.sessionRestored = await this.verifySession(this.page);
+      }
+
       Logger.info("브라우저 초기화 완료 (최적화 적용)");
     } catch (error) {
       Logger.error("브라우저 초기화 실패", error as Error);
@@ -157,8 +256,52 @@ export class BrowserService {
     return this.page;
   }
 
-  async close(): Promise<void> {
+  getInterruptions(): InterruptionHandler {
+    if (!this.interruptions) {
+      throw new Error("브라우저가 초기화되지 않았습니다.");
+    }
+    return this.interruptions;
+  }
+
+  isSessionRestored(): boolean {
+    return this.sessionRestored;
+  }
+
+  // 로그인 직후 갱신된 세션을 암호화해 저장한다. 저장 실패는 실행을 막지 않는다.
+  async saveSession(): Promise<void> {
+    if (!this.sessionStore || !this.context) {
+      return;
+    }
+
+    try {
+      await this.sessionStore.save(await this.context.storageState());
+    } catch (error) {
+      Logger.warning("세션 상태 저장 실패", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 브라우저를 닫는다. keepRecordings면 이번 시도의 기록을 아티팩트 폴더에 보관하고 경로를 반환한다.
+   * 성공한 시도는 기록을 버려 저장 공간을 아낀다.
+   */
+  async close(options: { keepRecordings?: boolean } = {}): Promise<string[]> {
+    const recording = this.recording;
+    this.recording = null;
+
     try {
+      if (recording?.trace && this.context) {
+        const tracePath = path.join(recording.dir, TRACE_FILE);
+        await this.context.tracing
+          .stop(options.keepRecordings ? { path: tracePath } : undefined)
+          .catch(error =>
+            Logger.warning("trace 정리 실패", {
+              reason: error instanceof Error ? error.message : String(error),
+            })
+          );
+      }
+
       if (this.page) {
         await this.page.close();
         this.page = null;
@@ -173,6 +316,7 @@ export class BrowserService {
         await this.browser.close();
         this.browser = null;
       }
+      this.interruptions = null;
 
       Logger.info("브라우저 종료 완료 (리소스 정리됨)");
     } catch (error) {
@@ -181,6 +325,57 @@ export class BrowserService {
       this.page = null;
       this.context = null;
       this.browser = null;
+      this.interruptions = null;
+    }
+
+    return recording ? this.saveRecordings(recording, options.keepRecordings ?? false) : [];
+  }
+
+  /**
+   * 임시 디렉터리의 기록을 보관할 이름으로 복사하고 임시 디렉터리는 지운다.
+   * HAR는 요청 본문의 비밀번호와 쿠키, 인증 헤더를 가려서 저장한다. (trace는 압축 파일이라 가리지 못한다.)
+   */
+  private async saveRecordings(recording: AttemptRecording, keep: boolean): Promise<string[]> {
+    const saved: string[] = [];
+    try {
+      if (keep) {
+        const timestamp = Date.now();
+        const files = (await readdir(recording.dir)).sort();
+        let videoIndex = 0;
+        for (const file of files) {
+          const step =
+            file === TRACE_FILE
+              ? "trace"
+              : file === HAR_FILE
+                ? "network"
+                : `video${++videoIndex}`;
+          const tag = recording.tag ? `${recording.tag}-` : "";
+          const name = `error-${tag}${step}-${timestamp}${path.extname(file)}`;
+          const meta = { account: recording.tag, step };
+          const source = path.join(recording.dir, file);
+          if (file === HAR_FILE) {
+            const har = recording.artifacts.writeHar(name, await readFile(source, "utf-8"), meta);
+            if (har) {
+              saved.push(har);
+            }
+          } else {
+            const target = recording.artifacts.pathFor(name);
+            await copyFile(source, target);
+            recording.artifacts.record(target, meta);
+            saved.push(target);
+          }
+        }
+        if (saved.length > 0) {
+          Logger.info(`실패한 시도의 기록 저장: ${saved.join(", ")}`);
+        }
+      }
+    } catch (error) {
+      Logger.warning("실패한 시도의 기록 저장 실패", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await rm(recording.dir, { recursive: true, force: true }).catch(() => undefined);
     }
+    return saved;
   }
 }
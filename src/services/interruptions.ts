@@ -0,0 +1,227 @@
+// src/services/interruptions.ts
+import { BrowserContext, Dialog, Page } from "playwright";
+import { configManager } from "../config";
+import { ERROR_CODES, InterruptionError, InterruptionRule, JobKoreaError } from "../types";
+import { Logger } from "../utils/logger";
+
+/**
+ * 실행 내내 팝업, 다이얼로그, 오버레이를 규칙대로 처리한다.
+ * 브라우저 컨텍스트에 붙어 메인 페이지와 이후 열리는 모든 팝업에 적용된다.
+ *
+ * - 다이얼로그: 규칙에 맞는 것만 처리한다. 맞는 규칙이 없고 기다리는 단계도 없으면 닫는다.
+ * - 팝업: 열린 URL이 규칙에 맞거나 규칙의 요소가 팝업 안에 나타나면 지정한 요소를 누르거나 창을 닫는다.
+ * - 오버레이: 클릭 등 페이지 조작 직전에 가리고 있으면 제거하거나 지정한 요소를 누른다.
+ *
+ * fail 규칙이 걸리면 guard로 감싼 단계를 그 오류로 바로 중단한다.
+ */
+export class InterruptionHandler {
+  private readonly timeouts = configManager.getTimeouts();
+  private readonly popups = new WeakMap<Page, Promise<void>>();
+  private readonly expecting = new WeakMap<Page, number>();
+  private failure: JobKoreaError | null = null;
+  private rejectStep: ((error: JobKoreaError) => void) | null = null;
+
+  constructor(private readonly rules: readonly InterruptionRule[]) {}
+
+  attach(context: BrowserContext): void {
+    context.on("dialog", dialog => {
+      void this.handleDialog(dialog);
+    });
+    context.on("page", page => {
+      void this.watchPage(page);
+      // 단계 코드가 popup 이벤트를 받기 전에 등록되도록 동기적으로 기록한다.
+      this.popups.set(page, this.handlePopup(page));
+    });
+  }
+
+  /**
+   * 단계 코드가 직접 처리할 다이얼로그를 기다리는 동안 규칙에 없는 다이얼로그를 닫지 않게 한다.
+   * 반환한 함수를 호출하면 해제된다.
+   */
+  expectDialogs(page: Page): () => void {
+    this.expecting.set(page, (this.expecting.get(page) ?? 0) + 1);
+    return () => {
+      this.expecting.set(page, (this.expecting.get(page) ?? 1) - 1);
+    };
+  }
+
+  // 단계 코드가 기다리는 다이얼로그에서 규칙이 처리하는 것을 걸러낼 때 쓴다.
+  handles(dialog: Dialog): boolean {
+    return this.findRule("dialogMessage", dialog.message()) !== undefined;
+  }
+
+  // 팝업 규칙 처리가 끝날 때까지 기다린다.
+  async settle(popup: Page): Promise<void> {
+    await this.popups.get(popup);
+  }
+
+  /**
+   * 단계 실행을 감싸 fail 규칙이 걸리면 단계가 끝나기를 기다리지 않고 그 오류로 중단한다.
+   */
+  async guard<T>(fn: () => Promise<T>): Promise<T> {
+    this.throwIfFailed();
+    const failed = new Promise<never>((_, reject) => {
+      this.rejectStep = reject;
+    });
+    try {
+      return await Promise.race([fn(), failed]);
+    } catch (error) {
+      // 단계가 먼저 실패했더라도 원인이 방해 요소라면 그 오류를 알린다.
+      this.throwIfFailed();
+      throw error;
+    } finally {
+      this.rejectStep = null;
+    }
+  }
+
+  private throwIfFailed(): void {
+    const failure = this.failure;
+    if (failure) {
+      this.failure = null;
+      throw failure;
+    }
+  }
+
+  private fail(rule: InterruptionRule, context: Record<string, unknown>): void {
+    const error = new InterruptionError(
+      `방해 요소 규칙으로 중단: ${rule.name}`,
+      rule.code ?? ERROR_CODES.UPDATE_ERROR,
+      { rule: rule.name, ...context }
+    );
+    if (this.rejectStep) {
+      this.rejectStep(error);
+    } else {
+      this.failure = error;
+    }
+  }
+
+  private findRule(
+    target: "popupUrl" | "dialogMessage",
+    text: string
+  ): InterruptionRule | undefined {
+    return this.rules.find(rule => {
+      const pattern = rule[target];
+      return pattern !== undefined && new RegExp(pattern, "i").test(text);
+    });
+  }
+
+  /**
+   * popupSelector 요소가 팝업 안에 나타나는 규칙을 찾는다. (가장 먼저 나타난 규칙)
+   * 요소가 늦게 그려질 수 있으므로 element 시간 초과까지 기다린다.
+   */
+  private findPopupSelectorRule(popup: Page): Promise<InterruptionRule | undefined> {
+    const rules = this.rules.filter(rule => rule.popupSelector !== undefined);
+    if (rules.length === 0) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise(resolve => {
+      let pending = rules.length;
+      for (const rule of rules) {
+        popup
+          .waitForSelector(rule.popupSelector as string, {
+            state: "attached",
+            timeout: this.timeouts.element,
+          })
+          .then(
+            () => resolve(rule),
+            () => {
+              if (--pending === 0) {
+                resolve(undefined);
+              }
+            }
+          );
+      }
+    });
+  }
+
+  private logFired(rule: InterruptionRule, context: Record<string, unknown>): void {
+    Logger.info(`방해 요소 처리: ${rule.name} (${rule.action})`, context);
+  }
+
+  private async handleDialog(dialog: Dialog): Promise<void> {
+    const message = dialog.message();
+    const rule = this.findRule("dialogMessage", message);
+    const page = dialog.page();
+
+    if (!rule) {
+      // 단계 코드가 기다리는 다이얼로그는 그쪽에서 처리한다.
+      if (page && (this.expecting.get(page) ?? 0) > 0) {
+        return;
+      }
+      Logger.warning("처리 규칙이 없는 다이얼로그를 닫습니다.", { message });
+      await dialog.dismiss().catch(() => undefined);
+      return;
+    }
+
+    this.logFired(rule, { message });
+    if (rule.action === "accept") {
+      await dialog.accept().catch(() => undefined);
+      return;
+    }
+    await dialog.dismiss().catch(() => undefined);
+    if (rule.action === "fail") {
+      this.fail(rule, { message });
+    }
+  }
+
+  private async handlePopup(popup: Page): Promise<void> {
+    if (!(await popup.opener())) {
+      return;
+    }
+    await popup.waitForLoadState("domcontentloaded").catch(() => undefined);
+    const url = popup.url();
+    const rule = this.findRule("popupUrl", url) ?? (await this.findPopupSelectorRule(popup));
+    if (!rule) {
+      return;
+    }
+
+    this.logFired(rule, { url });
+    try {
+      if (rule.action === "click" && rule.selector) {
+        await popup.click(rule.selector, { timeout: this.timeouts.element });
+      } else {
+        await popup.close();
+        if (rule.action === "fail") {
+          this.fail(rule, { url });
+        }
+      }
+    } catch (error) {
+      Logger.warning(`방해 요소 처리 실패: ${rule.name}`, {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Playwright가 클릭 등 조작 직전에 오버레이가 보이면 처리기를 호출한다.
+  private async watchPage(page: Page): Promise<void> {
+    for (const rule of this.rules) {
+      const { overlay } = rule;
+      if (!overlay) {
+        continue;
+      }
+      await page
+        .addLocatorHandler(
+          page.locator(overlay).first(),
+          async element => {
+            this.logFired(rule, { overlay, url: page.url() });
+            if (rule.action === "remove") {
+              await element.evaluate(node => node.remove());
+            } else if (rule.action === "click" && rule.selector) {
+              await page.click(rule.selector);
+            } else if (rule.action === "fail") {
+              this.fail(rule, { overlay, url: page.url() });
+            }
+          },
+          // fail은 오버레이가 그대로 남으므로 사라지기를 기다리지 않고 한 번만 처리한다.
+          rule.action === "fail" ? { noWaitAfter: true, times: 1 } : undefined
+        )
+        .catch(error => {
+          Logger.warning(`오버레이 규칙 등록 실패: ${rule.name}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+  }
+}
@@ -1,17 +1,153 @@
-import { writeFile } from "fs/promises";
-import { Page } from "playwright";
+import { Dialog, errors, Locator, Page } from "playwright";
 import { configManager } from "../config";
 import { Logger } from "../utils/logger";
 import { withRetry } from "../utils/retry";
-import { AuthenticationError, NavigationError, UpdateError } from "../types";
+import { classifyLoginFailure } from "../utils/loginFailure";
+import {
+  findResumeTimestamp,
+  isRecentlyUpdated,
+  isTimestampAdvanced,
+  parseResumeTimestamp,
+  ResumeTimestamp,
+} from "../utils/resumeTimestamp";
+import {
+  AuthenticationError,
+  ConfigurationError,
+  isRetryableError,
+  JobKoreaError,
+  NavigationError,
+  ResumeOutcome,
+  SelectorDriftError,
+  SiteMaintenanceError,
+  UpdateError,
+  UpdateVerificationError,
+} from "../types";
+import { ArtifactStore } from "./artifacts";
+import { InterruptionHandler } from "./interruptions";
+import { AccountRecorder } from "./runReport";
+
+export interface JobKoreaServiceOptions {
+  artifacts: ArtifactStore;
+  artifactTag?: string;
+  recorder?: AccountRecorder;
+  interruptions?: InterruptionHandler;
+  // 업데이트 버튼을 누르기 직전에 호출 (일일 시도 기록)
+  beforeUpdateClick?: () => Promise<void>;
+}
+
+// 단계별 재시도 예산 (지정하지 않으면 maxOperationRetries)
+export interface StepOptions {
+  maxRetries?: number;
+}
+
+// 마이페이지 이력서 목록의 한 항목
+export interface ResumeSummary {
+  id: string;
+  title: string;
+  updatedAt: ResumeTimestamp | null;
+}
+
+export interface UpdateResumesOptions extends StepOptions {
+  // 비어 있으면 목록의 모든 이력서
+  resumeIds?: readonly string[];
+  // 브라우저 재시작 전에 이미 업데이트한 이력서
+  skipIds?: ReadonlySet<string>;
+}
+
+// 로그인 페이지 대신 표시되는 점검 안내 문구
+const MAINTENANCE_PATTERNS = ["시스템 점검", "서비스 점검", "점검 중입니다", "점검시간"];
+
+// 로그인 결과를 확인하는 간격
+const LOGIN_RESULT_POLL_MS = 250;
+
+// 목록 항목 밖에서 이력서를 구분할 수 없을 때(목록을 찾지 못한 경우) 사용하는 ID
+const DEFAULT_RESUME_ID = "default";
+
+// 항목의 data 속성이나 링크의 쿼리 파라미터에서 이력서 ID를 찾는다.
+const RESUME_ID_ATTRIBUTES = ["data-resume-id", "data-rno"];
+const RESUME_ID_PARAMS = ["rNo", "rno", "resumeNo", "resume_no", "RNo"];
 
 export class JobKoreaService {
   private readonly urls = configManager.getUrls();
   private readonly selectors = configManager.getSelectors();
   private readonly timeouts = configManager.getTimeouts();
   private readonly retryConfig = configManager.getRetryConfig();
+  private readonly updateConfig = configManager.getUpdateConfig();
+  private readonly loginFailureConfig = configManager.getLoginFailureConfig();
+
+  constructor(
+    private readonly page: Page,
+    private readonly options: JobKoreaServiceOptions
+  ) {}
 
-  constructor(private readonly page: Page) {}
+  private readonly recordAttempt = (attempt: number): void => {
+    this.options.recorder?.recordAttempt(attempt);
+  };
+
+  // 방해 요소 규칙이 처리하는 다이얼로그는 단계 코드에서 무시한다.
+  private readonly isStepDialog = (dialog: Dialog): boolean =>
+    !this.options.interruptions?.handles(dialog);
+
+  // 단계 코드가 다이얼로그를 직접 처리하는 동안 규칙에 없는 다이얼로그를 닫지 않게 한다.
+  private expectDialogs(page: Page): () => void {
+    return this.options.interruptions?.expectDialogs(page) ?? (() => undefined);
+  }
+
+  private recordSelector(
+    name: string | undefined,
+    selectors: readonly string[],
+    selector: string
+  ): void {
+    if (name) {
+      this.options.recorder?.recordSelector(name, selector, selectors.indexOf(selector));
+    }
+  }
+
+  // 계정별로 실패 아티팩트를 구분하기 위해 artifactTag를 파일명에 포함한다.
+  private artifactName(
+    step: string,
+    extension: string,
+    timestamp: number,
+    kind: "error" | "snapshot"
+  ): string {
+    const tag = this.options.artifactTag ? `${this.options.artifactTag}-` : "";
+    return `${kind}-${tag}${step}-${timestamp}.${extension}`;
+  }
+
+  /**
+   * 아티팩트 폴더에 스크린샷을 저장한다. 로그인 입력란은 흐리게 처리해 아이디가 남지 않게 한다.
+   */
+  private async saveScreenshot(
+    step: string,
+    options: { page?: Page; timestamp?: number; kind?: "error" | "snapshot" } = {}
+  ): Promise<string> {
+    const { page = this.page, timestamp = Date.now(), kind = "error" } = options;
+    const { idInput, passwordInput } = this.selectors.login;
+    const filePath = this.options.artifacts.pathFor(
+      this.artifactName(step, "png", timestamp, kind)
+    );
+
+    await page.screenshot({
+      path: filePath,
+      fullPage: true,
+      style: `${[...idInput, ...passwordInput].join(", ")} { filter: blur(8px) !important; }`,
+    });
+    this.options.artifacts.record(filePath, { account: this.options.artifactTag, step });
+    return filePath;
+  }
+
+  // 아티팩트 폴더에 계정 정보를 가린 HTML을 저장한다.
+  private async saveHtml(
+    step: string,
+    options: { timestamp?: number; kind?: "error" | "snapshot" } = {}
+  ): Promise<string> {
+    const { timestamp = Date.now(), kind = "error" } = options;
+    return this.options.artifacts.writeText(
+      this.artifactName(step, "html", timestamp, kind),
+      await this.page.content(),
+      { account: this.options.artifactTag, step }
+    );
+  }
 
   private shouldSkipNavigationArtifacts(error: Error): boolean {
     return (
@@ -25,44 +161,80 @@ export class JobKoreaService {
     options: {
       state?: "visible" | "attached" | "detached" | "hidden";
       timeout?: number;
+      name?: string;
+      // 기본값은 메인 페이지 (이력서 팝업 등 다른 페이지에서 찾을 때 지정)
+      page?: Page;
     } = {}
   ): Promise<string> {
-    const { state = "visible" } = options;
+    const { state = "visible", name, page = this.page } = options;
     const timeout = options.timeout || this.timeouts.element;
 
+    const context = { name, selectors, url: page.url() };
+
     if (state === "visible") {
-      await this.page.waitForSelector(selectors.join(", "), {
-        state,
-        timeout,
-      });
+      try {
+        await page.waitForSelector(selectors.join(", "), {
+          state,
+          timeout,
+        });
+      } catch (error) {
+        if (error instanceof errors.TimeoutError) {
+          throw new SelectorDriftError(
+            `표시된 셀렉터를 찾지 못했습니다: ${selectors.join(", ")}`,
+            context
+          );
+        }
+        throw error;
+      }
 
       for (const selector of selectors) {
-        if (await this.page.locator(selector).first().isVisible()) {
+        if (await page.locator(selector).first().isVisible()) {
           Logger.info(`셀렉터 성공: ${selector}`);
+          this.recordSelector(name, selectors, selector);
           return selector;
         }
       }
 
-      throw new Error(`표시된 셀렉터를 찾지 못했습니다: ${selectors.join(", ")}`);
+      throw new SelectorDriftError(
+        `표시된 셀렉터를 찾지 못했습니다: ${selectors.join(", ")}`,
+        context
+      );
     }
 
     for (const selector of selectors) {
       try {
-        await this.page.waitForSelector(selector, {
+        await page.waitForSelector(selector, {
           state,
           timeout: Math.floor(timeout / selectors.length),
         });
         Logger.info(`셀렉터 성공: ${selector}`);
+        this.recordSelector(name, selectors, selector);
         return selector;
       } catch {
         Logger.warning(`셀렉터 실패: ${selector}, 다음 셀렉터 시도 중...`);
       }
     }
 
-    throw new Error(`모든 셀렉터 실패: ${selectors.join(", ")}`);
+    throw new SelectorDriftError(`모든 셀렉터 실패: ${selectors.join(", ")}`, context);
   }
 
-  async navigateToLoginPage(): Promise<void> {
+  // 점검 안내 페이지이면 재시도하지 않도록 SiteMaintenanceError를 던진다.
+  private async assertNotUnderMaintenance(): Promise<void> {
+    const text = await this.page
+      .locator("body")
+      .innerText({ timeout: this.timeouts.element })
+      .catch(() => "");
+    const pattern = MAINTENANCE_PATTERNS.find(candidate => text.includes(candidate));
+    if (pattern) {
+      throw new SiteMaintenanceError(`JobKorea가 점검 중입니다. ("${pattern}")`, {
+        currentUrl: this.page.url(),
+      });
+    }
+  }
+
+  async navigateToLoginPage(options: StepOptions = {}): Promise<void> {
+    const maxRetries = options.maxRetries ?? this.retryConfig.maxOperationRetries;
+
     await withRetry(
       async () => {
         const response = await this.page.goto(this.urls.login, {
@@ -100,6 +272,10 @@ export class JobKoreaService {
         await this.waitForAnySelector(this.selectors.login.idInput, {
           state: "visible",
           timeout: this.timeouts.navigation,
+          name: "login.idInput",
+        }).catch(async (error: Error) => {
+          await this.assertNotUnderMaintenance();
+          throw error;
         });
 
         Logger.success(
@@ -109,14 +285,11 @@ export class JobKoreaService {
         );
       },
       {
-        maxRetries: this.retryConfig.maxOperationRetries,
+        maxRetries,
+        onAttempt: this.recordAttempt,
         operation: "로그인 페이지 이동",
       }
     ).catch(async (originalError: Error) => {
-      const timestamp = Date.now();
-      const screenshotPath = `error-navigate-${timestamp}.png`;
-      const htmlPath = `error-navigate-${timestamp}.html`;
-
       if (this.shouldSkipNavigationArtifacts(originalError)) {
         Logger.warning(
           "로그인 페이지 응답 미수신 상태라 스크린샷/HTML 저장을 생략합니다.",
@@ -129,7 +302,7 @@ export class JobKoreaService {
         );
 
         throw new NavigationError(
-          `로그인 페이지로 이동하는데 실패했습니다. (${this.retryConfig.maxOperationRetries}번 재시도): ${originalError.message}`,
+          `로그인 페이지로 이동하는데 실패했습니다. (${maxRetries}번 재시도): ${originalError.message}`,
           {
             requestedUrl: this.urls.login,
             currentUrl: this.page.url(),
@@ -137,23 +310,28 @@ export class JobKoreaService {
         );
       }
 
+      const timestamp = Date.now();
       const results = await Promise.allSettled([
-        this.page.screenshot({ path: screenshotPath, fullPage: true }),
-        this.page.content().then((html) => writeFile(htmlPath, html, "utf-8")),
+        this.saveScreenshot("navigate", { timestamp }),
+        this.saveHtml("navigate", { timestamp }),
       ]);
 
       for (const [i, result] of results.entries()) {
         const label = i === 0 ? "스크린샷" : "HTML";
-        const path = i === 0 ? screenshotPath : htmlPath;
         if (result.status === "fulfilled") {
-          Logger.error(`로그인 페이지 이동 실패. ${label} 저장: ${path}`);
+          Logger.error(`로그인 페이지 이동 실패. ${label} 저장: ${result.value}`);
+          this.options.recorder?.recordArtifact(result.value);
         } else {
           Logger.warning(`${label} 저장 실패: ${result.reason}`);
         }
       }
 
+      // 점검 등 재시도하지 않는 오류는 분류를 유지한다.
+      if (!isRetryableError(originalError)) {
+        throw originalError;
+      }
       throw new NavigationError(
-        `로그인 페이지로 이동하는데 실패했습니다. (${this.retryConfig.maxOperationRetries}번 재시도): ${originalError.message}`,
+        `로그인 페이지로 이동하는데 실패했습니다. (${maxRetries}번 재시도): ${originalError.message}`,
         {
           requestedUrl: this.urls.login,
           currentUrl: this.page.url(),
@@ -162,77 +340,154 @@ export class JobKoreaService {
     });
   }
 
-  async login(id: string, password: string): Promise<void> {
+  async login(id: string, password: string, options: StepOptions = {}): Promise<void> {
+    const maxRetries = options.maxRetries ?? this.retryConfig.maxOperationRetries;
+
     await withRetry(
       async () => {
         const idSelector = await this.waitForAnySelector(this.selectors.login.idInput, {
           state: "visible",
+          name: "login.idInput",
         });
         await this.page.fill(idSelector, id);
 
         const passwordSelector = await this.waitForAnySelector(this.selectors.login.passwordInput, {
           state: "visible",
+          name: "login.passwordInput",
         });
         await this.page.fill(passwordSelector, password);
 
         const loginButtonSelector = await this.waitForAnySelector(this.selectors.login.loginButton, {
           state: "visible",
+          name: "login.loginButton",
         });
 
-        await this.page.click(loginButtonSelector);
-
-        // 로그인 페이지에서 벗어났는지 URL 검증으로 성공 판정
-        await this.page.waitForURL(url => !url.pathname.includes("/Login/"), {
-          timeout: this.timeouts.navigation,
-        });
+        // 로그인 실패 안내가 알림창으로 뜨는 경우가 있어 문구를 모아둔다.
+        const dialogs: string[] = [];
+        const onDialog = (dialog: Dialog): void => {
+          if (!this.isStepDialog(dialog)) {
+            return;
+          }
+          dialogs.push(dialog.message());
+          dialog.accept().catch(() => undefined);
+        };
+        const releaseDialogs = this.expectDialogs(this.page);
+        this.page.on("dialog", onDialog);
+        try {
+          await this.page.click(loginButtonSelector);
+          await this.waitForLoginResult(dialogs);
+        } finally {
+          this.page.off("dialog", onDialog);
+          releaseDialogs();
+        }
 
         Logger.success("로그인 성공 및 페이지 전환 확인 완료");
       },
       {
-        maxRetries: this.retryConfig.maxOperationRetries,
+        maxRetries,
+        onAttempt: this.recordAttempt,
         operation: "로그인",
       }
     ).catch(async (originalError: Error) => {
-      const screenshotPath = `error-login-${Date.now()}.png`;
-
-      const [screenshotResult] = await Promise.allSettled([
-        this.page.screenshot({ path: screenshotPath, fullPage: true }),
-      ]);
+      const [screenshotResult] = await Promise.allSettled([this.saveScreenshot("login")]);
 
       if (screenshotResult.status === "fulfilled") {
-        Logger.error(`로그인 실패. 스크린샷 저장: ${screenshotPath}`);
+        Logger.error(`로그인 실패. 스크린샷 저장: ${screenshotResult.value}`);
+        this.options.recorder?.recordArtifact(screenshotResult.value);
       } else {
         Logger.error(`로그인 실패. 스크린샷 저장 실패: ${screenshotResult.reason}`);
       }
 
+      if (!isRetryableError(originalError)) {
+        throw originalError;
+      }
       throw new AuthenticationError(`로그인 실패: ${originalError.message}`);
     });
   }
 
-  async handleLoginPopup(): Promise<void> {
-    try {
-      Logger.info("로그인 팝업 처리 중...");
-      const [popup] = await Promise.all([
-        this.page.waitForEvent("popup", { timeout: this.timeouts.popup }),
-      ]);
+  /**
+   * 로그인 페이지를 벗어날 때까지 기다리며 실패 단서(이동한 URL, 알림창, 오류 영역, 보안 문자)를 살핀다.
+   * 원인을 판별하면 바로 분류된 오류를 던지고, 재시도할 수 없는 원인이면 재시도하지 않는다.
+   */
+  private async waitForLoginResult(dialogs: readonly string[]): Promise<void> {
+    const deadline = Date.now() + this.timeouts.navigation;
+
+    for (;;) {
+      const url = this.page.url();
+      const errorText = await this.readVisibleText(this.selectors.login.errorMessage);
+      const failure = classifyLoginFailure(
+        {
+          url,
+          dialogs,
+          errorText,
+          captchaVisible: await this.isAnyVisible(this.selectors.login.captcha),
+        },
+        this.loginFailureConfig
+      );
+      if (failure) {
+        throw failure;
+      }
 
-      if (popup) {
-        await popup.waitForSelector('a[href*="나중에 변경"]', {
-          timeout: this.timeouts.element,
-        });
-        const [dialog] = await Promise.all([
-          popup.waitForEvent("dialog", { timeout: this.timeouts.popup }),
-          popup.click('a[href*="나중에 변경"]'),
-        ]);
-        await dialog.dismiss();
-        Logger.success("팝업 처리 완료");
+      // 로그인 페이지에서 벗어났는지 URL 검증으로 성공 판정
+      if (!new URL(url).pathname.includes("/Login/")) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        const detail = errorText || dialogs[dialogs.length - 1];
+        throw new Error(
+          detail
+            ? `로그인 페이지를 벗어나지 못했습니다. ("${detail}")`
+            : `로그인 페이지를 벗어나지 못했습니다. (${this.timeouts.navigation}ms)`
+        );
+      }
+      await this.page.waitForTimeout(LOGIN_RESULT_POLL_MS);
+    }
+  }
+
+  // 페이지 전환 중에는 읽기가 실패할 수 있어 빈 문자열로 취급한다.
+  private async readVisibleText(selectors: readonly string[]): Promise<string> {
+    for (const selector of selectors) {
+      const element = this.page.locator(selector).first();
+      if (await element.isVisible().catch(() => false)) {
+        const text = await element.innerText({ timeout: this.timeouts.element }).catch(() => "");
+        if (text.trim()) {
+          return text.trim();
+        }
+      }
+    }
+    return "";
+  }
+
+  private async isAnyVisible(selectors: readonly string[]): Promise<boolean> {
+    for (const selector of selectors) {
+      if (await this.page.locator(selector).first().isVisible().catch(() => false)) {
+        return true;
       }
-    } catch {
+    }
+    return false;
+  }
+
+  /**
+   * 로그인 직후 뜨는 안내 팝업을 기다린다.
+   * 팝업 처리(비밀번호 변경 안내 등)는 방해 요소 규칙이 맡고, 여기서는 처리가 끝나기를 기다린다.
+   */
+  async handleLoginPopup(): Promise<void> {
+    Logger.info("로그인 팝업 처리 중...");
+    const popup = await this.page
+      .waitForEvent("popup", { timeout: this.timeouts.popup })
+      .catch(() => null);
+
+    if (!popup) {
       Logger.warning("팝업이 나타나지 않았거나 처리할 수 없습니다.");
+      return;
     }
+    await this.options.interruptions?.settle(popup);
+    Logger.success("팝업 처리 완료");
   }
 
-  async navigateToMypage(): Promise<void> {
+  async navigateToMypage(options: StepOptions = {}): Promise<void> {
+    const maxRetries = options.maxRetries ?? this.retryConfig.maxOperationRetries;
+
     await withRetry(
       async () => {
         await this.page.goto(this.urls.mypage, {
@@ -242,7 +497,8 @@ export class JobKoreaService {
         Logger.success("마이페이지로 이동 완료");
       },
       {
-        maxRetries: this.retryConfig.maxOperationRetries,
+        maxRetries,
+        onAttempt: this.recordAttempt,
         operation: "마이페이지 이동",
       }
     ).catch(() => {
@@ -250,24 +506,321 @@ export class JobKoreaService {
     });
   }
 
-  async updateCareerInfo(): Promise<void> {
-    await withRetry(
+  private async findResumeItems(): Promise<Locator | null> {
+    for (const selector of this.selectors.mypage.resumeItem) {
+      const items = this.page.locator(selector);
+      if ((await items.count()) > 0) {
+        this.recordSelector("mypage.resumeItem", this.selectors.mypage.resumeItem, selector);
+        return items;
+      }
+    }
+    return null;
+  }
+
+  private async readResumeSummary(item: Locator, index: number): Promise<ResumeSummary> {
+    const id = await item.evaluate(
+      (element, { attributes, params }) => {
+        const candidates = [element, ...Array.from(element.querySelectorAll("*"))];
+        for (const candidate of candidates) {
+          for (const attribute of attributes) {
+            const value = candidate.getAttribute(attribute);
+            if (value) return value;
+          }
+        }
+        for (const link of Array.from(element.querySelectorAll("a[href]"))) {
+          const url = new URL((link as HTMLAnchorElement).href, document.baseURI);
+          for (const param of params) {
+            const value = url.searchParams.get(param);
+            if (value) return value;
+          }
+        }
+        return null;
+      },
+      { attributes: RESUME_ID_ATTRIBUTES, params: RESUME_ID_PARAMS }
+    );
+
+    let title = "";
+    for (const selector of this.selectors.mypage.resumeTitle) {
+      const titleElement = item.locator(selector).first();
+      if ((await titleElement.count()) > 0) {
+        title = ((await titleElement.textContent()) ?? "").trim();
+        break;
+      }
+    }
+
+    return {
+      id: id ?? `#${index + 1}`,
+      title,
+      updatedAt: await this.readResumeUpdatedAt(item),
+    };
+  }
+
+  /**
+   * 마이페이지의 이력서 목록을 읽는다. 목록을 찾지 못하면 빈 배열을 반환한다.
+   */
+  async listResumes(): Promise<ResumeSummary[]> {
+    const items = await this.findResumeItems();
+    if (!items) {
+      return [];
+    }
+
+    const resumes: ResumeSummary[] = [];
+    const count = await items.count();
+    for (let index = 0; index < count; index++) {
+      resumes.push(await this.readResumeSummary(items.nth(index), index));
+    }
+    return resumes;
+  }
+
+  // 목록을 다시 읽어 ID로 항목을 찾는다. (업데이트 후 페이지가 다시 로드되므로 매번 새로 찾음)
+  private async findResumeItem(
+    resumeId: string
+  ): Promise<{ item: Locator; summary: ResumeSummary } | null> {
+    const items = await this.findResumeItems();
+    if (!items) {
+      return null;
+    }
+
+    const count = await items.count();
+    for (let index = 0; index < count; index++) {
+      const item = items.nth(index);
+      const summary = await this.readResumeSummary(item, index);
+      if (summary.id === resumeId) {
+        return { item, summary };
+      }
+    }
+    return null;
+  }
+
+  private async findStatusLink(
+    resumeId?: string
+  ): Promise<{ link: Locator; summary: ResumeSummary | null }> {
+    const selectors = this.selectors.mypage.statusLink;
+    if (!resumeId) {
+      const selector = await this.waitForAnySelector(selectors, {
+        timeout: this.timeouts.element,
+        name: "mypage.statusLink",
+      });
+      return { link: this.page.locator(selector).first(), summary: null };
+    }
+
+    const found = await this.findResumeItem(resumeId);
+    if (!found) {
+      throw new UpdateError(`이력서를 찾을 수 없습니다: ${resumeId}`);
+    }
+
+    for (const selector of selectors) {
+      const link = found.item.locator(selector).first();
+      if (await link.isVisible()) {
+        Logger.info(`셀렉터 성공: ${selector}`);
+        this.recordSelector("mypage.statusLink", selectors, selector);
+        return { link, summary: found.summary };
+      }
+    }
+    throw new UpdateError(`이력서(${resumeId})의 상태 링크를 찾을 수 없습니다.`);
+  }
+
+  /**
+   * 마이페이지에 표시된 이력서 최종수정일을 읽는다.
+   * 설정된 셀렉터에서 찾지 못하면 페이지 텍스트에서 "최종수정일"/"업데이트" 라벨로 찾는다.
+   */
+  private async readResumeUpdatedAt(
+    scope: Page | Locator = this.page
+  ): Promise<ResumeTimestamp | null> {
+    const selectors = this.selectors.mypage.lastUpdated;
+    for (const selector of selectors) {
+      const locator = scope.locator(selector).first();
+      if ((await locator.count()) === 0) {
+        continue;
+      }
+
+      const text = (await locator.textContent()) ?? "";
+      const timestamp = findResumeTimestamp(text) ?? parseResumeTimestamp(text);
+      if (timestamp) {
+        this.recordSelector("mypage.lastUpdated", selectors, selector);
+        return timestamp;
+      }
+    }
+
+    const text = await (scope === this.page ? this.page.locator("body") : (scope as Locator))
+      .innerText()
+      .catch(() => "");
+    return findResumeTimestamp(text);
+  }
+
+  /**
+   * 업데이트 후 마이페이지로 돌아가 최종수정일이 앞으로 움직였는지 확인한다.
+   */
+  private async verifyResumeUpdated(
+    before: ResumeTimestamp | null,
+    updatedAt: Date,
+    resumeId?: string
+  ): Promise<ResumeTimestamp> {
+    await this.page.goto(this.urls.mypage, { waitUntil: "domcontentloaded" });
+    const after = resumeId
+      ? (await this.findResumeItem(resumeId))?.summary.updatedAt ?? null
+      : await this.readResumeUpdatedAt();
+
+    if (!after) {
+      throw new UpdateVerificationError("업데이트 후 이력서 최종수정일을 찾을 수 없습니다.", {
+        resumeId,
+        before: before?.raw,
+        currentUrl: this.page.url(),
+      });
+    }
+
+    if (!isTimestampAdvanced(before, after, updatedAt)) {
+      throw new UpdateVerificationError(
+        `이력서 최종수정일이 갱신되지 않았습니다. (이전: ${before?.raw ?? "없음"}, 현재: ${after.raw})`,
+        { resumeId, before: before?.raw, after: after.raw, updatedAt: updatedAt.toISOString() }
+      );
+    }
+
+    Logger.success(`이력서 최종수정일 확인: ${after.raw}`);
+    return after;
+  }
+
+  private async updateResume(
+    resumeId: string | undefined,
+    title: string,
+    options: StepOptions
+  ): Promise<ResumeOutcome> {
+    const id = resumeId ?? DEFAULT_RESUME_ID;
+    try {
+      const updatedAt = await this.updateCareerInfo(options, resumeId);
+      return {
+        id,
+        title,
+        success: true,
+        updatedAt: updatedAt?.raw,
+        updatedAtIso: updatedAt?.date.toISOString(),
+      };
+    } catch (error) {
+      return { id, title, success: false, error };
+    }
+  }
+
+  /**
+   * 최종수정일이 최소 업데이트 간격 안이면 건너뛴 결과를 반환한다.
+   * 드라이런은 업데이트 버튼을 확인해야 하므로 건너뛰지 않는다.
+   */
+  private skipIfRecentlyUpdated(
+    id: string,
+    title: string,
+    updatedAt: ResumeTimestamp | null
+  ): ResumeOutcome | null {
+    const { dryRun, minIntervalMinutes } = this.updateConfig;
+    if (dryRun || !updatedAt || !isRecentlyUpdated(updatedAt, minIntervalMinutes)) {
+      return null;
+    }
+
+    Logger.info(
+      `최근 ${minIntervalMinutes}분 안에 업데이트된 이력서를 건너뜁니다: ${id}`,
+      { updatedAt: updatedAt.raw }
+    );
+    return {
+      id,
+      title,
+      success: true,
+      skipped: true,
+      updatedAt: updatedAt.raw,
+      updatedAtIso: updatedAt.date.toISOString(),
+    };
+  }
+
+  /**
+   * 이력서 목록에서 대상 이력서를 골라 하나씩 업데이트하고 이력서별 결과를 반환한다.
+   * 최근에 업데이트된 이력서는 건너뛰고(skipped), 목록을 찾지 못하면 예전처럼
+   * 화면의 첫 번째 이력서만 업데이트한다.
+   */
+  async updateResumes(options: UpdateResumesOptions = {}): Promise<ResumeOutcome[]> {
+    const { resumeIds = [], skipIds = new Set<string>() } = options;
+    const resumes = await this.listResumes();
+
+    if (resumes.length === 0) {
+      if (resumeIds.length > 0) {
+        throw new UpdateError("이력서 목록을 찾을 수 없어 지정한 이력서를 업데이트할 수 없습니다.", {
+          resumeIds,
+        });
+      }
+      Logger.warning("이력서 목록을 찾지 못했습니다. 첫 번째 이력서만 업데이트합니다.");
+      const skipped = this.skipIfRecentlyUpdated(
+        DEFAULT_RESUME_ID,
+        "",
+        await this.readResumeUpdatedAt()
+      );
+      return [skipped ?? (await this.updateResume(undefined, "", options))];
+    }
+
+    Logger.info(
+      `이력서 ${resumes.length}개: ${resumes
+        .map(resume => `${resume.id} "${resume.title}" (${resume.updatedAt?.raw ?? "-"})`)
+        .join(", ")}`
+    );
+
+    const targetIds = resumeIds.length > 0 ? resumeIds : resumes.map(resume => resume.id);
+    const outcomes: ResumeOutcome[] = [];
+    for (const id of targetIds) {
+      if (skipIds.has(id)) {
+        Logger.info(`이미 업데이트한 이력서를 건너뜁니다: ${id}`);
+        continue;
+      }
+
+      const resume = resumes.find(candidate => candidate.id === id);
+      if (!resume) {
+        outcomes.push({
+          id,
+          title: "",
+          success: false,
+          error: new ConfigurationError(
+            `RESUME_IDS에 지정한 이력서를 찾을 수 없습니다: ${id}`,
+            { available: resumes.map(candidate => candidate.id) }
+          ),
+        });
+        continue;
+      }
+
+      const skipped = this.skipIfRecentlyUpdated(id, resume.title, resume.updatedAt);
+      if (skipped) {
+        outcomes.push(skipped);
+        continue;
+      }
+
+      Logger.info(`이력서 업데이트: ${id} "${resume.title}"`);
+      outcomes.push(await this.updateResume(id, resume.title, options));
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * 이력서 하나를 업데이트하고, 확인한 최종수정일을 반환한다.
+   * resumeId가 없으면 화면의 첫 번째 상태 링크를 사용한다.
+   * 드라이런이거나 최종수정일 확인을 끈 경우 null을 반환한다.
+   */
+  async updateCareerInfo(
+    options: StepOptions = {},
+    resumeId?: string
+  ): Promise<ResumeTimestamp | null> {
+    const maxRetries = options.maxRetries ?? this.retryConfig.maxOperationRetries;
+    const shouldVerify = this.updateConfig.verifyTimestamp && !this.updateConfig.dryRun;
+
+    return withRetry(
       async () => {
         let resumePopup: Page | null = null;
+        let releaseDialogs = (): void => undefined;
         try {
-          const statusLinkSelector = await this.waitForAnySelector(this.selectors.mypage.statusLink, {
-            timeout: this.timeouts.element,
-          });
+          const { link: statusLink, summary } = await this.findStatusLink(resumeId);
 
-          const adModal = await this.page.$(".ab-iam-root");
-          if (adModal) {
-            await adModal.evaluate((node) => node.remove());
-            Logger.info("광고 모달 제거됨");
+          let before: ResumeTimestamp | null = null;
+          if (shouldVerify) {
+            before = summary ? summary.updatedAt : await this.readResumeUpdatedAt();
+            Logger.info(`업데이트 전 이력서 최종수정일: ${before?.raw ?? "확인 불가"}`);
           }
 
           const [popup] = await Promise.all([
             this.page.waitForEvent("popup", { timeout: this.timeouts.popup }),
-            this.page.click(statusLinkSelector),
+            statusLink.click(),
           ]);
           resumePopup = popup;
 
@@ -277,6 +830,17 @@ export class JobKoreaService {
 
           await resumePopup.waitForLoadState();
 
+          // 드라이런: 클릭할 버튼이 실제로 보이는지만 확인하고 종료
+          if (this.updateConfig.dryRun) {
+            const visibleSelector = await this.waitForAnySelector(
+              this.selectors.mypage.updateButton,
+              { page: resumePopup, name: "mypage.updateButton" }
+            );
+            Logger.success(`드라이런: 업데이트 버튼 확인 (${visibleSelector}). 클릭하지 않습니다.`);
+            await resumePopup.close();
+            return null;
+          }
+
           const updateButtonSelector = await resumePopup.evaluate(
             (selectors) => {
               for (const selector of selectors) {
@@ -291,15 +855,30 @@ export class JobKoreaService {
                   continue;
                 }
               }
-              throw new Error(`모든 업데이트 버튼 셀렉터 실패: ${selectors.join(", ")}`);
+              return null;
             },
             [...this.selectors.mypage.updateButton]
           );
+          if (!updateButtonSelector) {
+            throw new SelectorDriftError(
+              `모든 업데이트 버튼 셀렉터 실패: ${this.selectors.mypage.updateButton.join(", ")}`,
+              { name: "mypage.updateButton", url: resumePopup.url() }
+            );
+          }
+          this.recordSelector(
+            "mypage.updateButton",
+            this.selectors.mypage.updateButton,
+            updateButtonSelector
+          );
 
+          releaseDialogs = this.expectDialogs(resumePopup);
           const dialogPromise = resumePopup.waitForEvent("dialog", {
+            predicate: this.isStepDialog,
             timeout: this.timeouts.element,
           });
 
+          await this.options.beforeUpdateClick?.();
+          const updatedAt = new Date();
           await resumePopup.click(updateButtonSelector);
 
           const dialog = await dialogPromise;
@@ -312,6 +891,9 @@ export class JobKoreaService {
             Logger.info(`성공 다이얼로그 확인: "${dialogMessage}"`);
             await dialog.accept();
             Logger.success("경력 정보 업데이트 완료");
+            return shouldVerify
+              ? await this.verifyResumeUpdated(before, updatedAt, resumeId)
+              : null;
           } else {
             const errorMessage = `예상치 못한 다이얼로그 발생: ${dialogMessage}`;
             Logger.error(errorMessage);
@@ -319,22 +901,17 @@ export class JobKoreaService {
             throw new UpdateError(errorMessage);
           }
         } catch (error) {
-          const screenshotPath = `error-update-${Date.now()}.png`;
-
           try {
-            const pageToScreenshot =
-              resumePopup && !resumePopup.isClosed() ? resumePopup : this.page;
-            await pageToScreenshot.screenshot({ path: screenshotPath, fullPage: true });
+            const screenshotPath = await this.saveScreenshot("update", {
+              page: resumePopup && !resumePopup.isClosed() ? resumePopup : this.page,
+            });
             Logger.error(`업데이트 실패. 스크린샷 저장: ${screenshotPath}`);
+            this.options.recorder?.recordArtifact(screenshotPath);
           } catch (screenshotError) {
             Logger.error("스크린샷 저장 실패", screenshotError as Error);
           }
 
-          if (
-            error instanceof UpdateError ||
-            error instanceof NavigationError ||
-            error instanceof AuthenticationError
-          ) {
+          if (error instanceof JobKoreaError) {
             throw error;
           }
           throw new UpdateError(
@@ -342,12 +919,27 @@ export class JobKoreaService {
               error instanceof Error ? error.message : String(error)
             }`
           );
+        } finally {
+          releaseDialogs();
         }
       },
       {
-        maxRetries: this.retryConfig.maxOperationRetries,
+        maxRetries,
+        onAttempt: this.recordAttempt,
         operation: "경력 정보 업데이트",
       }
     );
   }
+
+  /**
+   * 현재 페이지의 스크린샷과 HTML을 저장한다. (snapshot 명령어)
+   */
+  async captureSnapshot(step: string): Promise<string[]> {
+    const timestamp = Date.now();
+    const screenshotPath = await this.saveScreenshot(step, { timestamp, kind: "snapshot" });
+    const htmlPath = await this.saveHtml(step, { timestamp, kind: "snapshot" });
+
+    Logger.info(`스냅샷 저장: ${screenshotPath}, ${htmlPath}`, { url: this.page.url() });
+    return [screenshotPath, htmlPath];
+  }
 }
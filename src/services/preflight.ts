@@ -0,0 +1,273 @@
+// src/services/preflight.ts
+import { lookup } from "dns/promises";
+import * as http from "http";
+import * as net from "net";
+import { performance } from "perf_hooks";
+import * as tls from "tls";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { withRetry } from "../utils/retry";
+import { NETWORK_FAILURE_REASONS, NetworkError } from "../types";
+
+export interface PreflightTimings {
+  dns: number;
+  connect: number;
+  tls?: number;
+  firstByte: number;
+  total: number;
+}
+
+export interface PreflightResult {
+  url: string;
+  remoteAddress: string;
+  status: number;
+  timings: PreflightTimings;
+}
+
+function elapsedSince(start: number): number {
+  return Math.round(performance.now() - start);
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+function timeoutError(phase: string, timeoutMs: number): NetworkError {
+  return new NetworkError(
+    `${phase} 단계가 ${timeoutMs}ms 안에 끝나지 않았습니다.`,
+    NETWORK_FAILURE_REASONS.TIMEOUT,
+    { phase, timeoutMs }
+  );
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  phase: string,
+  onTimeout: () => void
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(timeoutError(phase, timeoutMs));
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 소켓을 만드는 단계의 공통 처리. 단계 제한 시간이 지나거나 signal이 중단되면 소켓을 직접 닫는다.
+ * 연결된 뒤에도 signal이 중단되면(probe 종료, 전체 제한 시간 초과) 소켓을 닫는다.
+ */
+function openSocket<T extends net.Socket>(
+  socket: T,
+  readyEvent: string,
+  phase: string,
+  timeoutMs: number,
+  signal: AbortSignal,
+  toError: (error: Error) => NetworkError
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(timeoutError(phase, timeoutMs));
+    }, timeoutMs);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        socket.destroy();
+        reject(timeoutError(phase, timeoutMs));
+      },
+      { once: true }
+    );
+
+    socket.once(readyEvent, () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once("error", (error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      reject(toError(error));
+    });
+  });
+}
+
+async function resolveHost(hostname: string): Promise<string> {
+  try {
+    const { address } = await lookup(hostname);
+    return address;
+  } catch (error) {
+    throw new NetworkError(`DNS 조회 실패: ${hostname}`, NETWORK_FAILURE_REASONS.DNS, {
+      hostname,
+      errno: errorCode(error),
+    });
+  }
+}
+
+function connectTcp(
+  address: string,
+  port: number,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<net.Socket> {
+  return openSocket(
+    net.connect({ host: address, port }),
+    "connect",
+    "TCP 연결",
+    timeoutMs,
+    signal,
+    (error) =>
+      new NetworkError(`TCP 연결 실패: ${address}:${port}`, NETWORK_FAILURE_REASONS.CONNECT, {
+        address,
+        port,
+        errno: errorCode(error),
+      })
+  );
+}
+
+function negotiateTls(
+  socket: net.Socket,
+  servername: string,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<tls.TLSSocket> {
+  return openSocket(
+    tls.connect({ socket, servername }),
+    "secureConnect",
+    "TLS",
+    timeoutMs,
+    signal,
+    (error) =>
+      new NetworkError(`TLS 핸드셰이크 실패: ${servername}`, NETWORK_FAILURE_REASONS.TLS, {
+        servername,
+        errno: errorCode(error),
+      })
+  );
+}
+
+function requestStatus(socket: net.Socket, target: URL): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(
+      {
+        method: "GET",
+        host: target.hostname,
+        path: `${target.pathname}${target.search}`,
+        headers: {
+          Host: target.host,
+          "Accept-Language": "ko-KR,ko;q=0.9,en;q=0.8",
+          Connection: "close",
+        },
+        createConnection: () => socket,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+
+    request.once("error", (error) => {
+      reject(
+        new NetworkError(`HTTP 요청 실패: ${error.message}`, NETWORK_FAILURE_REASONS.CONNECT, {
+          errno: errorCode(error),
+        })
+      );
+    });
+    request.end();
+  });
+}
+
+async function probeOnce(target: URL): Promise<PreflightResult> {
+  const { connectTimeout, totalTimeout } = configManager.getPreflightConfig();
+  const isHttps = target.protocol === "https:";
+  const port = target.port ? Number(target.port) : isHttps ? 443 : 80;
+  // 제한 시간 초과나 종료 시 아직 연결 중인 소켓까지 닫는다.
+  const controller = new AbortController();
+
+  const run = async (): Promise<PreflightResult> => {
+    const start = performance.now();
+
+    const remoteAddress = await resolveHost(target.hostname);
+    const dns = elapsedSince(start);
+
+    let socket = await connectTcp(remoteAddress, port, connectTimeout, controller.signal);
+    const connect = elapsedSince(start);
+
+    let tlsTime: number | undefined;
+    if (isHttps) {
+      socket = await negotiateTls(socket, target.hostname, connectTimeout, controller.signal);
+      tlsTime = elapsedSince(start);
+    }
+
+    const status = await requestStatus(socket, target);
+    const firstByte = elapsedSince(start);
+    const timings: PreflightTimings = {
+      dns,
+      connect,
+      tls: tlsTime,
+      firstByte,
+      total: elapsedSince(start),
+    };
+
+    if (status >= 400) {
+      throw new NetworkError(`HTTP 상태 코드 이상: ${status}`, NETWORK_FAILURE_REASONS.HTTP_STATUS, {
+        status,
+        timings,
+      });
+    }
+
+    return { url: target.toString(), remoteAddress, status, timings };
+  };
+
+  try {
+    return await withTimeout(run(), totalTimeout, "전체 probe", () => controller.abort());
+  } finally {
+    controller.abort();
+  }
+}
+
+/**
+ * 로그인 URL에 대해 DNS → TCP → TLS → HTTP 순으로 접속을 점검하고 단계별 소요 시간을 기록한다.
+ * 모든 재시도가 실패하면 실패 단계가 분류된 NetworkError를 던진다.
+ */
+export async function runPreflight(
+  url: string = configManager.getUrls().login
+): Promise<PreflightResult> {
+  const { maxRetries } = configManager.getPreflightConfig();
+  const target = new URL(url);
+
+  try {
+    const result = await withRetry(() => probeOnce(target), {
+      maxRetries,
+      operation: "JobKorea 접속 점검",
+    });
+
+    Logger.success(
+      "JobKorea 접속 점검 완료",
+      {
+        url: result.url,
+        remoteAddress: result.remoteAddress,
+        status: result.status,
+        ...result.timings,
+      },
+      "network",
+      result.timings.total
+    );
+    return result;
+  } catch (error) {
+    const networkError =
+      error instanceof NetworkError
+        ? error
+        : new NetworkError(
+            `접속 점검 중 알 수 없는 오류: ${error instanceof Error ? error.message : String(error)}`,
+            NETWORK_FAILURE_REASONS.CONNECT,
+            { url }
+          );
+
+    Logger.error("JobKorea 접속 점검 실패", networkError, networkError.context, "network");
+    throw networkError;
+  }
+}
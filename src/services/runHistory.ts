@@ -0,0 +1,234 @@
+// src/services/runHistory.ts
+import { appendFile, mkdir, readFile } from "fs/promises";
+import * as path from "path";
+import { configManager } from "../config";
+import { getPhrases } from "../notifiers";
+import { SkipReason } from "../types";
+import { Logger } from "../utils/logger";
+import { toKstDateKey } from "../utils/resumeTimestamp";
+import { AccountReport, RunReport } from "./runReport";
+
+export type RunOutcome = "success" | "failure" | "skipped";
+
+// 실행 이력 한 줄 (계정별)
+export interface RunHistoryRecord {
+  runId: string;
+  account: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  outcome: RunOutcome;
+  skipReason?: SkipReason;
+  dryRun: boolean;
+  // 브라우저를 띄워 시도한 횟수 (첫 시도 포함)
+  processAttempts: number;
+  // 단계별 재시도 횟수 합계 (첫 시도 제외)
+  stepRetries: number;
+  resumes: number;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface HistoryStats {
+  total: number;
+  success: number;
+  failure: number;
+  skipped: number;
+  // 건너뛴 실행을 제외한 성공 비율 (실행이 없으면 null)
+  successRate: number | null;
+  averageDurationMs: number | null;
+  averageProcessAttempts: number | null;
+  topErrorCodes: { code: string; count: number }[];
+}
+
+const UNKNOWN_ERROR_CODE = "UNKNOWN";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toRecord(runId: string, dryRun: boolean, account: AccountReport): RunHistoryRecord {
+  const endedAt = account.endedAt ?? new Date().toISOString();
+  const outcome: RunOutcome = account.skipped
+    ? "skipped"
+    : account.success
+      ? "success"
+      : "failure";
+  const code = account.error?.code ?? account.error?.name;
+  const message = account.error?.message;
+
+  return {
+    runId,
+    account: account.label,
+    startedAt: account.startedAt,
+    endedAt,
+    durationMs: Date.parse(endedAt) - Date.parse(account.startedAt),
+    outcome,
+    skipReason: account.skipped,
+    dryRun,
+    processAttempts: account.processAttempts,
+    stepRetries: account.steps.reduce((sum, step) => sum + Math.max(0, step.attempts - 1), 0),
+    resumes: account.resumes.length,
+    errorCode:
+      outcome === "failure" ? (typeof code === "string" ? code : UNKNOWN_ERROR_CODE) : undefined,
+    errorMessage: outcome === "failure" && typeof message === "string" ? message : undefined,
+  };
+}
+
+/**
+ * 실행 결과를 계정별 한 줄씩 JSONL 파일에 덧붙여 보관한다.
+ * Actions 로그가 만료된 뒤에도 성공률과 실패 원인을 확인할 수 있다.
+ */
+export class RunHistoryStore {
+  constructor(private readonly filePath: string) {}
+
+  async append(report: Readonly<RunReport>): Promise<RunHistoryRecord[]> {
+    const records = report.accounts.map(account => toRecord(report.runId, report.dryRun, account));
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(
+        this.filePath,
+        records.map(record => `${JSON.stringify(record)}\n`).join(""),
+        "utf-8"
+      );
+    } catch (error) {
+      Logger.warning("실행 이력 저장 실패", {
+        path: this.filePath,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return records;
+  }
+
+  // 깨진 줄은 건너뛴다. (저장 중 종료되어 마지막 줄이 잘린 경우 등)
+  async read(): Promise<RunHistoryRecord[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch {
+      return [];
+    }
+
+    const records: RunHistoryRecord[] = [];
+    let invalidLines = 0;
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as RunHistoryRecord);
+      } catch {
+        invalidLines++;
+      }
+    }
+
+    if (invalidLines > 0) {
+      Logger.warning(`실행 이력에서 읽을 수 없는 줄 ${invalidLines}개를 건너뜁니다.`, {
+        path: this.filePath,
+      });
+    }
+    return records;
+  }
+}
+
+export function createRunHistoryStore(): RunHistoryStore {
+  return new RunHistoryStore(configManager.getHistoryConfig().path);
+}
+
+function average(values: readonly number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * 실행 이력의 성공률, 평균 소요 시간, 자주 발생한 실패 코드를 계산한다.
+ * 드라이런은 실제 업데이트가 아니므로 제외한다.
+ */
+export function summarizeHistory(
+  records: readonly RunHistoryRecord[],
+  topErrorCount = 3
+): HistoryStats {
+  const runs = records.filter(record => !record.dryRun);
+  const attempted = runs.filter(record => record.outcome !== "skipped");
+  const failures = attempted.filter(record => record.outcome === "failure");
+
+  const errorCounts = new Map<string, number>();
+  for (const failure of failures) {
+    const code = failure.errorCode ?? UNKNOWN_ERROR_CODE;
+    errorCounts.set(code, (errorCounts.get(code) ?? 0) + 1);
+  }
+
+  return {
+    total: runs.length,
+    success: attempted.length - failures.length,
+    failure: failures.length,
+    skipped: runs.length - attempted.length,
+    successRate:
+      attempted.length > 0 ? (attempted.length - failures.length) / attempted.length : null,
+    averageDurationMs: average(attempted.map(record => record.durationMs)),
+    averageProcessAttempts: average(attempted.map(record => record.processAttempts)),
+    topErrorCodes: [...errorCounts.entries()]
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code))
+      .slice(0, topErrorCount),
+  };
+}
+
+export function recordsSince(
+  records: readonly RunHistoryRecord[],
+  days: number,
+  now: Date = new Date()
+): RunHistoryRecord[] {
+  const since = now.getTime() - days * DAY_MS;
+  return records.filter(record => Date.parse(record.startedAt) >= since);
+}
+
+// 가장 최근 실행의 계정별 기록 (드라이런 포함)
+export function lastRunRecords(records: readonly RunHistoryRecord[]): RunHistoryRecord[] {
+  const lastRunId = records[records.length - 1]?.runId;
+  return records.filter(record => record.runId === lastRunId);
+}
+
+// 월요일 시작 주의 첫날 (KST, YYYY-MM-DD)
+function kstWeekKey(date: Date): string {
+  const kstWeekday = new Date(date.getTime() + 9 * 60 * 60 * 1000).getUTCDay();
+  const daysSinceMonday = (kstWeekday + 6) % 7;
+  return toKstDateKey(new Date(date.getTime() - daysSinceMonday * DAY_MS));
+}
+
+/**
+ * 이전 실행이 지난주(월요일 시작, KST)였다면 이번 실행이 이번 주 첫 실행이다.
+ * 이력이 처음 생기는 실행에서는 요약할 내용이 없으므로 false.
+ */
+export function isFirstRunOfWeek(
+  previous: readonly RunHistoryRecord[],
+  now: Date = new Date()
+): boolean {
+  const runs = previous.filter(record => !record.dryRun);
+  if (runs.length === 0) {
+    return false;
+  }
+  const lastStartedAt = new Date(runs[runs.length - 1].startedAt);
+  return kstWeekKey(lastStartedAt) !== kstWeekKey(now);
+}
+
+/**
+ * stats 명령어와 주간 요약 알림에서 함께 쓰는 요약 문구. (messages.locale 언어)
+ */
+export function describeStats(stats: HistoryStats): string[] {
+  const phrases = getPhrases().history;
+  if (stats.total === 0) {
+    return [phrases.empty];
+  }
+
+  const lines = [
+    phrases.runs(stats.total, phrases.outcomes(stats.success, stats.failure, stats.skipped)),
+  ];
+  if (stats.successRate !== null) {
+    const rate = (stats.successRate * 100).toFixed(1);
+    const duration = phrases.duration(Math.round((stats.averageDurationMs ?? 0) / 1000));
+    const attempts = (stats.averageProcessAttempts ?? 0).toFixed(1);
+    lines.push(phrases.rates(rate, duration, attempts));
+  }
+  if (stats.topErrorCodes.length > 0) {
+    const errors = stats.topErrorCodes.map(({ code, count }) => phrases.errorCount(code, count));
+    lines.push(phrases.topErrors(errors.join(", ")));
+  }
+  return lines;
+}
@@ -0,0 +1,215 @@
+// src/services/runReport.ts
+import { randomUUID } from "crypto";
+import { writeFile } from "fs/promises";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { JobKoreaError, ResumeOutcome, SkipReason, StepName } from "../types";
+
+export interface StepRecord {
+  name: StepName;
+  processAttempt: number;
+  startedAt: string;
+  endedAt?: string;
+  attempts: number;
+  success?: boolean;
+  error?: string;
+}
+
+export interface SelectorMatch {
+  name: string;
+  selector: string;
+  index: number;
+  matchedAt: string;
+}
+
+export interface ResumeReport {
+  id: string;
+  title: string;
+  success: boolean;
+  skipped?: boolean;
+  // 업데이트 후 확인한 최종수정일 (건너뛴 경우 현재 최종수정일)
+  updatedAt?: { raw: string; iso?: string };
+  error?: Record<string, unknown>;
+}
+
+export interface AccountReport {
+  label: string;
+  startedAt: string;
+  endedAt?: string;
+  success?: boolean;
+  // 업데이트하지 않고 건너뛴 이유
+  skipped?: SkipReason;
+  processAttempts: number;
+  steps: StepRecord[];
+  selectors: SelectorMatch[];
+  artifacts: string[];
+  // 이력서별 업데이트 결과
+  resumes: ResumeReport[];
+  error?: Record<string, unknown>;
+}
+
+export interface RunReport {
+  runId: string;
+  // 업데이트 버튼을 클릭하지 않은 드라이런 실행인지
+  dryRun: boolean;
+  startedAt: string;
+  endedAt?: string;
+  success?: boolean;
+  accounts: AccountReport[];
+}
+
+function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof JobKoreaError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * 한 계정의 실행 과정을 기록한다.
+ * 단계는 순차 실행되므로 시도 횟수는 현재 진행 중인 단계에 누적한다.
+ */
+export class AccountRecorder {
+  private currentStep: StepRecord | null = null;
+
+  constructor(private readonly report: AccountReport) {}
+
+  startProcessAttempt(attempt: number): void {
+    this.report.processAttempts = attempt;
+  }
+
+  async step<T>(name: StepName, fn: () => Promise<T>): Promise<T> {
+    const record: StepRecord = {
+      name,
+      processAttempt: this.report.processAttempts,
+      startedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    this.report.steps.push(record);
+    this.currentStep = record;
+
+    try {
+      const result = await fn();
+      record.success = true;
+      return result;
+    } catch (error) {
+      record.success = false;
+      record.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      record.endedAt = new Date().toISOString();
+      // withRetry를 쓰지 않는 단계는 1회 시도로 기록
+      record.attempts = Math.max(record.attempts, 1);
+      this.currentStep = null;
+    }
+  }
+
+  recordAttempt(attempt: number): void {
+    if (this.currentStep) {
+      this.currentStep.attempts = attempt;
+    }
+  }
+
+  recordSelector(name: string, selector: string, index: number): void {
+    this.report.selectors.push({ name, selector, index, matchedAt: new Date().toISOString() });
+  }
+
+  getSelectorMatches(): readonly SelectorMatch[] {
+    return this.report.selectors;
+  }
+
+  recordResumeOutcomes(outcomes: readonly ResumeOutcome[]): void {
+    this.report.resumes = outcomes.map(outcome => ({
+      id: outcome.id,
+      title: outcome.title,
+      success: outcome.success,
+      skipped: outcome.skipped,
+      updatedAt: outcome.updatedAt
+        ? { raw: outcome.updatedAt, iso: outcome.updatedAtIso }
+        : undefined,
+      error: outcome.error !== undefined ? serializeError(outcome.error) : undefined,
+    }));
+  }
+
+  recordArtifact(path: string): void {
+    this.report.artifacts.push(path);
+  }
+
+  getArtifacts(): readonly string[] {
+    return this.report.artifacts;
+  }
+
+  // 마지막으로 실패한 단계 (없으면 undefined)
+  getFailedStep(): StepName | undefined {
+    return [...this.report.steps].reverse().find(step => step.success === false)?.name;
+  }
+
+  markSkipped(reason: SkipReason): void {
+    this.report.skipped = reason;
+  }
+
+  finish(success: boolean, error?: unknown): void {
+    this.report.endedAt = new Date().toISOString();
+    this.report.success = success;
+    if (error !== undefined) {
+      this.report.error = serializeError(error);
+    }
+  }
+}
+
+export class RunReporter {
+  private readonly report: RunReport;
+
+  constructor(options: { dryRun?: boolean } = {}) {
+    this.report = {
+      runId: randomUUID(),
+      dryRun: options.dryRun ?? false,
+      startedAt: new Date().toISOString(),
+      accounts: [],
+    };
+  }
+
+  get runId(): string {
+    return this.report.runId;
+  }
+
+  getReport(): Readonly<RunReport> {
+    return this.report;
+  }
+
+  startAccount(label: string): AccountRecorder {
+    const accountReport: AccountReport = {
+      label,
+      startedAt: new Date().toISOString(),
+      processAttempts: 0,
+      steps: [],
+      selectors: [],
+      artifacts: [],
+      resumes: [],
+    };
+    this.report.accounts.push(accountReport);
+    return new AccountRecorder(accountReport);
+  }
+
+  // 리포트 저장 실패는 실행 결과에 영향을 주지 않는다.
+  async write(): Promise<string | null> {
+    const { path } = configManager.getReportConfig();
+    this.report.endedAt = new Date().toISOString();
+    this.report.success = this.report.accounts.every(account => account.success === true);
+
+    try {
+      await writeFile(path, JSON.stringify(this.report, null, 2), "utf-8");
+      Logger.info(`실행 리포트 저장: ${path}`, { runId: this.report.runId });
+      return path;
+    } catch (error) {
+      Logger.warning("실행 리포트 저장 실패", {
+        path,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+// src/services/scheduler.ts
+import { readFile } from "fs/promises";
+import { configManager } from "../config";
+import { CronSchedule, nextCronTime, parseCron } from "../utils/cron";
+import { Logger } from "../utils/logger";
+import { toKstDateKey } from "../utils/resumeTimestamp";
+
+export interface PlannedRun {
+  // cron 식에 맞는 시각
+  scheduledAt: Date;
+  // 지연(jitter)을 더한 실제 실행 시각
+  runAt: Date;
+}
+
+// 모든 날짜가 건너뛰기 대상인 설정에서 무한 반복하지 않도록 제한
+const MAX_SKIPPED_SLOTS = 1000;
+
+// 긴 대기도 나눠서 기다려 절전/시계 변경 후에도 실행 시각을 다시 확인한다.
+const MAX_SLEEP_MS = 60 * 60 * 1000;
+
+function formatKst(date: Date): string {
+  return date.toLocaleString("ko-KR", { timeZone: "Asia/Seoul" });
+}
+
+function kstWeekday(date: Date): number {
+  return new Date(date.getTime() + 9 * 60 * 60 * 1000).getUTCDay();
+}
+
+/**
+ * 설정된 cron 식을 모두 해석한다. 잘못된 식이 있으면 식별 가능한 오류 목록을 반환한다.
+ */
+export function parseSchedules(expressions: readonly string[]): {
+  schedules: CronSchedule[];
+  errors: string[];
+} {
+  const schedules: CronSchedule[] = [];
+  const errors: string[] = [];
+  for (const expression of expressions) {
+    try {
+      schedules.push(parseCron(expression));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (expressions.length === 0) {
+    errors.push("schedule.cron: 실행 일정이 하나 이상 필요합니다.");
+  }
+  return { schedules, errors };
+}
+
+// 공휴일 파일: 한 줄에 YYYY-MM-DD 하나, # 뒤는 주석
+async function readHolidaysFile(filePath: string): Promise<string[]> {
+  try {
+    const text = await readFile(filePath, "utf-8");
+    return text
+      .split(/\r?\n/)
+      .map(line => line.replace(/#.*/, "").trim())
+      .filter(line => /^\d{4}-\d{2}-\d{2}$/.test(line));
+  } catch (error) {
+    Logger.warning("공휴일 파일을 읽을 수 없습니다. 공휴일 없이 진행합니다.", {
+      path: filePath,
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * 예약 시각 순서대로 실행을 반복한다. 실행 중 오류가 나도 다음 일정까지 기다린다.
+ */
+export class DaemonScheduler {
+  private readonly config = configManager.getScheduleConfig();
+  private stopped = false;
+  private timer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private readonly schedules: readonly CronSchedule[],
+    private readonly task: () => Promise<void>
+  ) {}
+
+  // 주말/건너뛸 날짜이면 그 이유를 반환한다.
+  private skipReason(date: Date, skipDates: ReadonlySet<string>): string | null {
+    const weekday = kstWeekday(date);
+    if (this.config.skipWeekends && (weekday === 0 || weekday === 6)) {
+      return "주말";
+    }
+    if (skipDates.has(toKstDateKey(date))) {
+      return "건너뛸 날짜";
+    }
+    return null;
+  }
+
+  /**
+   * after 이후 가장 가까운 예약 시각을 찾는다. 건너뛸 날짜는 제외하고 지연을 더한다.
+   * 공휴일 파일은 매번 다시 읽어 데몬을 재시작하지 않아도 반영된다.
+   */
+  async planNextRun(after: Date): Promise<PlannedRun> {
+    const { holidaysFile, jitterMinutes } = this.config;
+    const skipDates = new Set([
+      ...this.config.skipDates,
+      ...(holidaysFile ? await readHolidaysFile(holidaysFile) : []),
+    ]);
+
+    let cursor = after;
+    for (let skipped = 0; skipped < MAX_SKIPPED_SLOTS; skipped++) {
+      const scheduledAt = this.schedules
+        .map(schedule => nextCronTime(schedule, cursor))
+        .reduce((earliest, time) => (time < earliest ? time : earliest));
+
+      const reason = this.skipReason(scheduledAt, skipDates);
+      if (!reason) {
+        const jitterMs = Math.round(Math.random() * jitterMinutes * 60 * 1000);
+        return { scheduledAt, runAt: new Date(scheduledAt.getTime() + jitterMs) };
+      }
+
+      Logger.info(`${formatKst(scheduledAt)} 실행 건너뜀 (${reason})`);
+      cursor = scheduledAt;
+    }
+
+    throw new Error("건너뛸 날짜를 제외하면 실행할 일정이 없습니다.");
+  }
+
+  private async sleepUntil(time: Date): Promise<void> {
+    while (!this.stopped) {
+      const remaining = time.getTime() - Date.now();
+      if (remaining <= 0) {
+        return;
+      }
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+        this.timer = setTimeout(resolve, Math.min(remaining, MAX_SLEEP_MS));
+      });
+      this.wake = null;
+      this.timer = null;
+    }
+  }
+
+  async start(): Promise<void> {
+    Logger.info(
+      `데몬 시작 (일정: ${this.schedules.map(schedule => schedule.expression).join(", ")} KST, ` +
+        `지연 0~${this.config.jitterMinutes}분)`
+    );
+
+    while (!this.stopped) {
+      const { scheduledAt, runAt } = await this.planNextRun(new Date());
+      Logger.info(`다음 실행: ${formatKst(runAt)} (예약 ${formatKst(scheduledAt)})`);
+
+      await this.sleepUntil(runAt);
+      if (this.stopped) {
+        break;
+      }
+
+      try {
+        await this.task();
+      } catch (error) {
+        Logger.error(
+          "예약 실행 중 오류 발생. 다음 일정까지 기다립니다.",
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    Logger.info("데몬 종료");
+  }
+
+  // 대기 중이면 바로 종료하고, 실행 중이면 현재 실행이 끝난 뒤 종료한다.
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.wake?.();
+  }
+}
@@ -0,0 +1,134 @@
+// src/services/selectorHistory.ts
+import { mkdir, readFile, writeFile } from "fs/promises";
+import * as path from "path";
+import { configManager } from "../config";
+import { Logger } from "../utils/logger";
+import { SelectorMatch } from "./runReport";
+
+export interface SelectorHistoryEntry {
+  runId: string;
+  account: string;
+  name: string;
+  selector: string;
+  index: number;
+  matchedAt: string;
+}
+
+// 셀렉터 이력 파일 형식. last는 계정별, 셀렉터 이름별 가장 최근 매칭
+interface SelectorHistoryFile {
+  version: 1;
+  last: Record<string, Record<string, SelectorHistoryEntry>>;
+  entries: SelectorHistoryEntry[];
+}
+
+export interface SelectorDrift {
+  // fallback: 1순위가 아닌 셀렉터로 매칭, changed: 이전 실행과 다른 셀렉터로 매칭
+  kind: "fallback" | "changed";
+  account: string;
+  name: string;
+  selector: string;
+  index: number;
+  previousSelector?: string;
+}
+
+function emptyHistory(): SelectorHistoryFile {
+  return { version: 1, last: {}, entries: [] };
+}
+
+/**
+ * 셀렉터 매칭 결과를 실행 간에 보관해 셀렉터가 낡아가는 것을 미리 감지한다.
+ * 이력 파일을 읽거나 쓰지 못해도 업데이트 결과에는 영향을 주지 않는다.
+ */
+export class SelectorHistoryStore {
+  private history: SelectorHistoryFile = emptyHistory();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxEntries: number
+  ) {}
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch {
+      Logger.info("셀렉터 이력이 없습니다. 이번 실행부터 기록합니다.");
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as SelectorHistoryFile;
+      if (parsed.version !== 1) {
+        throw new Error(`지원하지 않는 셀렉터 이력 버전: ${(parsed as { version: unknown }).version}`);
+      }
+      this.history = parsed;
+    } catch (error) {
+      Logger.warning("셀렉터 이력을 읽을 수 없어 새로 기록합니다.", {
+        path: this.filePath,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 이번 실행의 매칭 결과를 같은 계정의 마지막 매칭과 비교한다.
+   * 계정마다 화면(이력서 수, 팝업 등)이 달라 다른 계정의 매칭과는 비교하지 않는다.
+   * record() 전에 호출해야 이전 실행과 비교된다.
+   */
+  detectDrift(account: string, matches: readonly SelectorMatch[]): SelectorDrift[] {
+    const drifts: SelectorDrift[] = [];
+    const last = this.history.last[account] ?? {};
+
+    for (const match of matches) {
+      const previous = last[match.name];
+      const drift = { account, name: match.name, selector: match.selector, index: match.index };
+
+      if (match.index > 0) {
+        drifts.push({ kind: "fallback", ...drift });
+      }
+      if (previous && previous.selector !== match.selector) {
+        drifts.push({ kind: "changed", ...drift, previousSelector: previous.selector });
+      }
+    }
+
+    return drifts;
+  }
+
+  record(runId: string, account: string, matches: readonly SelectorMatch[]): void {
+    const last = (this.history.last[account] ??= {});
+    for (const match of matches) {
+      const entry: SelectorHistoryEntry = {
+        runId,
+        account,
+        name: match.name,
+        selector: match.selector,
+        index: match.index,
+        matchedAt: match.matchedAt,
+      };
+      last[match.name] = entry;
+      this.history.entries.push(entry);
+    }
+
+    // 오래된 기록부터 버려 파일 크기를 제한
+    if (this.history.entries.length > this.maxEntries) {
+      this.history.entries = this.history.entries.slice(-this.maxEntries);
+    }
+  }
+
+  async save(): Promise<void> {
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(this.filePath, JSON.stringify(this.history, null, 2), "utf-8");
+    } catch (error) {
+      Logger.warning("셀렉터 이력 저장 실패", {
+        path: this.filePath,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export function createSelectorHistoryStore(): SelectorHistoryStore {
+  const { path: filePath, maxEntries } = configManager.getSelectorHistoryConfig();
+  return new SelectorHistoryStore(filePath, maxEntries);
+}
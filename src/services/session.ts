@@ -0,0 +1,98 @@
+// src/services/session.ts
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import * as path from "path";
+import { BrowserContext } from "playwright";
+import { configManager } from "../config";
+import { readCredential } from "../config/credentials";
+import { Account } from "../types";
+import { decryptText, encryptText } from "../utils/encryption";
+import { Logger } from "../utils/logger";
+
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+export interface SessionStateStore {
+  load(): Promise<StorageState | null>;
+  save(state: StorageState): Promise<void>;
+}
+
+/**
+ * 같은 실행 안에서 브라우저 재시작 사이에만 세션을 유지하는 저장소.
+ * 디스크에 쓰지 않으므로 암호화 키가 없어도 사용할 수 있다.
+ */
+export class MemorySessionStore implements SessionStateStore {
+  private state: StorageState | null = null;
+
+  async load(): Promise<StorageState | null> {
+    return this.state;
+  }
+
+  async save(state: StorageState): Promise<void> {
+    this.state = state;
+  }
+}
+
+/**
+ * Playwright storageState를 AES-256-GCM으로 암호화해 디스크에 보관한다.
+ * 세션 쿠키가 들어있으므로 평문으로는 절대 저장하지 않는다.
+ */
+export class SessionStore implements SessionStateStore {
+  constructor(
+    private readonly filePath: string,
+    private readonly secret: string
+  ) {}
+
+  async load(): Promise<StorageState | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch {
+      Logger.info("저장된 세션이 없습니다. 전체 로그인을 진행합니다.");
+      return null;
+    }
+
+    try {
+      return JSON.parse(decryptText(raw, this.secret)) as StorageState;
+    } catch (error) {
+      Logger.warning("저장된 세션을 복호화할 수 없습니다. 전체 로그인을 진행합니다.", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  async save(state: StorageState): Promise<void> {
+    const file = encryptText(JSON.stringify(state), this.secret);
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(file), { encoding: "utf-8", mode: 0o600 });
+    Logger.info("세션 상태 저장 완료 (암호화됨)");
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
+
+/**
+ * 세션 파일 이름. label은 파일명으로 바꾸면 서로 겹칠 수 있어(예: "개발", "운영") 계정 ID의 해시를 쓴다.
+ * 다른 계정의 쿠키를 불러오면 그 계정의 이력서를 갱신하게 되므로 겹치지 않아야 한다.
+ */
+function sessionFileName(account: Account): string {
+  const hash = createHash("sha256").update(account.jobkoreaId).digest("hex").slice(0, 16);
+  return `storage-state-${hash}.enc`;
+}
+
+/**
+ * SESSION_ENCRYPTION_KEY가 설정된 경우 계정별 암호화 SessionStore를 만든다.
+ * 키가 없으면 실행 간에는 세션을 재사용하지 않고, 브라우저 재시작 사이에만 메모리로 유지한다.
+ */
+export function createSessionStore(account: Account): SessionStateStore {
+  const secret = readCredential("SESSION_ENCRYPTION_KEY");
+  if (!secret) {
+    return new MemorySessionStore();
+  }
+
+  const { stateDir } = configManager.getSessionConfig();
+  return new SessionStore(path.join(stateDir, sessionFileName(account)), secret);
+}
@@ -0,0 +1,194 @@
+// src/services/telegramBot.ts
+import { configManager } from "../config";
+import { escapeHtml, getPhrases } from "../notifiers";
+import {
+  getTelegramUpdates,
+  sendTelegramFile,
+  sendTelegramMessage,
+  TelegramUpdate,
+} from "../notify";
+import { JobQueue } from "../utils/jobQueue";
+import { Logger } from "../utils/logger";
+
+export type BotReply = { text: string } | { photo: string; caption: string };
+
+// 브라우저를 쓰는 명령어는 JobQueue로 하나씩 실행한다.
+export interface BotCommandHandlers {
+  update(): Promise<BotReply[]>;
+  dryrun(): Promise<BotReply[]>;
+  snapshot(): Promise<BotReply[]>;
+  status(running: string | null): Promise<BotReply[]>;
+}
+
+const QUEUED_COMMANDS = ["update", "dryrun", "snapshot"] as const;
+
+type QueuedCommand = typeof QUEUED_COMMANDS[number];
+
+function isQueuedCommand(command: string): command is QueuedCommand {
+  return (QUEUED_COMMANDS as readonly string[]).includes(command);
+}
+
+// 봇이 꺼져 있는 동안 쌓인 오래된 명령어는 실행하지 않는다.
+const STALE_MESSAGE_MS = 60 * 1000;
+
+// getUpdates 응답이 오지 않을 때를 대비해 롱 폴링 시간보다 조금 더 기다린다.
+const POLL_GRACE_MS = 10 * 1000;
+
+// "/update@MyJobKoreaBot" → "update"
+function parseCommand(text: string): string | null {
+  const match = text.trim().match(/^\/([a-z]+)(?:@\S+)?(?:\s|$)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * getUpdates 롱 폴링으로 TELEGRAM_CHAT_ID 채팅의 명령어를 받아 처리한다.
+ * 다른 채팅에서 온 메시지는 응답하지 않고 무시한다.
+ */
+export class TelegramBot {
+  private readonly config = configManager.getTelegramBotConfig();
+  private readonly startedAt = Date.now();
+  private offset = 0;
+  private stopped = false;
+  private abortController: AbortController | null = null;
+
+  constructor(
+    private readonly token: string,
+    private readonly chatId: string,
+    private readonly handlers: BotCommandHandlers,
+    private readonly queue: JobQueue
+  ) {}
+
+  private async reply(replies: readonly BotReply[]): Promise<void> {
+    for (const reply of replies) {
+      try {
+        if ("photo" in reply) {
+          await sendTelegramFile(
+            this.token,
+            this.chatId,
+            "sendPhoto",
+            "photo",
+            reply.photo,
+            reply.caption
+          );
+        } else {
+          await sendTelegramMessage(this.token, this.chatId, reply.text);
+        }
+      } catch (error) {
+        Logger.warning("Telegram 봇 응답 전송 실패", {
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private runQueued(command: QueuedCommand): void {
+    const phrases = getPhrases().bot;
+    const name = phrases.commands[command];
+    const running = this.queue.running;
+    const notice = running ? phrases.queued(running, name) : phrases.started(name);
+
+    void this.reply([{ text: notice }])
+      .then(() => this.queue.run(name, () => this.handlers[command]()))
+      .then(replies => this.reply(replies))
+      .catch(error => {
+        Logger.error(`봇 명령어 처리 실패: /${command}`, error instanceof Error ? error : undefined);
+        const reason = error instanceof Error ? error.message : String(error);
+        return this.reply([{ text: phrases.failed(name, escapeHtml(reason)) }]);
+      });
+  }
+
+  private async handleUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message;
+    if (!message?.text) {
+      return;
+    }
+
+    if (String(message.chat.id) !== this.chatId) {
+      Logger.warning("허용되지 않은 채팅의 봇 명령어를 무시합니다.", { chatId: message.chat.id });
+      return;
+    }
+
+    const command = parseCommand(message.text);
+    if (!command) {
+      return;
+    }
+
+    if (message.date * 1000 < this.startedAt - STALE_MESSAGE_MS) {
+      Logger.info(`봇 시작 전에 보낸 명령어를 무시합니다: /${command}`);
+      return;
+    }
+
+    Logger.info(`봇 명령어 수신: /${command}`);
+    if (command === "status") {
+      await this.reply(await this.handlers.status(this.queue.running));
+    } else if (isQueuedCommand(command)) {
+      this.runQueued(command);
+    } else {
+      await this.reply([{ text: getPhrases().bot.help }]);
+    }
+  }
+
+  async pollOnce(): Promise<void> {
+    const { pollTimeoutSeconds } = this.config;
+    this.abortController = new AbortController();
+    const timer = setTimeout(
+      () => this.abortController?.abort(),
+      pollTimeoutSeconds * 1000 + POLL_GRACE_MS
+    );
+
+    let updates: TelegramUpdate[];
+    try {
+      updates = await getTelegramUpdates(
+        this.token,
+        this.offset,
+        pollTimeoutSeconds,
+        this.abortController.signal
+      );
+    } finally {
+      clearTimeout(timer);
+      this.abortController = null;
+    }
+
+    for (const update of updates) {
+      this.offset = update.update_id + 1;
+      await this.handleUpdate(update);
+    }
+  }
+
+  /**
+   * stop()을 호출할 때까지 명령어를 받는다. 조회 실패는 백오프 후 다시 시도한다.
+   */
+  async start(): Promise<void> {
+    const retryConfig = configManager.getRetryConfig();
+    Logger.info("Telegram 봇 명령어 대기 시작 (/update, /status, /dryrun, /snapshot)");
+
+    let failures = 0;
+    while (!this.stopped) {
+      try {
+        await this.pollOnce();
+        failures = 0;
+      } catch (error) {
+        if (this.stopped) {
+          break;
+        }
+        failures++;
+        const delayMs = Math.min(
+          retryConfig.baseDelay * Math.pow(retryConfig.backoffMultiplier, failures - 1),
+          retryConfig.maxDelay
+        );
+        Logger.warning("Telegram 명령어 조회 실패. 잠시 후 다시 시도합니다.", {
+          reason: error instanceof Error ? error.message : String(error),
+          delayMs,
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+
+    Logger.info("Telegram 봇 종료");
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.abortController?.abort();
+  }
+}
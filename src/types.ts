@@ -1,30 +1,196 @@
-// 기본 설정 타입
-export interface Config {
+// 계정 타입 (label은 알림/아티팩트 구분용)
+export interface Account {
+  readonly label: string;
   readonly jobkoreaId: string;
   readonly jobkoreaPwd: string;
+}
+
+// 알림 채널 타입
+export type NotifierChannel = "telegram" | "slack" | "discord" | "webhook" | "email";
+
+export const NOTIFIER_CHANNELS: readonly NotifierChannel[] = [
+  "telegram",
+  "slack",
+  "discord",
+  "webhook",
+  "email",
+];
+
+// Telegram 메시지 형식
+export type TelegramParseMode = "HTML" | "MarkdownV2";
+
+export const TELEGRAM_PARSE_MODES: readonly TelegramParseMode[] = ["HTML", "MarkdownV2"];
+
+// 알림 문구 언어
+export type MessageLocale = "ko" | "en";
+
+export const MESSAGE_LOCALES: readonly MessageLocale[] = ["ko", "en"];
+
+// 알림 템플릿 이벤트 (summary는 여러 계정 결과의 머리말)
+export type MessageEvent = "success" | "failure" | "retry" | "skipped" | "dryRun" | "summary";
+
+export const MESSAGE_EVENTS: readonly MessageEvent[] = [
+  "success",
+  "failure",
+  "retry",
+  "skipped",
+  "dryRun",
+  "summary",
+];
+
+// 템플릿에서 쓸 수 있는 자리표시자 ({date} 등)
+export const MESSAGE_PLACEHOLDERS = [
+  "date",
+  "time",
+  "account",
+  "status",
+  "reason",
+  "error",
+  "errorCode",
+  "retryCount",
+  "attempt",
+  "maxAttempts",
+  "resumeUpdatedAt",
+  "resumes",
+  "suggestion",
+  "recordings",
+  "selectors",
+  "successCount",
+  "total",
+] as const;
+
+export type MessagePlaceholder = (typeof MESSAGE_PLACEHOLDERS)[number];
+
+// 방해 요소(팝업, 다이얼로그, 오버레이) 처리 방법
+export type InterruptionAction = "accept" | "dismiss" | "click" | "remove" | "fail";
+
+export const INTERRUPTION_ACTIONS: readonly InterruptionAction[] = [
+  "accept",
+  "dismiss",
+  "click",
+  "remove",
+  "fail",
+];
+
+// 방해 요소 처리 규칙. popupUrl, popupSelector, dialogMessage, overlay 중 하나로 대상을 찾는다.
+export interface InterruptionRule {
+  readonly name: string;
+  // 팝업 URL 정규식 (대소문자 무시)
+  readonly popupUrl?: string;
+  // 팝업 안에 있는 요소의 CSS 셀렉터 (URL과 관계없이 요소가 있는 팝업)
+  readonly popupSelector?: string;
+  // 다이얼로그 문구 정규식
+  readonly dialogMessage?: string;
+  // 오버레이 CSS 셀렉터
+  readonly overlay?: string;
+  readonly action: InterruptionAction;
+  // click: 누를 요소의 셀렉터 (팝업 또는 오버레이가 뜬 페이지 안)
+  readonly selector?: string;
+  // fail: 실패로 기록할 오류 코드
+  readonly code?: ErrorCode;
+}
+
+export interface SmtpSettings {
+  readonly host: string;
+  readonly port: number;
+  readonly secure: boolean;
+  readonly user?: string;
+  readonly pass?: string;
+  readonly from: string;
+  readonly to: readonly string[];
+}
+
+// 채널별 접속 정보 (비밀값 포함)
+export interface NotifierSettings {
+  readonly slackWebhookUrl?: string;
+  readonly discordWebhookUrl?: string;
+  readonly webhookUrl?: string;
+  readonly smtp?: SmtpSettings;
+}
+
+// 기본 설정 타입
+export interface Config {
+  readonly accounts: readonly Account[];
   readonly telegramToken: string;
   readonly telegramChatId: string;
+  readonly notifiers?: NotifierSettings;
+}
+
+// 이력서별 업데이트 결과
+export interface ResumeOutcome {
+  readonly id: string;
+  readonly title: string;
+  readonly success: boolean;
+  // 최근에 업데이트되어 건너뛴 경우 (success도 true)
+  readonly skipped?: boolean;
+  // 업데이트 후 확인한 최종수정일 (건너뛴 경우 현재 최종수정일)
+  readonly updatedAt?: string;
+  readonly updatedAtIso?: string;
+  readonly error?: unknown;
+}
+
+// 계정을 업데이트하지 않고 건너뛴 이유
+// recentlyUpdated: 모든 대상 이력서가 최소 업데이트 간격 안에 수정됨
+// dailyQuota: 오늘(KST) 시도 횟수가 일일 한도에 도달
+export type SkipReason = "recentlyUpdated" | "dailyQuota";
+
+// 계정별 실행 결과
+export interface AccountResult {
+  readonly account: Account;
+  readonly success: boolean;
+  readonly skipped?: SkipReason;
+  readonly retryCount: number;
+  readonly error?: unknown;
+  readonly resumes?: readonly ResumeOutcome[];
+  // 실패한 시도의 trace/HAR/동영상 파일
+  readonly recordings?: readonly string[];
 }
 
 // 런타임 타입 가드
+export function isValidAccount(account: unknown): account is Account {
+  return (
+    typeof account === "object" &&
+    account !== null &&
+    typeof (account as Account).label === "string" &&
+    typeof (account as Account).jobkoreaId === "string" &&
+    typeof (account as Account).jobkoreaPwd === "string" &&
+    (account as Account).label.length > 0 &&
+    (account as Account).jobkoreaId.length > 0 &&
+    (account as Account).jobkoreaPwd.length > 0
+  );
+}
+
 export function isValidConfig(config: unknown): config is Config {
   return (
     typeof config === "object" &&
     config !== null &&
-    typeof (config as Config).jobkoreaId === "string" &&
-    typeof (config as Config).jobkoreaPwd === "string" &&
+    Array.isArray((config as Config).accounts) &&
+    (config as Config).accounts.length > 0 &&
+    (config as Config).accounts.every(isValidAccount) &&
     typeof (config as Config).telegramToken === "string" &&
-    typeof (config as Config).telegramChatId === "string" &&
-    (config as Config).jobkoreaId.length > 0 &&
-    (config as Config).jobkoreaPwd.length > 0 &&
-    (config as Config).telegramToken.length > 0 &&
-    (config as Config).telegramChatId.length > 0
+    typeof (config as Config).telegramChatId === "string"
   );
 }
 
 // 로그 레벨 타입
 export type LogLevel = "error" | "warn" | "info" | "debug";
 
+// 이력서 업데이트 단계 이름
+export type StepName =
+  | "navigateToLoginPage"
+  | "login"
+  | "handleLoginPopup"
+  | "navigateToMypage"
+  | "updateCareerInfo";
+
+export const STEP_NAMES: readonly StepName[] = [
+  "navigateToLoginPage",
+  "login",
+  "handleLoginPopup",
+  "navigateToMypage",
+  "updateCareerInfo",
+];
+
 // 작업 타입
 export type OperationType = "navigation" | "element" | "popup" | "network";
 
@@ -33,24 +199,78 @@ export const ERROR_CODES = {
   AUTH_ERROR: "AUTH_ERROR",
   NAVIGATION_ERROR: "NAVIGATION_ERROR",
   UPDATE_ERROR: "UPDATE_ERROR",
+  NETWORK_ERROR: "NETWORK_ERROR",
+  CREDENTIALS_REJECTED: "CREDENTIALS_REJECTED",
+  CAPTCHA_REQUIRED: "CAPTCHA_REQUIRED",
+  ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
+  ACCOUNT_DORMANT: "ACCOUNT_DORMANT",
+  VERIFICATION_REQUIRED: "VERIFICATION_REQUIRED",
+  SELECTOR_DRIFT: "SELECTOR_DRIFT",
+  SITE_MAINTENANCE: "SITE_MAINTENANCE",
+  CONFIG_ERROR: "CONFIG_ERROR",
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
 
+// 오류 심각도 (critical은 사람이 조치해야 다음 실행도 성공할 수 있는 오류)
+export type ErrorSeverity = "warning" | "error" | "critical";
+
+// 오류 클래스별 재시도 정책
+export interface ErrorPolicy {
+  // false면 단계 재시도와 브라우저 재시작 재시도를 모두 하지 않는다.
+  readonly retryable: boolean;
+  readonly severity: ErrorSeverity;
+}
+
+const DEFAULT_ERROR_POLICY: ErrorPolicy = { retryable: true, severity: "error" };
+
+// 네트워크 실패 분류 (preflight probe)
+export const NETWORK_FAILURE_REASONS = {
+  DNS: "DNS",
+  CONNECT: "CONNECT",
+  TLS: "TLS",
+  HTTP_STATUS: "HTTP_STATUS",
+  TIMEOUT: "TIMEOUT",
+} as const;
+
+export type NetworkFailureReason =
+  typeof NETWORK_FAILURE_REASONS[keyof typeof NETWORK_FAILURE_REASONS];
+
+// 프로세스 종료 코드 (README의 CLI 종료 코드 표와 함께 관리)
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  // 업데이트/로그인/스냅샷 등 작업 자체가 실패
+  FAILURE: 1,
+  // 알 수 없는 명령어나 잘못된 옵션
+  USAGE: 2,
+  SITE_UNREACHABLE: 3,
+  // 설정 파일, 환경변수, 계정 정보 검증 실패
+  CONFIG_INVALID: 4,
+  // check-config의 테스트 알림 전송 실패
+  NOTIFICATION_FAILED: 5,
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
 // 강화된 에러 클래스
 export class JobKoreaError extends Error {
   public readonly timestamp: number;
   public readonly context?: Record<string, unknown>;
+  public readonly retryable: boolean;
+  public readonly severity: ErrorSeverity;
 
   constructor(
     message: string,
     public readonly code: ErrorCode,
-    context?: Record<string, unknown>
+    context?: Record<string, unknown>,
+    policy: ErrorPolicy = DEFAULT_ERROR_POLICY
   ) {
     super(message);
     this.name = "JobKoreaError";
     this.timestamp = Date.now();
     this.context = context;
+    this.retryable = policy.retryable;
+    this.severity = policy.severity;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, JobKoreaError);
@@ -62,6 +282,8 @@ export class JobKoreaError extends Error {
       name: this.name,
       message: this.message,
       code: this.code,
+      retryable: this.retryable,
+      severity: this.severity,
       timestamp: this.timestamp,
       context: this.context,
     };
@@ -83,8 +305,132 @@ export class NavigationError extends JobKoreaError {
 }
 
 export class UpdateError extends JobKoreaError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, ERROR_CODES.UPDATE_ERROR, context);
+  constructor(message: string, context?: Record<string, unknown>, policy?: ErrorPolicy) {
+    super(message, ERROR_CODES.UPDATE_ERROR, context, policy);
     this.name = "UpdateError";
   }
 }
+
+/**
+ * 업데이트 다이얼로그는 성공했지만 이력서 최종수정일이 갱신되지 않은 경우.
+ * 버튼은 이미 눌렀으므로 재시도(버튼 재클릭)하지 않는다.
+ */
+export class UpdateVerificationError extends UpdateError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, context, { retryable: false, severity: "error" });
+    this.name = "UpdateVerificationError";
+  }
+}
+
+export class NetworkError extends JobKoreaError {
+  constructor(
+    message: string,
+    public readonly reason: NetworkFailureReason,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      ERROR_CODES.NETWORK_ERROR,
+      { ...context, reason },
+      { retryable: true, severity: "warning" }
+    );
+    this.name = "NetworkError";
+  }
+}
+
+// 아이디/비밀번호가 틀림. 다시 시도하면 계정이 잠길 수 있으므로 재시도하지 않는다.
+export class CredentialsRejectedError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.CREDENTIALS_REJECTED, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "CredentialsRejectedError";
+  }
+}
+
+// 보안 문자(캡차) 입력 요구. 사람이 직접 로그인해야 한다.
+export class CaptchaRequiredError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.CAPTCHA_REQUIRED, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "CaptchaRequiredError";
+  }
+}
+
+export class AccountLockedError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.ACCOUNT_LOCKED, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "AccountLockedError";
+  }
+}
+
+// 휴면 계정. JobKorea에서 휴면 해제 후 다시 로그인해야 한다.
+export class DormantAccountError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.ACCOUNT_DORMANT, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "DormantAccountError";
+  }
+}
+
+// 로그인 후 추가 본인 인증(휴대폰 인증 등) 요구
+export class VerificationRequiredError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.VERIFICATION_REQUIRED, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "VerificationRequiredError";
+  }
+}
+
+// 방해 요소 규칙(action: fail)으로 중단. 코드는 규칙에 지정한 값을 쓴다.
+export class InterruptionError extends JobKoreaError {
+  constructor(message: string, code: ErrorCode, context?: Record<string, unknown>) {
+    super(message, code, context, { retryable: false, severity: "error" });
+    this.name = "InterruptionError";
+  }
+}
+
+// 셀렉터 후보를 모두 찾지 못함. 화면이 늦게 그려진 경우일 수 있어 재시도는 한다.
+export class SelectorDriftError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.SELECTOR_DRIFT, context, { retryable: true, severity: "error" });
+    this.name = "SelectorDriftError";
+  }
+}
+
+// 사이트 점검 중. 점검이 끝날 때까지 재시도해도 소용없다.
+export class SiteMaintenanceError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.SITE_MAINTENANCE, context, {
+      retryable: false,
+      severity: "warning",
+    });
+    this.name = "SiteMaintenanceError";
+  }
+}
+
+// 설정이 실제 화면과 맞지 않음(RESUME_IDS에 없는 이력서 등). 설정을 고칠 때까지 재시도해도 소용없다.
+export class ConfigurationError extends JobKoreaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, ERROR_CODES.CONFIG_ERROR, context, {
+      retryable: false,
+      severity: "critical",
+    });
+    this.name = "ConfigurationError";
+  }
+}
+
+// 분류되지 않은 오류(Playwright 시간 초과 등)는 일시적인 것으로 보고 재시도한다.
+export function isRetryableError(error: unknown): boolean {
+  return !(error instanceof JobKoreaError) || error.retryable;
+}
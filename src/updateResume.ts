@@ -1,16 +1,51 @@
 // src/updateResume.ts
-import { Config, JobKoreaError } from "./types";
+import {
+  Account,
+  AccountResult,
+  Config,
+  JobKoreaError,
+  MessageEvent,
+  ResumeOutcome,
+  SkipReason,
+} from "./types";
 import { Logger } from "./utils/logger";
 import { BrowserService } from "./services/browser";
 import { JobKoreaService } from "./services/jobkorea";
-import { sendTelegramMessage } from "./notify";
+import { AccountRecorder, RunReporter, SelectorMatch } from "./services/runReport";
+import { ArtifactStore, createArtifactStore, pruneArtifactRuns } from "./services/artifacts";
+import { createSessionStore } from "./services/session";
+import { AttemptLedger, createAttemptLedger } from "./services/attemptLedger";
+import {
+  createRunHistoryStore,
+  describeStats,
+  isFirstRunOfWeek,
+  recordsSince,
+  RunHistoryRecord,
+  summarizeHistory,
+} from "./services/runHistory";
+import { createSelectorHistoryStore, SelectorDrift } from "./services/selectorHistory";
+import {
+  createNotification,
+  createNotifiers,
+  createTextNotification,
+  escapeHtml,
+  formatDateTime,
+  getPhrases,
+  MessageBody,
+  NotificationAttachment,
+  Notifier,
+  notifyAll,
+  renderMessage,
+  TemplateValues,
+} from "./notifiers";
 import { withBrowserRestart } from "./utils/retry";
+import { runPipeline } from "./pipeline";
+import { createResumeContext, createResumeSteps, resumeConditions } from "./resumeSteps";
 import { configManager } from "./config";
+import { toArtifactTag } from "./config/accounts";
 
-export async function updateResume(config: Config): Promise<void> {
+export async function updateResume(config: Config): Promise<AccountResult[]> {
   const browserService = new BrowserService();
-  const retryConfig = configManager.getRetryConfig();
-  let retryCount = 0;
 
   // 프로세스 종료 시그널 수신 시 브라우저 정리
   let isShuttingDown = false;
@@ -22,113 +57,570 @@ export async function updateResume(config: Config): Promise<void> {
     await browserService.close();
     process.exit(signalCodes[signal] ?? 1);
   };
-  process.on("SIGINT", () => gracefulShutdown("SIGINT"));
-  process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
+  const onSigint = () => gracefulShutdown("SIGINT");
+  const onSigterm = () => gracefulShutdown("SIGTERM");
+  process.on("SIGINT", onSigint);
+  process.on("SIGTERM", onSigterm);
 
+  // daemon 모드에서는 같은 프로세스에서 여러 번 실행되므로 실행이 끝나면 핸들러를 해제한다.
   try {
-    await withBrowserRestart(
-      async () => {
-        retryCount++;
-        Logger.info(`이력서 업데이트 프로세스 시작 (시도 ${retryCount}/${retryConfig.maxProcessRetries})`);
+    return await runAccounts(config, browserService);
+  } finally {
+    process.off("SIGINT", onSigint);
+    process.off("SIGTERM", onSigterm);
+  }
+}
 
-        await browserService.initialize();
-        const page = browserService.getPage();
-        const jobKoreaService = new JobKoreaService(page);
+async function runAccounts(
+  config: Config,
+  browserService: BrowserService
+): Promise<AccountResult[]> {
+  const { dryRun } = configManager.getUpdateConfig();
+  const reporter = new RunReporter({ dryRun });
+  Logger.info(`실행 ID: ${reporter.runId}${dryRun ? " (드라이런)" : ""}`);
 
-        // 1. 로그인 페이지로 이동
-        await jobKoreaService.navigateToLoginPage();
+  const artifacts = createArtifactStore({
+    accounts: config.accounts,
+    runId: reporter.runId,
+    startedAt: reporter.getReport().startedAt,
+  });
 
-        // 2. 로그인 수행
-        await jobKoreaService.login(config.jobkoreaId, config.jobkoreaPwd);
+  // 드라이런은 업데이트하지 않으므로 일일 시도 한도와 관계없이 실행한다.
+  const ledger = dryRun ? null : createAttemptLedger();
+  await ledger?.load();
 
-        // 3. 로그인 후 팝업 처리
-        await jobKoreaService.handleLoginPopup();
+  const notifiers = createNotifiers(config);
+  const isMultiAccount = config.accounts.length > 1;
 
-        // 4. 마이페이지로 이동
-        await jobKoreaService.navigateToMypage();
+  // 한 계정의 실패가 나머지 계정 처리를 막지 않도록 순차 처리
+  const results: AccountResult[] = [];
+  const recorders: AccountRecorder[] = [];
+  for (const account of config.accounts) {
+    const recorder = reporter.startAccount(account.label);
+    recorders.push(recorder);
+    const onRetry =
+      configManager.getNotificationConfig().notifyRetries && notifiers.length > 0
+        ? (error: Error, attempt: number) =>
+            sendRetryNotice(notifiers, account, isMultiAccount, error, attempt)
+        : undefined;
+    results.push(
+      await updateAccount(account, {
+        browserService,
+        artifacts,
+        recorder,
+        ledger,
+        isMultiAccount,
+        onRetry,
+      })
+    );
+  }
+
+  // 이전 실행의 아티팩트는 보관 정책에 따라서만 지운다.
+  // 이번 실행의 폴더가 생긴 뒤에 정리해야 이번 실행까지 keepRuns개만 남는다.
+  pruneArtifactRuns();
+
+  await reporter.write();
+
+  const history = createRunHistoryStore();
+  const previousRuns = await history.read();
+  await history.append(reporter.getReport());
+
+  const selectorMatches = recorders.map(recorder =>
+    latestSelectorMatches(recorder.getSelectorMatches())
+  );
+
+  if (dryRun) {
+    await sendDryRunReport(notifiers, results, selectorMatches);
+  } else {
+    await sendRunReport(notifiers, results, recorders);
+  }
 
-        // 5. 경력 정보 업데이트
-        await jobKoreaService.updateCareerInfo();
+  await trackSelectorDrift(notifiers, reporter.runId, results, selectorMatches);
+
+  const startedAt = new Date(reporter.getReport().startedAt);
+  if (
+    configManager.getHistoryConfig().weeklyDigest &&
+    !dryRun &&
+    isFirstRunOfWeek(previousRuns, startedAt)
+  ) {
+    await sendWeeklyDigest(notifiers, recordsSince(previousRuns, 7, startedAt), startedAt);
+  }
+
+  return results;
+}
+
+interface AccountRun {
+  browserService: BrowserService;
+  artifacts: ArtifactStore;
+  recorder: AccountRecorder;
+  ledger: AttemptLedger | null;
+  isMultiAccount: boolean;
+  onRetry?: (error: Error, attempt: number) => Promise<void>;
+}
+
+async function updateAccount(
+  account: Account,
+  { browserService, artifacts, recorder, ledger, isMultiAccount, onRetry }: AccountRun
+): Promise<AccountResult> {
+  const retryConfig = configManager.getRetryConfig();
+  const accountInfo = isMultiAccount ? ` [${account.label}]` : "";
+
+  if (ledger && !ledger.hasRemaining(account.label)) {
+    Logger.warning(
+      `오늘 업데이트 시도 한도(${ledger.dailyCap}회)에 도달해 건너뜁니다${accountInfo}`,
+      { attempts: ledger.getAttempts(account.label) }
+    );
+    recorder.markSkipped("dailyQuota");
+    recorder.finish(true);
+    return { account, success: true, skipped: "dailyQuota", retryCount: 0 };
+  }
+
+  const artifactTag = toArtifactTag(account.label);
+  const sessionStore = createSessionStore(account);
+  const steps = createResumeSteps();
+  const resumeOutcomes = new Map<string, ResumeOutcome>();
+  const recordings: string[] = [];
+  let retryCount = 0;
+
+  // 실패한 시도의 기록(trace, HAR, 동영상)은 실행 리포트의 아티팩트와 실패 알림에 남긴다.
+  const closeFailedAttempt = async (): Promise<void> => {
+    const saved = await browserService.close({ keepRecordings: true });
+    saved.forEach(file => recorder.recordArtifact(file));
+    recordings.push(...saved);
+  };
 
-        Logger.success("이력서 업데이트 프로세스 완료");
+  try {
+    await withBrowserRestart(
+      async () => {
+        retryCount++;
+        Logger.info(
+          `이력서 업데이트 프로세스 시작${accountInfo} (시도 ${retryCount}/${retryConfig.maxProcessRetries})`
+        );
+
+        await browserService.initialize({ sessionStore, artifacts, recordingTag: artifactTag });
+        const page = browserService.getPage();
+        const interruptions = browserService.getInterruptions();
+        // 업데이트 버튼을 실제로 누른 시도만 일일 한도에 센다. (브라우저 시도당 한 번)
+        let attemptRecorded = false;
+        const jobKoreaService = new JobKoreaService(page, {
+          artifacts,
+          artifactTag,
+          recorder,
+          interruptions,
+          beforeUpdateClick: async () => {
+            if (ledger && !attemptRecorded) {
+              attemptRecorded = true;
+              await ledger.recordAttempt(account.label);
+            }
+          },
+        });
+        const context = createResumeContext(
+          account,
+          browserService,
+          jobKoreaService,
+          resumeOutcomes
+        );
+
+        // 재시작 후에는 여전히 성립하는 상태(세션 복원 등)를 확인해 필요한 단계부터 이어서 실행
+        await runPipeline(steps, resumeConditions, context, {
+          wrapStep: (name, fn) => recorder.step(name, () => interruptions.guard(fn)),
+        });
+
+        Logger.success(`이력서 업데이트 프로세스 완료${accountInfo}`);
       },
       async () => {
         Logger.info("브라우저 재시작 중...");
-        await browserService.close();
+        await closeFailedAttempt();
         await new Promise(resolve => setTimeout(resolve, 1000));
       },
       {
         maxRetries: retryConfig.maxProcessRetries,
-        operation: "이력서 업데이트 전체 프로세스",
+        operation: `이력서 업데이트 전체 프로세스${accountInfo}`,
+        onAttempt: attempt => recorder.startProcessAttempt(attempt),
+        onRetry,
+        // 일일 한도를 넘겨 재시도하지 않는다.
+        shouldRetry: () => !ledger || ledger.hasRemaining(account.label),
       }
     );
 
-    // 6. 성공 메시지 전송과 브라우저 정리를 병렬로 처리
-    const results = await Promise.allSettled([
-      sendSuccessNotification(config.telegramToken, config.telegramChatId, retryCount),
-      browserService.close(),
-    ]);
-
-    if (results[0].status === 'rejected') {
-      Logger.warning("성공 알림 전송 실패. Telegram 설정을 확인해주세요.");
+    const resumes = [...resumeOutcomes.values()];
+    const skipped: SkipReason | undefined =
+      resumes.length > 0 && resumes.every(resume => resume.skipped) ? "recentlyUpdated" : undefined;
+    recorder.recordResumeOutcomes(resumes);
+    if (skipped) {
+      recorder.markSkipped(skipped);
     }
+    recorder.finish(true);
+    await browserService.close();
+    return { account, success: true, skipped, retryCount, resumes };
   } catch (error) {
-    // 에러 처리와 브라우저 정리를 병렬로 처리
-    const results = await Promise.allSettled([
-      handleError(error, config.telegramToken, config.telegramChatId, retryCount),
-      browserService.close(),
-    ]);
-
-    if (results[0].status === 'rejected') {
-      Logger.warning("실패 알림 전송 실패. Telegram 설정을 확인해주세요.");
+    Logger.error(`최종 에러 발생${accountInfo}`, error instanceof Error ? error : undefined);
+    const resumes = [...resumeOutcomes.values()];
+    recorder.recordResumeOutcomes(resumes);
+    await closeFailedAttempt();
+    recorder.finish(false, error);
+    return { account, success: false, retryCount, error, resumes, recordings };
+  }
+}
+
+function describeError(error: unknown): string {
+  const phrases = getPhrases();
+  if (error instanceof JobKoreaError) {
+    return `${phrases.errorReasons[error.code] ?? error.message} (${error.code})`;
+  }
+  return error instanceof Error ? error.message : phrases.unknownError;
+}
+
+function errorCodeOf(error: unknown): string {
+  if (error instanceof JobKoreaError) {
+    return error.code;
+  }
+  return error instanceof Error ? error.name : "UNKNOWN";
+}
+
+// 오류 분류에 따른 조치 안내. 사람이 조치해야 하는 오류(critical)는 눈에 띄게 표시한다.
+function suggestionFor(error: unknown): string | undefined {
+  if (!(error instanceof JobKoreaError)) {
+    return undefined;
+  }
+  const suggestion = getPhrases().suggestions[error.code];
+  return suggestion && error.severity === "critical" ? `🚨 ${suggestion}` : suggestion;
+}
+
+function describeSkipReason(reason: SkipReason): string {
+  const phrases = getPhrases();
+  if (reason === "dailyQuota") {
+    return phrases.dailyQuota(configManager.getAttemptLedgerConfig().dailyCap);
+  }
+  return phrases.recentlyUpdated(configManager.getUpdateConfig().minIntervalMinutes);
+}
+
+// 이력서가 여러 개일 때 이력서별 결과 (한 개면 undefined)
+function describeResumes(resumes: readonly ResumeOutcome[]): string | undefined {
+  if (resumes.length <= 1) {
+    return undefined;
+  }
+
+  const phrases = getPhrases();
+  const lines = resumes.map(resume => {
+    const name = resume.title ? `${resume.title} (${resume.id})` : resume.id;
+    if (!resume.success) {
+      return `• ${name}: ${phrases.resume.failure} - ${describeError(resume.error)}`;
     }
+    const status = resume.skipped ? phrases.resume.skipped : phrases.resume.success;
+    const updatedAtInfo = resume.updatedAt ? ` - ${phrases.updatedAt(resume.updatedAt)}` : "";
+    return `• ${name}: ${status}${updatedAtInfo}`;
+  });
+  return lines.join("\n");
+}
 
-    process.exit(1);
+function eventOf(result: AccountResult): MessageEvent {
+  if (result.skipped) {
+    return "skipped";
   }
+  return result.success ? "success" : "failure";
 }
 
-async function sendSuccessNotification(
-  token: string,
-  chatId: string,
-  retryCount: number
+// 계정 하나의 템플릿 값. 여러 계정이면 날짜는 머리말(summary)에만 넣는다.
+function accountValues(result: AccountResult, isMultiAccount: boolean): TemplateValues {
+  const resumes = result.resumes ?? [];
+  return {
+    account: isMultiAccount ? result.account.label : undefined,
+    reason: result.skipped ? describeSkipReason(result.skipped) : undefined,
+    error: result.success ? undefined : describeError(result.error),
+    errorCode: result.success ? undefined : errorCodeOf(result.error),
+    suggestion: result.success ? undefined : suggestionFor(result.error),
+    retryCount: result.retryCount > 1 ? result.retryCount - 1 : undefined,
+    resumeUpdatedAt: resumes.length === 1 ? resumes[0].updatedAt : undefined,
+    resumes: describeResumes(resumes),
+    recordings: result.success ? undefined : result.recordings?.join(", "),
+  };
+}
+
+function buildRunMessage(results: readonly AccountResult[], now: Date): MessageBody {
+  const dateTime = formatDateTime(now);
+
+  if (results.length === 1) {
+    const event = eventOf(results[0]);
+    return {
+      text: renderMessage(event, { ...dateTime, ...accountValues(results[0], false) }),
+      quote: event !== "failure",
+    };
+  }
+
+  const summary = getPhrases().summary;
+  const successCount = results.filter(result => result.success).length;
+  const header = renderMessage("summary", {
+    ...dateTime,
+    status: successCount === results.length ? summary.success : summary.failure,
+    successCount,
+    total: results.length,
+  });
+  const sections = results.map(result =>
+    renderMessage(eventOf(result), accountValues(result, true))
+  );
+  return { text: [header, ...sections].join("\n\n") };
+}
+
+/**
+ * 실패한 계정마다 가장 최근에 저장한 스크린샷과 HTML을 첨부한다.
+ * 설명에는 실패 코드와 실패한 단계를 남긴다.
+ */
+function collectFailureAttachments(
+  results: readonly AccountResult[],
+  recorders: readonly AccountRecorder[]
+): NotificationAttachment[] {
+  const phrases = getPhrases();
+  return results.flatMap((result, index) => {
+    if (result.success) {
+      return [];
+    }
+
+    const recorder = recorders[index];
+    const artifacts = recorder.getArtifacts();
+    const screenshot = artifacts.filter(path => path.endsWith(".png")).pop();
+    const html = artifacts.filter(path => path.endsWith(".html")).pop();
+
+    const caption = escapeHtml(
+      phrases.failureCaption(
+        errorCodeOf(result.error),
+        recorder.getFailedStep() ?? phrases.unknownStep,
+        results.length > 1 ? result.account.label : undefined
+      )
+    );
+
+    const attachments: NotificationAttachment[] = [];
+    if (screenshot) {
+      attachments.push({ kind: "photo", path: screenshot, caption });
+    }
+    if (html) {
+      attachments.push({ kind: "document", path: html, caption });
+    }
+    return attachments;
+  });
+}
+
+async function sendRunReport(
+  notifiers: readonly Notifier[],
+  results: readonly AccountResult[],
+  recorders: readonly AccountRecorder[]
+): Promise<void> {
+  if (results.length === 0 || notifiers.length === 0) {
+    return;
+  }
+
+  const { subjects } = getPhrases();
+  const body = buildRunMessage(results, new Date());
+  const allSucceeded = results.every(result => result.success);
+  const allSkipped = results.every(result => result.skipped);
+  const message = allSkipped
+    ? createTextNotification("info", subjects.skipped, body)
+    : createTextNotification(
+        allSucceeded ? "success" : "failure",
+        allSucceeded ? subjects.success : subjects.failure,
+        body,
+        collectFailureAttachments(results, recorders)
+      );
+
+  const notifyResults = await notifyAll(notifiers, message);
+  if (notifyResults.some(result => result.success)) {
+    Logger.success("결과 메시지 전송 완료");
+  }
+}
+
+// 재시도 알림 (notifications.notifyRetries)
+async function sendRetryNotice(
+  notifiers: readonly Notifier[],
+  account: Account,
+  isMultiAccount: boolean,
+  error: Error,
+  attempt: number
+): Promise<void> {
+  const body: MessageBody = {
+    text: renderMessage("retry", {
+      account: isMultiAccount ? account.label : undefined,
+      error: describeError(error),
+      errorCode: errorCodeOf(error),
+      attempt: attempt + 1,
+      maxAttempts: configManager.getRetryConfig().maxProcessRetries,
+    }),
+  };
+  await notifyAll(notifiers, createTextNotification("warning", getPhrases().subjects.retry, body));
+}
+
+// 재시도로 같은 셀렉터가 여러 번 기록될 수 있으므로 이름별 마지막 매칭만 사용
+function latestSelectorMatches(matches: readonly SelectorMatch[]): SelectorMatch[] {
+  return [...new Map(matches.map(match => [match.name, match])).values()];
+}
+
+function describeSelectorMatches(matches: readonly SelectorMatch[]): string {
+  if (matches.length === 0) {
+    return getPhrases().noSelectors;
+  }
+  return matches
+    .map(({ name, selector, index }) => {
+      const fallbackInfo = index > 0 ? ` (fallback ${index})` : "";
+      return `• ${name}: ${selector}${fallbackInfo}`;
+    })
+    .join("\n");
+}
+
+function buildDryRunMessage(
+  results: readonly AccountResult[],
+  selectorMatches: readonly (readonly SelectorMatch[])[],
+  now: Date
+): MessageBody {
+  const phrases = getPhrases();
+  const dateTime = formatDateTime(now);
+  const isMultiAccount = results.length > 1;
+
+  const sections = results.map((result, index) =>
+    renderMessage("dryRun", {
+      ...(isMultiAccount ? {} : dateTime),
+      account: isMultiAccount ? result.account.label : undefined,
+      status: result.success ? phrases.dryRun.ok : phrases.dryRun.fail,
+      error: result.success ? undefined : describeError(result.error),
+      errorCode: result.success ? undefined : errorCodeOf(result.error),
+      selectors: describeSelectorMatches(selectorMatches[index]),
+    })
+  );
+
+  if (!isMultiAccount) {
+    return { text: sections[0] };
+  }
+
+  const successCount = results.filter(result => result.success).length;
+  const header = renderMessage("summary", {
+    ...dateTime,
+    status: successCount === results.length ? phrases.summary.dryRunOk : phrases.summary.dryRunFail,
+    successCount,
+    total: results.length,
+  });
+  return { text: [header, ...sections].join("\n\n") };
+}
+
+async function sendDryRunReport(
+  notifiers: readonly Notifier[],
+  results: readonly AccountResult[],
+  selectorMatches: readonly (readonly SelectorMatch[])[]
+): Promise<void> {
+  if (results.length === 0 || notifiers.length === 0) {
+    return;
+  }
+
+  const { subjects } = getPhrases();
+  const allSucceeded = results.every(result => result.success);
+  const message = createTextNotification(
+    allSucceeded ? "success" : "failure",
+    allSucceeded ? subjects.dryRunOk : subjects.dryRunFail,
+    buildDryRunMessage(results, selectorMatches, new Date())
+  );
+
+  const notifyResults = await notifyAll(notifiers, message);
+  if (notifyResults.some(result => result.success)) {
+    Logger.success("드라이런 결과 메시지 전송 완료");
+  }
+}
+
+function buildSelectorDriftMessage(
+  drifts: readonly SelectorDrift[],
+  isMultiAccount: boolean
+): string {
+  const phrases = getPhrases().selectorDrift;
+  const lines = drifts.map(drift => {
+    const account = isMultiAccount ? `[${escapeHtml(drift.account)}] ` : "";
+    const selector = escapeHtml(drift.selector);
+    const text =
+      drift.kind === "fallback"
+        ? phrases.fallback(drift.name, drift.index, selector)
+        : phrases.changed(drift.name, escapeHtml(drift.previousSelector ?? ""), selector);
+    return `• ${account}${text}`;
+  });
+
+  return [phrases.title, ...lines, phrases.footer].join("\n");
+}
+
+/**
+ * 이번 실행의 셀렉터 매칭을 이력과 비교해 fallback 사용이나 셀렉터 변경이 있으면 경고를 보낸다.
+ */
+async function trackSelectorDrift(
+  notifiers: readonly Notifier[],
+  runId: string,
+  results: readonly AccountResult[],
+  selectorMatches: readonly (readonly SelectorMatch[])[]
 ): Promise<void> {
-  const now = new Date();
-  const retryInfo = retryCount > 1 ? `\n재시도 횟수: ${retryCount - 1}번` : "";
-  const message = `<blockquote>✅ 이력서 업데이트 완료!\n날짜: ${now.toLocaleDateString(
-    "ko-KR",
-    { timeZone: "Asia/Seoul" }
-  )} 시간: ${now.toLocaleTimeString("ko-KR", {
-    timeZone: "Asia/Seoul",
-  })}${retryInfo}</blockquote>`;
+  const store = createSelectorHistoryStore();
+  await store.load();
+
+  // 모든 계정을 이전 실행 기준으로 비교한 뒤 기록한다.
+  const drifts = results.flatMap((result, index) =>
+    store.detectDrift(result.account.label, selectorMatches[index])
+  );
+  results.forEach((result, index) =>
+    store.record(runId, result.account.label, selectorMatches[index])
+  );
+  await store.save();
+
+  if (drifts.length === 0) {
+    return;
+  }
+
+  Logger.warning(`셀렉터 변경 감지 (${drifts.length}건)`, {
+    drifts: drifts.map(drift => `${drift.kind}:${drift.name}=${drift.selector}`),
+  });
 
-  await sendTelegramMessage(token, chatId, message, "HTML");
-  Logger.success("성공 메시지 전송 완료");
+  if (notifiers.length > 0) {
+    await notifyAll(
+      notifiers,
+      createNotification(
+        "warning",
+        getPhrases().subjects.selectorDrift,
+        buildSelectorDriftMessage(drifts, results.length > 1)
+      )
+    );
+  }
 }
 
-function escapeHtml(text: string): string {
-  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+function buildWeeklyDigestMessage(records: readonly RunHistoryRecord[], now: Date): string {
+  const phrases = getPhrases();
+  const lines = describeStats(summarizeHistory(records)).map(escapeHtml);
+
+  const labels = [...new Set(records.map(record => record.account))];
+  if (labels.length > 1) {
+    lines.push(
+      ...labels.map(label => {
+        const { success, failure, skipped } = summarizeHistory(
+          records.filter(record => record.account === label)
+        );
+        return `• ${escapeHtml(label)}: ${phrases.history.outcomes(success, failure, skipped)}`;
+      })
+    );
+  }
+
+  const { date, time } = formatDateTime(now);
+  const { title, dateLine } = phrases.weeklyDigest;
+  return [title, dateLine(date, time), ...lines].join("\n");
 }
 
-async function handleError(
-  error: unknown,
-  token: string,
-  chatId: string,
-  retryCount: number
+/**
+ * 한 주(월요일 시작, KST)의 첫 실행에서 지난 7일간의 업데이트/실패를 요약해 보낸다.
+ */
+async function sendWeeklyDigest(
+  notifiers: readonly Notifier[],
+  records: readonly RunHistoryRecord[],
+  now: Date
 ): Promise<void> {
-  const retryInfo = retryCount > 0 ? `\n재시도 횟수: ${retryCount}번 (모든 재시도 실패)` : "";
-  const rawMessage =
-    error instanceof JobKoreaError
-      ? error.message
-      : error instanceof Error
-        ? error.message
-        : "알 수 없는 오류";
-  const safeMessage = escapeHtml(rawMessage);
-  const errorMessage =
-    error instanceof JobKoreaError
-      ? `❌ 이력서 업데이트 최종 실패!\n이유: ${safeMessage} (${error.code})${retryInfo}`
-      : `❌ 이력서 업데이트 최종 실패!\n이유: ${safeMessage}${retryInfo}`;
-
-  Logger.error("최종 에러 발생", error instanceof Error ? error : undefined);
-  await sendTelegramMessage(token, chatId, errorMessage);
-  Logger.info("실패 메시지 전송 완료");
+  if (notifiers.length === 0) {
+    return;
+  }
+
+  const message = createNotification(
+    "info",
+    getPhrases().subjects.weeklyDigest,
+    buildWeeklyDigestMessage(records, now)
+  );
+  const notifyResults = await notifyAll(notifiers, message);
+  if (notifyResults.some(result => result.success)) {
+    Logger.success("주간 요약 메시지 전송 완료");
+  }
 }
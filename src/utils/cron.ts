@@ -0,0 +1,143 @@
+// src/utils/cron.ts
+
+// 분 시 일 월 요일 (Asia/Seoul 기준으로 해석)
+export interface CronSchedule {
+  expression: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  // 0 = 일요일 (7도 일요일로 받는다)
+  daysOfWeek: ReadonlySet<number>;
+  // 일/요일을 모두 지정하면 둘 중 하나만 맞아도 실행 (표준 cron 동작, *로 시작하면 지정하지 않은 것)
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// 2월 29일 같은 일정도 찾을 수 있도록 넉넉하게 검색
+const SEARCH_LIMIT_MS = 5 * 366 * DAY_MS;
+
+const FIELDS = [
+  { name: "분", min: 0, max: 59 },
+  { name: "시", min: 0, max: 23 },
+  { name: "일", min: 1, max: 31 },
+  { name: "월", min: 1, max: 12 },
+  { name: "요일", min: 0, max: 7 },
+] as const;
+
+function parseNumber(text: string, field: (typeof FIELDS)[number]): number {
+  const value = Number(text);
+  if (!/^\d+$/.test(text) || value < field.min || value > field.max) {
+    throw new Error(`${field.name} 필드는 ${field.min}~${field.max} 사이여야 합니다. (현재: ${text})`);
+  }
+  return value;
+}
+
+// "*", "5", "1-5", "*/15", "10-20/5", "1,3,5" 형식을 지원한다.
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`${field.name} 필드의 간격이 올바르지 않습니다. (현재: ${part})`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`${field.name} 필드의 범위가 올바르지 않습니다. (현재: ${part})`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 5개 필드 cron 식을 해석한다. 형식이 잘못되면 어느 필드가 잘못되었는지와 함께 예외를 던진다.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      `cron 식은 "분 시 일 월 요일" 5개 필드여야 합니다. (현재: "${expression}")`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Vixie cron처럼 *로 시작하는 필드(*/2 등)는 제한하지 않은 것으로 본다.
+    daysOfMonthRestricted: !parts[2].startsWith("*"),
+    daysOfWeekRestricted: !parts[4].startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, kst: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(kst.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(kst.getUTCDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * after 이후(같은 분 제외) 처음으로 일정에 맞는 시각을 반환한다.
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  // KST 벽시계 시각을 UTC 필드로 다룬다. (KST에는 서머타임이 없다)
+  let time = Math.floor((after.getTime() + KST_OFFSET_MS) / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + SEARCH_LIMIT_MS;
+
+  while (time <= limit) {
+    const kst = new Date(time);
+    if (!schedule.months.has(kst.getUTCMonth() + 1) || !matchesDay(schedule, kst)) {
+      time = Math.floor(time / DAY_MS) * DAY_MS + DAY_MS;
+      continue;
+    }
+    if (!schedule.hours.has(kst.getUTCHours())) {
+      time = Math.floor(time / HOUR_MS) * HOUR_MS + HOUR_MS;
+      continue;
+    }
+    if (!schedule.minutes.has(kst.getUTCMinutes())) {
+      time += MINUTE_MS;
+      continue;
+    }
+    return new Date(time - KST_OFFSET_MS);
+  }
+
+  throw new Error(`cron 식에 맞는 실행 시각이 없습니다. (${schedule.expression})`);
+}
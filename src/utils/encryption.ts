@@ -0,0 +1,54 @@
+// src/utils/encryption.ts
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// 암호화된 파일 형식 (모든 바이너리 값은 base64). 세션 파일과 비밀 값 파일이 같이 쓴다.
+export interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  authTag: string;
+  data: string;
+}
+
+const ALGORITHM = "aes-256-gcm";
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+// 텍스트를 AES-256-GCM으로 암호화한다. 파일마다 salt와 iv를 새로 만든다.
+export function encryptText(plaintext: string, secret: string): EncryptedFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * encryptText로 만든 파일 내용을 복호화한다.
+ * 버전이 다르거나 키가 틀려 인증에 실패하면 예외를 던진다.
+ */
+export function decryptText(raw: string, secret: string): string {
+  const file = JSON.parse(raw) as EncryptedFile;
+  if (file.version !== 1) {
+    throw new Error(`지원하지 않는 암호화 파일 버전: ${file.version}`);
+  }
+
+  const key = deriveKey(secret, Buffer.from(file.salt, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.authTag, "base64"));
+  const decrypted = Buffer.concat([
+    decipher.update(Buffer.from(file.data, "base64")),
+    decipher.final(),
+  ]);
+
+  return decrypted.toString("utf-8");
+}
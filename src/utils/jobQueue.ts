@@ -0,0 +1,28 @@
+// src/utils/jobQueue.ts
+
+/**
+ * 브라우저를 쓰는 작업(예약 실행, 봇 명령어)이 겹치지 않도록 들어온 순서대로 하나씩 실행한다.
+ */
+export class JobQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private current: string | null = null;
+
+  // 실행 중인 작업 이름 (없으면 null)
+  get running(): string | null {
+    return this.current;
+  }
+
+  run<T>(name: string, job: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(async () => {
+      this.current = name;
+      try {
+        return await job();
+      } finally {
+        this.current = null;
+      }
+    });
+    // 앞 작업의 실패가 다음 작업을 막지 않도록 한다.
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,97 @@
+// src/utils/loginFailure.ts
+import {
+  AccountLockedError,
+  CaptchaRequiredError,
+  CredentialsRejectedError,
+  DormantAccountError,
+  JobKoreaError,
+  VerificationRequiredError,
+} from "../types";
+
+export type LoginFailureReason =
+  | "captcha"
+  | "dormant"
+  | "locked"
+  | "verification"
+  | "wrongPassword";
+
+// 문구가 여러 원인에 걸칠 때는 앞의 원인을 택한다. ("비밀번호 오류로 계정이 잠겼습니다" → 잠금)
+const REASON_ORDER: readonly LoginFailureReason[] = [
+  "captcha",
+  "dormant",
+  "locked",
+  "verification",
+  "wrongPassword",
+];
+
+export interface LoginFailurePatterns {
+  messages: Record<LoginFailureReason, readonly string[]>;
+  redirects: {
+    dormant: readonly string[];
+    verification: readonly string[];
+  };
+}
+
+// 로그인 버튼을 누른 뒤 화면에서 모은 단서
+export interface LoginPageSignals {
+  url: string;
+  // 알림창(alert/confirm) 문구
+  dialogs: readonly string[];
+  // 로그인 오류 영역에 표시된 문구
+  errorText: string;
+  captchaVisible: boolean;
+}
+
+/**
+ * 로그인 실패 원인을 판별한다. 판별할 단서가 없으면 null.
+ * 이동한 URL → 알림창/오류 영역 문구 → 보안 문자 입력란 순으로 확인한다.
+ */
+export function classifyLoginFailure(
+  signals: LoginPageSignals,
+  patterns: LoginFailurePatterns
+): JobKoreaError | null {
+  const context = { url: signals.url };
+
+  if (patterns.redirects.dormant.some(pattern => signals.url.includes(pattern))) {
+    return createLoginFailure("dormant", context);
+  }
+  if (patterns.redirects.verification.some(pattern => signals.url.includes(pattern))) {
+    return createLoginFailure("verification", context);
+  }
+
+  const texts = [...signals.dialogs, signals.errorText].filter(text => text.trim() !== "");
+  for (const reason of REASON_ORDER) {
+    const message = texts.find(text =>
+      patterns.messages[reason].some(pattern => text.includes(pattern))
+    );
+    if (message) {
+      return createLoginFailure(reason, { ...context, message: message.trim() });
+    }
+  }
+
+  if (signals.captchaVisible) {
+    return createLoginFailure("captcha", context);
+  }
+  return null;
+}
+
+function createLoginFailure(
+  reason: LoginFailureReason,
+  context: Record<string, unknown>
+): JobKoreaError {
+  switch (reason) {
+    case "captcha":
+      return new CaptchaRequiredError("로그인 실패: 보안 문자(CAPTCHA) 입력을 요구합니다.", context);
+    case "dormant":
+      return new DormantAccountError("로그인 실패: 휴면 계정입니다.", context);
+    case "locked":
+      return new AccountLockedError("로그인 실패: 계정이 잠겼습니다.", context);
+    case "verification":
+      return new VerificationRequiredError("로그인 실패: 추가 본인 인증을 요구합니다.", context);
+    case "wrongPassword":
+      return new CredentialsRejectedError(
+        "로그인 실패: 아이디 또는 비밀번호가 맞지 않습니다.",
+        context
+      );
+  }
+}
@@ -0,0 +1,97 @@
+// src/utils/resumeTimestamp.ts
+
+// 이력서 최종수정일 (화면에 표시된 문자열과 KST 기준 해석 결과)
+export interface ResumeTimestamp {
+  raw: string;
+  date: Date;
+  // 날짜만 표시되는 경우 시각 비교를 할 수 없다.
+  hasTime: boolean;
+}
+
+const KST_OFFSET_HOURS = 9;
+
+// 사이트 시계와 로컬 시계 차이, 분 단위 표시로 인한 오차 허용 범위
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// 2024.05.01 / 2024-05-01 / 2024/05/01 / 2024년 5월 1일 (+ 선택적 요일, 시각)
+const TIMESTAMP_PATTERN =
+  /(\d{4})\s*[.\-/년]\s*(\d{1,2})\s*[.\-/월]\s*(\d{1,2})\s*일?\.?(?:\s*(?:\([^)]*\))?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+const LABEL_PATTERN = /(최종\s*수정일|수정일|업데이트)/g;
+
+export function parseResumeTimestamp(text: string): ResumeTimestamp | null {
+  const match = text.match(TIMESTAMP_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [raw, year, month, day, hour, minute, second] = match;
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour ?? 0) - KST_OFFSET_HOURS,
+      Number(minute ?? 0),
+      Number(second ?? 0)
+    )
+  );
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return { raw: raw.trim(), date, hasTime: hour !== undefined };
+}
+
+/**
+ * 페이지 전체 텍스트에서 "최종수정일"/"업데이트" 라벨 바로 뒤의 날짜를 찾는다.
+ */
+export function findResumeTimestamp(text: string): ResumeTimestamp | null {
+  for (const label of text.matchAll(LABEL_PATTERN)) {
+    const start = (label.index ?? 0) + label[0].length;
+    const timestamp = parseResumeTimestamp(text.slice(start, start + 40));
+    if (timestamp) {
+      return timestamp;
+    }
+  }
+  return null;
+}
+
+// YYYY-MM-DD (KST)
+export function toKstDateKey(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "Asia/Seoul" });
+}
+
+/**
+ * 업데이트 후 최종수정일이 앞으로 움직였는지 확인한다.
+ * 날짜만 표시되면 업데이트한 날(KST)과 같은지만 확인할 수 있다.
+ */
+export function isTimestampAdvanced(
+  before: ResumeTimestamp | null,
+  after: ResumeTimestamp,
+  updatedAt: Date
+): boolean {
+  if (!after.hasTime) {
+    return toKstDateKey(after.date) === toKstDateKey(updatedAt);
+  }
+  if (before?.hasTime) {
+    return after.date.getTime() > before.date.getTime();
+  }
+  return after.date.getTime() >= updatedAt.getTime() - CLOCK_SKEW_MS;
+}
+
+/**
+ * 최종수정일이 최근 minIntervalMinutes분 안인지 확인한다.
+ * 날짜만 표시되면 언제 수정했는지 알 수 없으므로 최근으로 보지 않는다.
+ */
+export function isRecentlyUpdated(
+  timestamp: ResumeTimestamp | null,
+  minIntervalMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (!timestamp?.hasTime || minIntervalMinutes <= 0) {
+    return false;
+  }
+  return now.getTime() - timestamp.date.getTime() < minIntervalMinutes * 60 * 1000;
+}
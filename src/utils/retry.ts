@@ -1,5 +1,6 @@
 import { Logger } from "./logger";
 import { configManager } from "../config";
+import { isRetryableError } from "../types";
 
 export interface RetryOptions {
   maxRetries?: number;
@@ -8,6 +9,9 @@ export interface RetryOptions {
   backoffMultiplier?: number;
   operation?: string;
   shouldRetry?: (error: Error, attempt: number) => boolean;
+  onAttempt?: (attempt: number) => void;
+  // withBrowserRestart: 실패 후 브라우저를 재시작하기 직전에 호출
+  onRetry?: (error: Error, attempt: number) => Promise<void> | void;
 }
 
 function getRetryAfterMs(error: Error): number | undefined {
@@ -30,12 +34,14 @@ export async function withRetry<T>(
     backoffMultiplier = retryConfig.backoffMultiplier,
     operation = "작업",
     shouldRetry = () => true,
+    onAttempt,
   } = options;
 
   let lastError: Error = new Error("No attempts made");
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
+      onAttempt?.(attempt);
       Logger.info(`${operation} 시도 중... (${attempt}/${maxRetries})`);
       const result = await fn();
 
@@ -47,7 +53,8 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (!shouldRetry(lastError, attempt)) {
+      // 오류 클래스가 재시도하지 않는 오류로 선언했으면 shouldRetry와 관계없이 중단한다.
+      if (!isRetryableError(lastError) || !shouldRetry(lastError, attempt)) {
         Logger.warning(`${operation} 재시도 중단. 오류: ${lastError.message}`);
         throw lastError;
       }
@@ -80,12 +87,15 @@ export async function withBrowserRestart<T>(
     maxRetries = retryConfig.maxProcessRetries,
     operation = "전체 프로세스",
     shouldRetry = () => true,
+    onAttempt,
+    onRetry,
   } = options;
 
   let lastError: Error = new Error("No attempts made");
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
+      onAttempt?.(attempt);
       Logger.info(`${operation} 시도 중... (${attempt}/${maxRetries})`);
       const result = await fn();
 
@@ -97,7 +107,8 @@ export async function withBrowserRestart<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (!shouldRetry(lastError, attempt)) {
+      // 오류 클래스가 재시도하지 않는 오류로 선언했으면 shouldRetry와 관계없이 중단한다.
+      if (!isRetryableError(lastError) || !shouldRetry(lastError, attempt)) {
         Logger.warning(`${operation} 재시도 중단. 오류: ${lastError.message}`);
         throw lastError;
       }
@@ -111,6 +122,14 @@ export async function withBrowserRestart<T>(
         `${operation} 실패 (${attempt}/${maxRetries}). 브라우저 재시작 후 재시도... 오류: ${lastError.message}`
       );
 
+      try {
+        await onRetry?.(lastError, attempt);
+      } catch (callbackError) {
+        Logger.warning("재시도 콜백 실패", {
+          reason: callbackError instanceof Error ? callbackError.message : String(callbackError),
+        });
+      }
+
       try {
         await browserRestartFn();
       } catch (restartError) {
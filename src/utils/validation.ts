@@ -1,11 +1,23 @@
 import { Config } from "../types";
 import { Logger } from "./logger";
+import { configManager } from "../config";
+import { detectAccountSource, hasAccountSource, toArtifactTag } from "../config/accounts";
+import { getVaultError, resolveCredential } from "../config/credentials";
+import { REQUIRED_CHANNEL_VARS } from "../config/notifiers";
 
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
+// 없어도 되지만 제공자를 설정했다면 읽을 수 있어야 하는 값
+const OPTIONAL_CREDENTIALS = ["SESSION_ENCRYPTION_KEY", "SMTP_USER", "SMTP_PASS"];
+
+interface ValidationOptions {
+  // false면 알림 채널 설정은 검사하지 않는다. (login-only, snapshot 등 알림을 보내지 않는 명령어)
+  notifiers?: boolean;
+}
+
 export class ConfigValidator {
   private static validateJobKoreaId(id: string): string[] {
     const errors: string[] = [];
@@ -92,14 +104,46 @@ export class ConfigValidator {
     return errors;
   }
 
-  static validateConfig(config: Config): ValidationResult {
+  static validateConfig(config: Config, options: ValidationOptions = {}): ValidationResult {
     const errors: string[] = [];
     
-    // 각 필드별 검증
-    errors.push(...this.validateJobKoreaId(config.jobkoreaId));
-    errors.push(...this.validateJobKoreaPassword(config.jobkoreaPwd));
-    errors.push(...this.validateTelegramToken(config.telegramToken));
-    errors.push(...this.validateTelegramChatId(config.telegramChatId));
+    if (config.accounts.length === 0) {
+      errors.push("설정된 JobKorea 계정이 없습니다.");
+    }
+
+    // 각 계정별 검증 (여러 계정일 때는 label로 구분)
+    const labels = new Set<string>();
+    // 아티팩트 파일명에 쓰는 label 태그가 겹치면 다른 계정의 파일을 덮어쓴다.
+    const tags = new Map<string, string>();
+    for (const account of config.accounts) {
+      const prefix = config.accounts.length > 1 ? `[${account.label}] ` : "";
+      errors.push(...this.validateJobKoreaId(account.jobkoreaId).map(error => prefix + error));
+      errors.push(...this.validateJobKoreaPassword(account.jobkoreaPwd).map(error => prefix + error));
+
+      if (labels.has(account.label)) {
+        errors.push(`계정 label이 중복되었습니다: ${account.label}`);
+      }
+      labels.add(account.label);
+
+      const tag = toArtifactTag(account.label);
+      const sameTag = tags.get(tag);
+      if (sameTag !== undefined && sameTag !== account.label) {
+        errors.push(
+          `계정 label ${sameTag}, ${account.label}이 파일명에서 같은 이름(${tag})이 됩니다. ` +
+            "영문, 숫자, _, - 로 구분되는 label을 사용하세요."
+        );
+      }
+      tags.set(tag, account.label);
+    }
+
+    // 각 필드별 검증 (Telegram 채널을 사용할 때만)
+    if (
+      options.notifiers !== false &&
+      configManager.getNotificationConfig().channels.includes("telegram")
+    ) {
+      errors.push(...this.validateTelegramToken(config.telegramToken));
+      errors.push(...this.validateTelegramChatId(config.telegramChatId));
+    }
     
     const isValid = errors.length === 0;
     
@@ -113,23 +157,57 @@ export class ConfigValidator {
     return { isValid, errors };
   }
 
-  static validateEnvironmentVariables(): ValidationResult {
-    const requiredVars = [
-      'JOBKOREA_ID',
-      'JOBKOREA_PWD', 
-      'TELEGRAM_BOT_TOKEN',
-      'TELEGRAM_CHAT_ID'
-    ];
+  /**
+   * 필요한 값이 있는지 검사한다. 값은 환경변수 외에 <이름>_FILE, <이름>_COMMAND, 암호화 파일에서도
+   * 읽을 수 있으므로 값을 준 제공자 기준으로 읽지 못한 이유를 알리고, 읽은 출처는 debug 로그로 남긴다.
+   */
+  static validateEnvironmentVariables(options: ValidationOptions = {}): ValidationResult {
+    // 설정된 알림 채널에 필요한 환경변수만 검사
+    const requiredVars =
+      options.notifiers === false
+        ? []
+        : configManager
+            .getNotificationConfig()
+            .channels.flatMap(channel => REQUIRED_CHANNEL_VARS[channel]);
     
     const errors: string[] = [];
-    
-    for (const varName of requiredVars) {
-      const value = process.env[varName];
-      if (!value) {
-        errors.push(`환경변수 ${varName}이 설정되지 않았습니다.`);
+    const sources: string[] = [];
+
+    const checkCredential = (name: string, required: boolean): void => {
+      const { value, source, error } = resolveCredential(name);
+      if (error) {
+        errors.push(error);
+      } else if (value) {
+        sources.push(`${name}(${source})`);
+      } else if (required) {
+        errors.push(
+          `환경변수 ${name}이 설정되지 않았습니다. (${name}_FILE, ${name}_COMMAND 또는 암호화 파일로도 지정 가능)`
+        );
       }
+    };
+
+    const vaultError = getVaultError();
+    if (vaultError) {
+      errors.push(vaultError);
     }
-    
+
+    // 계정은 JOBKOREA_ACCOUNTS_FILE, JOBKOREA_ID_n, JOBKOREA_ID 중 하나로 지정
+    if (!hasAccountSource()) {
+      errors.push(
+        "환경변수 JOBKOREA_ACCOUNTS_FILE, JOBKOREA_ID_1 또는 JOBKOREA_ID 중 하나가 설정되어야 합니다. (ID는 _FILE, _COMMAND 또는 암호화 파일로도 지정 가능)"
+      );
+    } else if (detectAccountSource() === "env") {
+      checkCredential("JOBKOREA_ID", true);
+      checkCredential("JOBKOREA_PWD", true);
+    }
+
+    requiredVars.forEach(name => checkCredential(name, true));
+    OPTIONAL_CREDENTIALS.forEach(name => checkCredential(name, false));
+
+    if (sources.length > 0) {
+      Logger.debug(`값 출처: ${sources.join(", ")}`);
+    }
+
     return { isValid: errors.length === 0, errors };
   }
 }
\ No newline at end of file
@@ -0,0 +1,424 @@
+// test/e2e/fakeJobkorea.ts
+import * as http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * 실제 JobKorea 대신 사용하는 로컬 가짜 사이트.
+ * 로그인 페이지, 비밀번호 변경 팝업, 마이페이지(광고 모달 포함), 이력서 팝업,
+ * Telegram Bot API(sendMessage, sendPhoto, getUpdates)를 흉내 낸다.
+ */
+export interface FakeScenario {
+  // primary: 기본 셀렉터 / fallback: 하위 우선순위 셀렉터만 존재
+  selectors: "primary" | "fallback";
+  // maintenance: 로그인 폼 대신 점검 안내 페이지
+  loginPage: "ok" | "unreachable" | "maintenance";
+  // 올바른 비밀번호로 로그인해도 막히는 경우 (보안 문자, 휴면, 잠금, 본인 인증)
+  loginBlock: "none" | "captcha" | "dormant" | "locked" | "verification";
+  passwordPopup: boolean;
+  adModal: boolean;
+  // 마이페이지의 이벤트 안내 (닫기 버튼이 있는 배너와 알림창)
+  eventNotice: boolean;
+  mypage: "ok" | "broken";
+  resume: "ok" | "noPopup" | "noButton" | "unexpectedDialog";
+  // advances: 업데이트하면 최종수정일 갱신 / stale: 업데이트해도 그대로
+  lastUpdated: "advances" | "stale";
+  // 계정의 이력서 ID 목록
+  resumes: string[];
+  // false면 이력서 목록 없이 상태 링크 하나만 있는 예전 화면
+  resumeList: boolean;
+  // 테스트 시작 시점의 최종수정일 (몇 분 전)
+  lastUpdatedMinutesAgo: number;
+  telegramStatus: number;
+}
+
+export const defaultScenario: FakeScenario = {
+  selectors: "primary",
+  loginPage: "ok",
+  loginBlock: "none",
+  passwordPopup: true,
+  adModal: true,
+  eventNotice: false,
+  mypage: "ok",
+  resume: "ok",
+  lastUpdated: "advances",
+  resumes: ["R100"],
+  resumeList: true,
+  lastUpdatedMinutesAgo: 24 * 60,
+  telegramStatus: 200,
+};
+
+export interface TelegramMessage {
+  token: string;
+  chat_id: string;
+  text: string;
+  parse_mode?: string;
+}
+
+export interface TelegramFile {
+  method: string;
+  chatId: string;
+  caption: string;
+  size: number;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message: { message_id: number; date: number; chat: { id: number }; text: string };
+}
+
+const VALID_PASSWORD = "correct-password";
+
+// 마이페이지에 표시하는 최종수정일 형식 (KST, 2024.05.01 10:30)
+function formatKst(date: Date): string {
+  const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${kst.getUTCFullYear()}.${pad(kst.getUTCMonth() + 1)}.${pad(kst.getUTCDate())} ` +
+    `${pad(kst.getUTCHours())}:${pad(kst.getUTCMinutes())}`
+  );
+}
+
+function html(body: string, script = ""): string {
+  return [
+    `<!DOCTYPE html><html><head><meta charset="utf-8"></head>`,
+    `<body>${body}<script>${script}</script></body></html>`,
+  ].join("");
+}
+
+export class FakeJobKorea {
+  scenario: FakeScenario = { ...defaultScenario };
+  readonly telegramMessages: TelegramMessage[] = [];
+  readonly telegramFiles: TelegramFile[] = [];
+  // getUpdates로 전달할 메시지 (봇이 offset으로 확인하면 제거)
+  private readonly telegramUpdates: TelegramUpdate[] = [];
+  private nextUpdateId = 1;
+  // 업데이트 요청된 이력서 ID
+  readonly updateClicks: string[] = [];
+  // 비밀번호 변경 안내 팝업에서 "나중에 변경"을 누르고 확인창을 닫은 횟수
+  passwordPopupDeferrals = 0;
+  readonly resumeUpdatedAt = new Map<string, Date>();
+  private server: http.Server | null = null;
+
+  constructor() {
+    this.reset();
+  }
+
+  get baseUrl(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get loginUrl(): string {
+    return `${this.baseUrl}/Login/`;
+  }
+
+  get mypageUrl(): string {
+    return `${this.baseUrl}/User/Mypage`;
+  }
+
+  get telegramApiBaseUrl(): string {
+    return `${this.baseUrl}/telegram`;
+  }
+
+  reset(scenario: Partial<FakeScenario> = {}): void {
+    this.scenario = { ...defaultScenario, ...scenario };
+    this.telegramMessages.length = 0;
+    this.telegramFiles.length = 0;
+    this.telegramUpdates.length = 0;
+    this.updateClicks.length = 0;
+    this.passwordPopupDeferrals = 0;
+    this.resumeUpdatedAt.clear();
+    const lastUpdated = new Date(Date.now() - this.scenario.lastUpdatedMinutesAgo * 60 * 1000);
+    this.scenario.resumes.forEach(id => this.resumeUpdatedAt.set(id, lastUpdated));
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        response.statusCode = 500;
+        response.end(String(error));
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  // 봇에게 채팅 메시지를 보낸다. (getUpdates 응답에 포함)
+  sendBotCommand(chatId: string, text: string): void {
+    const updateId = this.nextUpdateId++;
+    this.telegramUpdates.push({
+      update_id: updateId,
+      message: {
+        message_id: updateId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: Number(chatId) },
+        text,
+      },
+    });
+  }
+
+  private readRawBody(request: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on("data", chunk => chunks.push(chunk));
+      request.on("end", () => resolve(Buffer.concat(chunks)));
+      request.on("error", reject);
+    });
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = "";
+      request.setEncoding("utf-8");
+      request.on("data", chunk => (body += chunk));
+      request.on("end", () => resolve(body));
+      request.on("error", reject);
+    });
+  }
+
+  private send(response: http.ServerResponse, status: number, body: string, type = "text/html"): void {
+    response.writeHead(status, { "Content-Type": `${type}; charset=utf-8` });
+    response.end(body);
+  }
+
+  private redirect(response: http.ServerResponse, location: string): void {
+    response.writeHead(302, { Location: location });
+    response.end();
+  }
+
+  private loginPage(reason: string | null): string {
+    let error = `<p class="login-error"></p>`;
+    let script = "";
+    if (reason === "password") {
+      error = `<p class="login-error">아이디 또는 비밀번호가 일치하지 않습니다.</p>`;
+    } else if (reason === "captcha") {
+      // 안내 문구 없이 보안 문자 입력란만 나타나는 경우
+      error += `<img src="/captcha.png" alt=""><input name="captcha_code" type="text">`;
+    } else if (reason === "locked") {
+      script = `setTimeout(() => alert("비밀번호 5회 오류로 계정이 잠겼습니다."), 100);`;
+    }
+
+    if (this.scenario.selectors === "primary") {
+      return html(`
+        <form method="post" action="/Login/">
+          <input class="input-id" name="user_id" type="text">
+          <input class="input-password" name="user_pwd" type="password">
+          <button class="login-button" type="submit">로그인</button>
+        </form>${error}`,
+        script
+      );
+    }
+
+    return html(`
+      <form method="post" action="/Login/">
+        <input id="user_id" name="user_id" type="text">
+        <input id="user_pwd" name="user_pwd" type="password">
+        <button id="login_btn" type="submit">로그인</button>
+      </form>${error}`,
+      script
+    );
+  }
+
+  private landingPage(): string {
+    // 로그인 직후 비밀번호 변경 안내 팝업 (handleLoginPopup 대상). URL로는 알아볼 수 없다.
+    const script = this.scenario.passwordPopup
+      ? `setTimeout(() => window.open("/popup/notice", "notice", "width=400,height=300"), 300);`
+      : "";
+    return html(`<h1>JobKorea</h1>`, script);
+  }
+
+  private passwordPopupPage(): string {
+    return html(
+      `<p>비밀번호를 변경한 지 오래되었습니다.</p>
+       <a href="javascript:void(confirm('나중에 변경하시겠습니까?') || fetch('/popup/later'))">다음에 하기</a>`
+    );
+  }
+
+  private mypagePage(): string {
+    const statusClass = this.scenario.selectors === "primary" ? "status" : "my-status";
+    const statusLink = (id: string) => {
+      const link =
+        this.scenario.resume === "noPopup"
+          ? `<a href="#">이력서 현황</a>`
+          : `<a href="/resume?rNo=${id}" target="_blank">이력서 현황</a>`;
+      return `<div class="${statusClass}">${link}</div>`;
+    };
+    const lastUpdated = (id: string) =>
+      `<p class="resume-date">최종수정일 ${formatKst(this.resumeUpdatedAt.get(id)!)}</p>`;
+
+    const resumes = this.scenario.resumeList
+      ? `<ul class="resume-list">${this.scenario.resumes
+          .map(
+            id =>
+              `<li data-resume-id="${id}"><span class="resume-title">이력서 ${id}</span>` +
+              `${statusLink(id)}${lastUpdated(id)}</li>`
+          )
+          .join("")}</ul>`
+      : `${statusLink(this.scenario.resumes[0])}${lastUpdated(this.scenario.resumes[0])}`;
+
+    const overlayStyle = "position:fixed;inset:0;background:rgba(0,0,0,.5);z-index:999";
+    const adModal = this.scenario.adModal
+      ? `<div class="ab-iam-root" style="${overlayStyle}"></div>`
+      : "";
+
+    const eventNotice = this.scenario.eventNotice
+      ? `<div class="event-banner" style="${overlayStyle}">` +
+        `<button class="event-close" onclick="this.parentNode.remove()">닫기</button></div>`
+      : "";
+    const script = this.scenario.eventNotice
+      ? `setTimeout(() => alert("[이벤트] 시스템 점검 예정 안내"), 100);`
+      : "";
+
+    return html(`<h1>마이페이지</h1>${resumes}${adModal}${eventNotice}`, script);
+  }
+
+  private resumePage(id: string): string {
+    if (this.scenario.resume === "noButton") {
+      return html(`<h1>이력서</h1>`);
+    }
+
+    const message =
+      this.scenario.resume === "unexpectedDialog"
+        ? "잠시 후 다시 시도해 주세요."
+        : "이력서가 업데이트 되었습니다.";
+    const buttonClass = this.scenario.selectors === "primary" ? "button-update" : "btn-update";
+
+    return html(
+      `<h1>이력서</h1><button class="${buttonClass}" onclick="clickUpdate()">업데이트</button>`,
+      `function clickUpdate() {
+         fetch("/resume/update?rNo=${encodeURIComponent(id)}", { method: "POST" })
+           .then(() => alert(${JSON.stringify(message)}));
+       }`
+    );
+  }
+
+  private recordUpdate(id: string): void {
+    this.updateClicks.push(id);
+    if (this.scenario.lastUpdated === "advances" && this.resumeUpdatedAt.has(id)) {
+      this.resumeUpdatedAt.set(id, new Date());
+    }
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", this.baseUrl);
+    const loggedIn = (request.headers.cookie ?? "").includes("session=valid");
+
+    // Telegram Bot API
+    const fileMatch = url.pathname.match(/^\/telegram\/bot[^/]+\/(sendPhoto|sendDocument)$/);
+    if (fileMatch && request.method === "POST") {
+      const body = await this.readRawBody(request);
+      const field = (name: string) =>
+        body.toString("utf-8").match(new RegExp(`name="${name}"\r\n\r\n([^]*?)\r\n--`))?.[1] ?? "";
+      this.telegramFiles.push({
+        method: fileMatch[1],
+        chatId: field("chat_id"),
+        caption: field("caption"),
+        size: body.length,
+      });
+      this.send(response, 200, JSON.stringify({ ok: true, result: {} }), "application/json");
+      return;
+    }
+
+    if (/^\/telegram\/bot[^/]+\/getUpdates$/.test(url.pathname) && request.method === "POST") {
+      const { offset = 0 } = JSON.parse(await this.readBody(request));
+      const pending = this.telegramUpdates.filter(update => update.update_id >= offset);
+      this.telegramUpdates.splice(0, this.telegramUpdates.length, ...pending);
+      // 롱 폴링 대신 잠시 기다린 뒤 응답해 봇이 바쁘게 반복하지 않도록 한다.
+      if (pending.length === 0) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      this.send(response, 200, JSON.stringify({ ok: true, result: pending }), "application/json");
+      return;
+    }
+
+    const telegramMatch = url.pathname.match(/^\/telegram\/bot([^/]+)\/sendMessage$/);
+    if (telegramMatch && request.method === "POST") {
+      const payload = JSON.parse(await this.readBody(request));
+      this.telegramMessages.push({ token: telegramMatch[1], ...payload });
+      const ok = this.scenario.telegramStatus < 400;
+      this.send(
+        response,
+        this.scenario.telegramStatus,
+        JSON.stringify(ok ? { ok, result: {} } : { ok, description: "Bad Request" }),
+        "application/json"
+      );
+      return;
+    }
+
+    switch (url.pathname) {
+      case "/Login/":
+        if (this.scenario.loginPage === "unreachable") {
+          request.socket.destroy();
+          return;
+        }
+        if (request.method === "POST") {
+          const form = new URLSearchParams(await this.readBody(request));
+          const block = this.scenario.loginBlock;
+          if (form.get("user_pwd") !== VALID_PASSWORD) {
+            this.redirect(response, "/Login/?error=password");
+          } else if (block === "dormant") {
+            this.redirect(response, "/Member/Dormant");
+          } else if (block === "verification") {
+            this.redirect(response, "/Member/Certify");
+          } else if (block !== "none") {
+            this.redirect(response, `/Login/?error=${block}`);
+          } else {
+            response.setHeader("Set-Cookie", "session=valid; Path=/");
+            this.redirect(response, "/");
+          }
+          return;
+        }
+        if (this.scenario.loginPage === "maintenance") {
+          this.send(response, 200, "<html><body><h1>시스템 점검 안내</h1></body></html>");
+          return;
+        }
+        this.send(response, 200, this.loginPage(url.searchParams.get("error")));
+        return;
+      case "/Member/Dormant":
+        this.send(response, 200, html(`<h1>휴면 계정 안내</h1>`));
+        return;
+      case "/Member/Certify":
+        this.send(response, 200, html(`<h1>본인 인증이 필요합니다</h1>`));
+        return;
+      case "/":
+        this.send(response, 200, this.landingPage());
+        return;
+      case "/popup/notice":
+        this.send(response, 200, this.passwordPopupPage());
+        return;
+      case "/popup/later":
+        this.passwordPopupDeferrals++;
+        this.send(response, 200, "");
+        return;
+      case "/User/Mypage":
+        if (this.scenario.mypage === "broken") {
+          // 응답 없이 연결을 끊어 네비게이션 실패(ERR_EMPTY_RESPONSE)를 만든다.
+          request.socket.destroy();
+          return;
+        }
+        if (!loggedIn) {
+          this.redirect(response, "/Login/");
+          return;
+        }
+        this.send(response, 200, this.mypagePage());
+        return;
+      case "/resume":
+        this.send(response, 200, this.resumePage(url.searchParams.get("rNo") ?? ""));
+        return;
+      case "/resume/update":
+        this.recordUpdate(url.searchParams.get("rNo") ?? "");
+        this.send(response, 200, "{}", "application/json");
+        return;
+      default:
+        this.send(response, 404, html("Not Found"));
+    }
+  }
+}
+
+export { VALID_PASSWORD };
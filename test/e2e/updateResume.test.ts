@@ -0,0 +1,717 @@
+// test/e2e/updateResume.test.ts
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { chromium } from "playwright";
+import type { Config, JobKoreaError } from "../../src/types";
+import { FakeJobKorea, FakeScenario, VALID_PASSWORD } from "./fakeJobkorea";
+
+// Chromium이 없는 환경(브라우저 미설치)에서는 스위트 전체를 건너뛴다.
+const skip = existsSync(chromium.executablePath())
+  ? false
+  : "Chromium이 설치되지 않았습니다. (npx playwright install chromium)";
+
+const TELEGRAM_TOKEN = "123456789:TEST_TOKEN_abcdefghijklmnop";
+const TELEGRAM_CHAT_ID = "12345";
+
+describe("updateResume (가짜 JobKorea 사이트)", { skip }, () => {
+  const site = new FakeJobKorea();
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let updateResume: typeof import("../../src/updateResume").updateResume;
+  let configManager: typeof import("../../src/config").configManager;
+
+  const config = (password = VALID_PASSWORD): Config => ({
+    accounts: [{ label: "e2e", jobkoreaId: "e2e-user", jobkoreaPwd: password }],
+    telegramToken: TELEGRAM_TOKEN,
+    telegramChatId: TELEGRAM_CHAT_ID,
+  });
+
+  const run = async (scenario: Partial<FakeScenario>, password?: string) => {
+    site.reset(scenario);
+    const [result] = await updateResume(config(password));
+    const report = JSON.parse(readFileSync(path.join(workDir, "run-report.json"), "utf-8"));
+    return { result, report, account: report.accounts[0] };
+  };
+
+  before(async () => {
+    await site.start();
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-e2e-"));
+    process.chdir(workDir);
+
+    // 설정은 모듈 로드 시점에 환경변수에서 읽으므로 import 전에 지정한다.
+    Object.assign(process.env, {
+      JOBKOREA_LOGIN_URL: site.loginUrl,
+      JOBKOREA_MYPAGE_URL: site.mypageUrl,
+      TELEGRAM_API_BASE_URL: site.telegramApiBaseUrl,
+      NOTIFY_CHANNELS: "telegram",
+      RUN_REPORT_PATH: path.join(workDir, "run-report.json"),
+      NAVIGATION_TIMEOUT_MS: "5000",
+      ELEMENT_TIMEOUT_MS: "3000",
+      POPUP_TIMEOUT_MS: "2000",
+      MAX_OPERATION_RETRIES: "1",
+      MAX_PROCESS_RETRIES: "1",
+      RETRY_BASE_DELAY_MS: "100",
+      LOG_LEVEL: "warn",
+    });
+    delete process.env.SESSION_ENCRYPTION_KEY;
+
+    ({ updateResume } = await import("../../src/updateResume"));
+    ({ configManager } = await import("../../src/config"));
+  });
+
+  after(async () => {
+    process.chdir(originalCwd);
+    await site.stop();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    site.reset();
+    // 셀렉터 이력, 시도 기록, 실행 이력은 실행 간에 유지되므로 테스트마다 초기화한다.
+    rmSync(path.join(workDir, "selector-history.json"), { force: true });
+    rmSync(path.join(workDir, "attempt-ledger.json"), { force: true });
+    rmSync(path.join(workDir, "run-history.jsonl"), { force: true });
+    rmSync(path.join(workDir, "artifacts"), { recursive: true, force: true });
+  });
+
+  it("기본 셀렉터로 로그인부터 업데이트까지 성공한다", async () => {
+    const { result, account } = await run({});
+
+    assert.equal(result.success, true);
+    assert.equal(site.updateClicks.length, 1);
+    // URL에 password가 없어도 "나중에 변경" 링크로 비밀번호 변경 안내 팝업을 처리한다.
+    assert.equal(site.passwordPopupDeferrals, 1);
+    assert.equal(site.telegramMessages.length, 1);
+    assert.match(site.telegramMessages[0].text, /이력서 업데이트 완료/);
+    assert.equal(site.telegramMessages[0].token, TELEGRAM_TOKEN);
+    assert.match(site.telegramMessages[0].text, /최종수정일: \d{4}\.\d{2}\.\d{2} \d{2}:\d{2}/);
+    assert.equal(result.resumes?.[0].updatedAt, account.resumes[0].updatedAt.raw);
+    assert.equal(account.resumes[0].id, "R100");
+    assert.ok(
+      account.selectors.every((match: { index: number }) => match.index === 0),
+      "모든 셀렉터가 1순위로 매칭되어야 합니다."
+    );
+  });
+
+  it("비밀번호 팝업과 광고 모달이 없어도 성공한다", async () => {
+    const { result } = await run({ passwordPopup: false, adModal: false });
+
+    assert.equal(result.success, true);
+    assert.equal(site.updateClicks.length, 1);
+  });
+
+  it("기본 셀렉터가 사라져도 fallback 셀렉터로 성공한다", async () => {
+    const { result, account } = await run({ selectors: "fallback" });
+
+    assert.equal(result.success, true);
+    const matched = Object.fromEntries(
+      account.selectors.map((match: { name: string; index: number }) => [match.name, match.index])
+    );
+    assert.equal(matched["login.idInput"], 1);
+    assert.equal(matched["login.passwordInput"], 1);
+    assert.equal(matched["login.loginButton"], 1);
+    assert.equal(matched["mypage.statusLink"], 1);
+    assert.equal(matched["mypage.updateButton"], 1);
+  });
+
+  it("fallback 셀렉터를 쓰거나 이전 실행과 셀렉터가 달라지면 경고 알림을 보낸다", async () => {
+    await run({});
+    assert.equal(site.telegramMessages.length, 1);
+
+    await run({ selectors: "fallback" });
+    const warning = site.telegramMessages.find(message => /셀렉터 변경 감지/.test(message.text));
+    assert.ok(warning, "셀렉터 경고 알림이 전송되어야 합니다.");
+    assert.match(warning.text, /mypage\.updateButton: fallback 1 사용/);
+    assert.match(warning.text, /login\.idInput: 이전 실행과 다른 셀렉터/);
+
+    const history = JSON.parse(readFileSync(path.join(workDir, "selector-history.json"), "utf-8"));
+    assert.equal(history.last["mypage.updateButton"].index, 1);
+  });
+
+  it("이력서가 여러 개면 모두 업데이트하고 이력서별 결과를 남긴다", async () => {
+    const { result, account } = await run({ resumes: ["R1", "R2"] });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(site.updateClicks, ["R1", "R2"]);
+    assert.deepEqual(
+      account.resumes.map((resume: { id: string; success: boolean }) => [resume.id, resume.success]),
+      [
+        ["R1", true],
+        ["R2", true],
+      ]
+    );
+    assert.match(site.telegramMessages[0].text, /이력서 R2 \(R2\): 성공 - 최종수정일/);
+  });
+
+  it("이력서 목록이 없는 화면에서는 첫 번째 이력서만 업데이트한다", async () => {
+    const { result, account } = await run({ resumeList: false });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(site.updateClicks, ["R100"]);
+    assert.equal(account.resumes[0].id, "default");
+  });
+
+  describe("RESUME_IDS 지정", () => {
+    before(() => {
+      process.env.RESUME_IDS = "R2,R9";
+      configManager.load();
+    });
+
+    after(() => {
+      delete process.env.RESUME_IDS;
+      configManager.load();
+    });
+
+    it("지정한 이력서만 업데이트하고 없는 ID는 재시도 없이 실패로 기록한다", async () => {
+      process.env.MAX_PROCESS_RETRIES = "3";
+      configManager.load();
+      const { result, account } = await run({ resumes: ["R1", "R2"] }).finally(() => {
+        process.env.MAX_PROCESS_RETRIES = "1";
+        configManager.load();
+      });
+
+      assert.equal(result.success, false);
+      assert.equal((result.error as JobKoreaError).code, "CONFIG_ERROR");
+      assert.equal(account.processAttempts, 1);
+      assert.deepEqual(site.updateClicks, ["R2"]);
+      const outcomes = Object.fromEntries(
+        account.resumes.map((resume: { id: string; success: boolean }) => [resume.id, resume.success])
+      );
+      assert.deepEqual(outcomes, { R2: true, R9: false });
+    });
+  });
+
+  it("최근에 업데이트된 이력서는 건너뛰고 건너뜀 알림을 보낸다", async () => {
+    const { result, account } = await run({ resumes: ["R1", "R2"], lastUpdatedMinutesAgo: 10 });
+
+    assert.equal(result.success, true);
+    assert.equal(result.skipped, "recentlyUpdated");
+    assert.deepEqual(site.updateClicks, []);
+    assert.equal(account.skipped, "recentlyUpdated");
+    assert.ok(account.resumes.every((resume: { skipped?: boolean }) => resume.skipped));
+    assert.match(site.telegramMessages[0].text, /이력서 업데이트 건너뜀 \(최근 60분 안에 업데이트됨\)/);
+    assert.match(site.telegramMessages[0].text, /이력서 R1 \(R1\): 건너뜀 - 최종수정일/);
+  });
+
+  describe("일일 시도 한도", () => {
+    before(() => {
+      process.env.DAILY_ATTEMPT_CAP = "2";
+      configManager.load();
+    });
+
+    after(() => {
+      delete process.env.DAILY_ATTEMPT_CAP;
+      configManager.load();
+    });
+
+    const ledgerDays = () =>
+      Object.values(
+        JSON.parse(readFileSync(path.join(workDir, "attempt-ledger.json"), "utf-8")).days
+      );
+
+    it("업데이트 버튼을 누르기 전에 끝난 시도는 세지 않는다", async () => {
+      await run({}, "wrong-password");
+      await run({ resume: "noButton" });
+      assert.equal(existsSync(path.join(workDir, "attempt-ledger.json")), false);
+
+      // 버튼을 누른 뒤 실패한 시도는 센다.
+      await run({ resume: "unexpectedDialog" });
+      assert.deepEqual(ledgerDays(), [{ e2e: 1 }]);
+    });
+
+    it("오늘 시도 횟수가 한도에 도달하면 로그인하지 않고 건너뛴다", async () => {
+      await run({});
+      await run({});
+      assert.deepEqual(site.updateClicks, ["R100"]);
+      const { result, account } = await run({});
+
+      assert.equal(result.success, true);
+      assert.equal(result.skipped, "dailyQuota");
+      assert.equal(result.retryCount, 0);
+      assert.deepEqual(site.updateClicks, []);
+      assert.equal(account.processAttempts, 0);
+      assert.match(site.telegramMessages[0].text, /오늘 시도 한도 2회 도달/);
+      assert.deepEqual(ledgerDays(), [{ e2e: 2 }]);
+    });
+  });
+
+  describe("방해 요소 규칙", () => {
+    const withRules = async (rules: unknown[], fn: () => Promise<void>) => {
+      const configPath = path.join(workDir, "jobkorea.config.json");
+      writeFileSync(configPath, JSON.stringify({ interruptions: rules }));
+      configManager.load();
+      try {
+        await fn();
+      } finally {
+        rmSync(configPath, { force: true });
+        configManager.load();
+      }
+    };
+
+    it("설정한 규칙으로 오버레이의 닫기 버튼을 누르고 알림창을 받아들인다", async () => {
+      const rules = [
+        { name: "이벤트 배너", overlay: ".event-banner", action: "click", selector: ".event-close" },
+        { name: "이벤트 알림", dialogMessage: "^\\[이벤트\\]", action: "accept" },
+      ];
+      await withRules(rules, async () => {
+        const { result } = await run({ passwordPopup: false, adModal: false, eventNotice: true });
+
+        assert.equal(result.success, true);
+        assert.deepEqual(site.updateClicks, ["R100"]);
+      });
+    });
+
+    it("fail 규칙에 걸리면 지정한 코드로 재시도 없이 실패한다", async () => {
+      const rules = [
+        { name: "점검 예정 알림", dialogMessage: "점검", action: "fail", code: "SITE_MAINTENANCE" },
+        { name: "광고 모달", overlay: ".ab-iam-root", action: "remove" },
+      ];
+      process.env.MAX_PROCESS_RETRIES = "3";
+      try {
+        await withRules(rules, async () => {
+          const { result, account } = await run({ passwordPopup: false, eventNotice: true });
+
+          assert.equal((result.error as JobKoreaError).code, "SITE_MAINTENANCE");
+          assert.equal(account.processAttempts, 1);
+          assert.equal(account.error.context.rule, "점검 예정 알림");
+          assert.deepEqual(site.updateClicks, []);
+        });
+      } finally {
+        process.env.MAX_PROCESS_RETRIES = "1";
+        configManager.load();
+      }
+    });
+  });
+
+  it("로그인 페이지에 접속할 수 없으면 NAVIGATION_ERROR로 실패한다", async () => {
+    const { result, account } = await run({ loginPage: "unreachable" });
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "NAVIGATION_ERROR");
+    assert.equal(account.error.code, "NAVIGATION_ERROR");
+    assert.match(site.telegramMessages[0].text, /NAVIGATION_ERROR/);
+  });
+
+  it("비밀번호가 틀리면 CREDENTIALS_REJECTED로 실패하고 실패 알림을 보낸다", async () => {
+    const { result, account } = await run({}, "wrong-password");
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "CREDENTIALS_REJECTED");
+    assert.equal(account.error.context.message, "아이디 또는 비밀번호가 일치하지 않습니다.");
+    assert.equal(site.updateClicks.length, 0);
+    assert.match(site.telegramMessages[0].text, /최종 실패/);
+    assert.match(site.telegramMessages[0].text, /아이디 또는 비밀번호가 맞지 않습니다/);
+    assert.ok(
+      account.artifacts.some((artifact: string) =>
+        path.basename(artifact).startsWith("error-e2e-login-")
+      )
+    );
+  });
+
+  it("로그인이 막힌 원인을 구분하고 재시도하지 않는다", async () => {
+    const cases: Array<[FakeScenario["loginBlock"], string]> = [
+      ["captcha", "CAPTCHA_REQUIRED"],
+      ["dormant", "ACCOUNT_DORMANT"],
+      ["locked", "ACCOUNT_LOCKED"],
+      ["verification", "VERIFICATION_REQUIRED"],
+    ];
+    process.env.MAX_PROCESS_RETRIES = "3";
+    configManager.load();
+    try {
+      for (const [loginBlock, code] of cases) {
+        const { result, account } = await run({ loginBlock });
+
+        assert.equal((result.error as JobKoreaError).code, code, loginBlock);
+        assert.equal(account.processAttempts, 1, loginBlock);
+        assert.equal(account.error.retryable, false, loginBlock);
+        assert.match(site.telegramMessages[0].text, /조치: 🚨/, loginBlock);
+      }
+    } finally {
+      process.env.MAX_PROCESS_RETRIES = "1";
+      configManager.load();
+    }
+  });
+
+  it("실패 알림에 스크린샷을 첨부하고 크기 제한을 넘는 파일은 생략한다", async () => {
+    await run({}, "wrong-password");
+
+    assert.equal(site.telegramFiles.length, 1);
+    assert.equal(site.telegramFiles[0].method, "sendPhoto");
+    assert.equal(site.telegramFiles[0].chatId, TELEGRAM_CHAT_ID);
+    assert.match(site.telegramFiles[0].caption, /코드: CREDENTIALS_REJECTED · 단계: login/);
+
+    process.env.TELEGRAM_ATTACHMENT_MAX_BYTES = "1";
+    configManager.load();
+    try {
+      await run({}, "wrong-password");
+      assert.match(site.telegramMessages[0].text, /최종 실패/);
+      assert.equal(site.telegramFiles.length, 0);
+    } finally {
+      delete process.env.TELEGRAM_ATTACHMENT_MAX_BYTES;
+      configManager.load();
+    }
+  });
+
+  it("아티팩트 실행 폴더는 이번 실행을 포함해 keepRuns개만 남긴다", async () => {
+    process.env.ARTIFACTS_KEEP_RUNS = "2";
+    configManager.load();
+    try {
+      for (let i = 0; i < 3; i++) {
+        await run({}, "wrong-password");
+      }
+      assert.equal(readdirSync(path.join(workDir, "artifacts")).length, 2);
+    } finally {
+      delete process.env.ARTIFACTS_KEEP_RUNS;
+      configManager.load();
+    }
+  });
+
+  it("실패한 시도의 trace와 HAR만 남기고 실패 알림에 경로를 적는다", async () => {
+    // trace는 CI에서 거부하므로 이 테스트 동안만 로컬 환경처럼 실행한다.
+    const ci = process.env.CI;
+    delete process.env.CI;
+    Object.assign(process.env, { RECORD_TRACE: "true", RECORD_HAR: "true" });
+    assert.deepEqual(configManager.load(), []);
+    try {
+      await run({});
+      assert.equal(existsSync(path.join(workDir, "artifacts")), false);
+
+      const { account, report } = await run({ resume: "noButton" });
+      const files = (account.artifacts as string[]).filter(file =>
+        /error-e2e-(trace|network)-\d+\.(zip|har)$/.test(file)
+      );
+      assert.equal(files.length, 2);
+      assert.ok(files.every(file => existsSync(file)));
+      assert.match(site.telegramMessages[0].text, /기록: .*error-e2e-trace-\d+\.zip/);
+
+      // HAR의 로그인 요청 본문에서 아이디와 비밀번호를 가리고 manifest에 남긴다.
+      const har = readFileSync(files.find(file => file.endsWith(".har"))!, "utf-8");
+      assert.ok(!har.includes("e2e-user") && !har.includes(VALID_PASSWORD));
+      assert.match(har, /\[REDACTED\]/);
+      const runDir = path.dirname(files[0]);
+      const manifest = JSON.parse(readFileSync(path.join(runDir, "manifest.json"), "utf-8"));
+      assert.equal(manifest.runId, report.runId);
+      assert.deepEqual(
+        manifest.files.map((entry: { file: string }) => entry.file).sort(),
+        readdirSync(runDir).filter(file => file !== "manifest.json").sort()
+      );
+    } finally {
+      delete process.env.RECORD_TRACE;
+      delete process.env.RECORD_HAR;
+      if (ci !== undefined) {
+        process.env.CI = ci;
+      }
+      configManager.load();
+    }
+  });
+
+  it("영어 템플릿과 MarkdownV2 형식으로 재시도/실패 알림을 보낸다", async () => {
+    Object.assign(process.env, {
+      MESSAGE_LOCALE: "en",
+      TELEGRAM_PARSE_MODE: "MarkdownV2",
+      NOTIFY_RETRIES: "true",
+      MAX_PROCESS_RETRIES: "2",
+    });
+    configManager.load();
+    try {
+      await run({ mypage: "broken" });
+    } finally {
+      for (const name of ["MESSAGE_LOCALE", "TELEGRAM_PARSE_MODE", "NOTIFY_RETRIES"]) {
+        delete process.env[name];
+      }
+      process.env.MAX_PROCESS_RETRIES = "1";
+      configManager.load();
+    }
+
+    const [retry, failure] = site.telegramMessages;
+    assert.equal(retry.parse_mode, "MarkdownV2");
+    assert.match(retry.text, /^🔁 Retrying resume update \\\(2\/2\\\)/);
+    assert.equal(failure.parse_mode, "MarkdownV2");
+    assert.match(failure.text, /^❌ Resume update failed\\!/);
+    assert.match(failure.text, /\\\(NAVIGATION\\_ERROR\\\)/);
+
+    process.env.MESSAGE_LOCALE = "en";
+    configManager.load();
+    try {
+      await run({}, "wrong-password");
+    } finally {
+      delete process.env.MESSAGE_LOCALE;
+      configManager.load();
+    }
+    assert.match(
+      site.telegramMessages[0].text,
+      /Reason: Login failed: the ID or password is incorrect\. \(CREDENTIALS_REJECTED\)/
+    );
+  });
+
+  it("점검 안내 페이지이면 재시도하지 않고 SITE_MAINTENANCE로 실패한다", async () => {
+    process.env.MAX_PROCESS_RETRIES = "3";
+    configManager.load();
+    try {
+      const { result, account } = await run({ loginPage: "maintenance" });
+
+      assert.equal(result.success, false);
+      assert.equal((result.error as JobKoreaError).code, "SITE_MAINTENANCE");
+      assert.equal(account.processAttempts, 1);
+      assert.equal(account.error.retryable, false);
+      assert.match(site.telegramMessages[0].text, /조치: JobKorea 점검이 끝난 뒤/);
+    } finally {
+      process.env.MAX_PROCESS_RETRIES = "1";
+      configManager.load();
+    }
+  });
+
+  it("마이페이지 응답이 끊기면 NAVIGATION_ERROR로 실패한다", async () => {
+    const { result } = await run({ mypage: "broken" });
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "NAVIGATION_ERROR");
+  });
+
+  it("이력서 팝업이 열리지 않으면 UPDATE_ERROR로 실패한다", async () => {
+    const { result } = await run({ resume: "noPopup" });
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "UPDATE_ERROR");
+  });
+
+  it("업데이트 버튼이 없으면 SELECTOR_DRIFT로 실패하고 조치를 안내한다", async () => {
+    const { result } = await run({ resume: "noButton" });
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "SELECTOR_DRIFT");
+    assert.match(site.telegramMessages[0].text, /조치: .*셀렉터 설정을 점검해주세요/);
+    assert.equal(site.updateClicks.length, 0);
+  });
+
+  it("예상치 못한 다이얼로그가 뜨면 UPDATE_ERROR로 실패한다", async () => {
+    const { result } = await run({ resume: "unexpectedDialog" });
+
+    assert.equal(result.success, false);
+    assert.equal((result.error as JobKoreaError).code, "UPDATE_ERROR");
+    assert.match((result.error as Error).message, /예상치 못한 다이얼로그/);
+  });
+
+  it("업데이트 후 최종수정일이 그대로면 버튼을 다시 누르지 않고 실패한다", async () => {
+    process.env.MAX_OPERATION_RETRIES = "3";
+    process.env.MAX_PROCESS_RETRIES = "3";
+    configManager.load();
+    try {
+      const { result, account } = await run({ lastUpdated: "stale" });
+
+      assert.equal(result.success, false);
+      assert.equal((result.error as JobKoreaError).name, "UpdateVerificationError");
+      assert.equal((result.error as JobKoreaError).code, "UPDATE_ERROR");
+      assert.equal(site.updateClicks.length, 1);
+      assert.equal(account.processAttempts, 1);
+      assert.equal(account.error.name, "UpdateVerificationError");
+    } finally {
+      process.env.MAX_OPERATION_RETRIES = "1";
+      process.env.MAX_PROCESS_RETRIES = "1";
+      configManager.load();
+    }
+  });
+
+  it("실행마다 계정별 결과를 실행 이력(JSONL)에 덧붙인다", async () => {
+    await run({});
+    await run({ lastUpdated: "stale" });
+
+    const records = readFileSync(path.join(workDir, "run-history.jsonl"), "utf-8")
+      .trim()
+      .split("\n")
+      .map(line => JSON.parse(line));
+    assert.deepEqual(
+      records.map(record => [record.account, record.outcome, record.errorCode]),
+      [
+        ["e2e", "success", undefined],
+        ["e2e", "failure", "UPDATE_ERROR"],
+      ]
+    );
+    assert.ok(records.every(record => record.durationMs >= 0 && record.processAttempts === 1));
+  });
+
+  describe("주간 요약", () => {
+    before(() => {
+      process.env.WEEKLY_DIGEST = "true";
+      configManager.load();
+    });
+
+    after(() => {
+      delete process.env.WEEKLY_DIGEST;
+      configManager.load();
+    });
+
+    it("이번 주 첫 실행이면 지난 7일 요약 알림을 보낸다", async () => {
+      // 이번 주(월요일 00:00 KST) 시작 1분 전의 실패 기록
+      const kstNow = new Date(Date.now() + 9 * 60 * 60 * 1000);
+      const weekStart =
+        Date.UTC(
+          kstNow.getUTCFullYear(),
+          kstNow.getUTCMonth(),
+          kstNow.getUTCDate() - ((kstNow.getUTCDay() + 6) % 7)
+        ) -
+        9 * 60 * 60 * 1000;
+      const lastWeek = new Date(weekStart - 60 * 1000).toISOString();
+      const previous = {
+        runId: "previous",
+        account: "e2e",
+        startedAt: lastWeek,
+        endedAt: lastWeek,
+        durationMs: 1000,
+        outcome: "failure",
+        dryRun: false,
+        processAttempts: 3,
+        stepRetries: 0,
+        resumes: 1,
+        errorCode: "NETWORK_ERROR",
+      };
+      writeFileSync(path.join(workDir, "run-history.jsonl"), `${JSON.stringify(previous)}\n`);
+
+      await run({});
+      const digest = site.telegramMessages.find(message => /주간 요약/.test(message.text));
+      assert.ok(digest, "주간 요약 알림이 전송되어야 합니다.");
+      assert.match(digest.text, /주요 실패: NETWORK_ERROR 1회/);
+
+      // 같은 주의 두 번째 실행에서는 보내지 않는다.
+      await run({});
+      assert.ok(!site.telegramMessages.some(message => /주간 요약/.test(message.text)));
+    });
+  });
+
+  it("Telegram 전송이 실패해도 업데이트 결과는 성공으로 남는다", async () => {
+    const { result } = await run({ telegramStatus: 400 });
+
+    assert.equal(result.success, true);
+    assert.equal(site.telegramMessages.length, 1);
+  });
+
+  describe("드라이런", () => {
+    before(() => {
+      configManager.load({ dryRun: true });
+    });
+
+    after(() => {
+      configManager.load();
+    });
+
+    it("업데이트 버튼을 확인만 하고 클릭하지 않는다", async () => {
+      const { result, report, account } = await run({ selectors: "fallback" });
+
+      assert.equal(result.success, true);
+      assert.equal(report.dryRun, true);
+      assert.equal(site.updateClicks.length, 0);
+      assert.ok(
+        account.selectors.some((match: { name: string }) => match.name === "mypage.updateButton")
+      );
+      assert.match(site.telegramMessages[0].text, /드라이런 OK/);
+      assert.match(site.telegramMessages[0].text, /mypage\.updateButton: .+ \(fallback 1\)/);
+    });
+
+    it("업데이트 버튼 후보가 보이지 않으면 드라이런 FAIL 알림을 보낸다", async () => {
+      const { result } = await run({ resume: "noButton" });
+
+      assert.equal(result.success, false);
+      assert.equal((result.error as JobKoreaError).code, "SELECTOR_DRIFT");
+      assert.match(site.telegramMessages[0].text, /드라이런 FAIL/);
+    });
+  });
+
+  describe("Telegram 봇 명령어", () => {
+    let createTelegramBot: typeof import("../../src/cli/commands").createTelegramBot;
+    let JobQueue: typeof import("../../src/utils/jobQueue").JobQueue;
+
+    const waitFor = async (condition: () => boolean, timeoutMs = 20000) => {
+      const deadline = Date.now() + timeoutMs;
+      while (!condition()) {
+        if (Date.now() > deadline) {
+          throw new Error("조건을 기다리다 시간이 초과되었습니다.");
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    };
+
+    // 봇을 실행한 채로 fn을 수행하고 종료한다.
+    const withBot = async (fn: () => Promise<void>) => {
+      const bot = createTelegramBot(config(), new JobQueue());
+      const running = bot.start();
+      try {
+        await fn();
+      } finally {
+        bot.stop();
+        await running;
+      }
+    };
+
+    const replies = () => site.telegramMessages.map(message => message.text);
+
+    before(async () => {
+      process.env.PREFLIGHT_ENABLED = "false";
+      process.env.TELEGRAM_POLL_TIMEOUT_SECONDS = "1";
+      configManager.load();
+      ({ createTelegramBot } = await import("../../src/cli/commands"));
+      ({ JobQueue } = await import("../../src/utils/jobQueue"));
+    });
+
+    after(() => {
+      delete process.env.PREFLIGHT_ENABLED;
+      delete process.env.TELEGRAM_POLL_TIMEOUT_SECONDS;
+      configManager.load();
+    });
+
+    it("/status는 마지막 실행 결과를 답하고 다른 채팅의 명령어는 무시한다", async () => {
+      await run({});
+      site.reset();
+
+      await withBot(async () => {
+        site.sendBotCommand("99999", "/update");
+        site.sendBotCommand(TELEGRAM_CHAT_ID, "/status");
+        await waitFor(() => replies().length > 0);
+      });
+
+      assert.equal(site.updateClicks.length, 0);
+      assert.equal(replies().length, 1);
+      assert.match(replies()[0], /마지막 실행: .+\n• e2e: 성공, \d+초, 시도 1번/);
+    });
+
+    it("/update는 바로 업데이트하고 결과 알림을 보낸다", async () => {
+      await withBot(async () => {
+        site.sendBotCommand(TELEGRAM_CHAT_ID, "/update");
+        await waitFor(() => replies().some(text => /이력서 업데이트 완료/.test(text)));
+      });
+
+      assert.match(replies()[0], /이력서 업데이트을\(를\) 시작합니다/);
+      assert.deepEqual(site.updateClicks, ["R100"]);
+    });
+
+    it("/dryrun은 클릭하지 않고 드라이런 결과를 보낸 뒤 설정을 되돌린다", async () => {
+      await withBot(async () => {
+        site.sendBotCommand(TELEGRAM_CHAT_ID, "/dryrun");
+        await waitFor(() => replies().some(text => /드라이런 OK/.test(text)));
+      });
+
+      assert.equal(site.updateClicks.length, 0);
+      assert.equal(configManager.getUpdateConfig().dryRun, false);
+    });
+
+    it("/snapshot은 마이페이지 스크린샷을 사진으로 보낸다", async () => {
+      await withBot(async () => {
+        site.sendBotCommand(TELEGRAM_CHAT_ID, "/snapshot");
+        await waitFor(() => site.telegramFiles.length > 0);
+      });
+
+      assert.equal(site.telegramFiles[0].method, "sendPhoto");
+      assert.equal(site.telegramFiles[0].chatId, TELEGRAM_CHAT_ID);
+      assert.ok(site.telegramFiles[0].size > 1000);
+    });
+  });
+});
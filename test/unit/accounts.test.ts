@@ -0,0 +1,97 @@
+// test/unit/accounts.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import { hasAccountSource, loadAccounts } from "../../src/config/accounts";
+import { clearCredentials, writeVault } from "../../src/config/credentials";
+
+const NAMES = [
+  "JOBKOREA_ID",
+  "JOBKOREA_PWD",
+  "JOBKOREA_ID_1",
+  "JOBKOREA_PWD_1",
+  "JOBKOREA_ID_2",
+  "JOBKOREA_PWD_2",
+  "SECRETS_VAULT_PASSPHRASE",
+];
+
+describe("accounts", () => {
+  let workDir: string;
+
+  const clearEnv = () => {
+    for (const name of NAMES) {
+      delete process.env[name];
+      delete process.env[`${name}_FILE`];
+      delete process.env[`${name}_COMMAND`];
+    }
+    delete process.env.JOBKOREA_ACCOUNTS_FILE;
+  };
+
+  before(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-accounts-"));
+    process.env.SECRETS_VAULT_FILE = path.join(workDir, "secrets.enc");
+    configManager.load();
+  });
+
+  after(() => {
+    clearEnv();
+    clearCredentials();
+    delete process.env.SECRETS_VAULT_FILE;
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearEnv();
+    clearCredentials();
+  });
+
+  it("설정한 계정이 없으면 계정 출처가 없다", () => {
+    assert.equal(hasAccountSource(), false);
+    assert.equal(loadAccounts().source, "none");
+  });
+
+  it("JOBKOREA_ID_FILE로 단일 계정을 불러온다", () => {
+    const file = path.join(workDir, "id.txt");
+    writeFileSync(file, "file-user\n");
+    process.env.JOBKOREA_ID_FILE = file;
+    process.env.JOBKOREA_PWD_COMMAND = "echo command-pass";
+
+    assert.equal(hasAccountSource(), true);
+    assert.deepEqual(loadAccounts(), {
+      accounts: [{ label: "default", jobkoreaId: "file-user", jobkoreaPwd: "command-pass" }],
+      source: "env",
+      errors: [],
+    });
+  });
+
+  it("번호 붙은 ID를 _COMMAND와 암호화 파일에서 읽는다", () => {
+    process.env.SECRETS_VAULT_PASSPHRASE = "vault-passphrase";
+    writeVault({ JOBKOREA_ID_1: "vault-user", JOBKOREA_PWD_1: "vault-pass" });
+    process.env.JOBKOREA_ID_2_COMMAND = "echo command-user";
+    process.env.JOBKOREA_PWD_2 = "env-pass";
+
+    assert.equal(hasAccountSource(), true);
+    const { accounts, source, errors } = loadAccounts();
+    assert.equal(source, "indexed-env");
+    assert.deepEqual(errors, []);
+    assert.deepEqual(
+      accounts.map(account => [account.jobkoreaId, account.jobkoreaPwd]),
+      [
+        ["vault-user", "vault-pass"],
+        ["command-user", "env-pass"],
+      ]
+    );
+  });
+
+  it("ID를 읽지 못하면 계정 출처는 있지만 오류를 알린다", () => {
+    process.env.JOBKOREA_ID_FILE = path.join(workDir, "missing.txt");
+
+    assert.equal(hasAccountSource(), true);
+    const { accounts, errors } = loadAccounts();
+    assert.deepEqual(accounts, []);
+    assert.match(errors[0] ?? "", /JOBKOREA_ID_FILE을 읽을 수 없습니다/);
+  });
+});
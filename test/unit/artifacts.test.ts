@@ -0,0 +1,243 @@
+// test/unit/artifacts.test.ts
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import {
+  ArtifactManifest,
+  ArtifactStore,
+  cleanupArtifacts,
+  createArtifactStore,
+  pruneArtifactRuns,
+} from "../../src/services/artifacts";
+
+const RUN_ID = "abcdef12-3456-7890-abcd-ef1234567890";
+const STARTED_AT = "2026-10-19T01:02:03.000Z";
+const PASSWORD = 'p&ss "word" 1!';
+
+describe("artifacts", () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let artifactsDir: string;
+
+  const makeRun = (name: string, mtime?: Date) => {
+    const dir = path.join(artifactsDir, name);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path.join(dir, "manifest.json"), "{}");
+    if (mtime) {
+      utimesSync(dir, mtime, mtime);
+    }
+  };
+
+  before(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-artifacts-"));
+    artifactsDir = path.join(workDir, "artifacts");
+    process.chdir(workDir);
+    Object.assign(process.env, {
+      ARTIFACTS_DIR: artifactsDir,
+      ARTIFACTS_KEEP_RUNS: "2",
+      ARTIFACTS_MAX_AGE_DAYS: "7",
+      LOG_LEVEL: "error",
+    });
+    configManager.load();
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    rmSync(artifactsDir, { recursive: true, force: true });
+  });
+
+  describe("ArtifactStore", () => {
+    it("실행 폴더 이름은 시작 시각과 실행 ID 앞 8자리다", () => {
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, []);
+      assert.equal(path.basename(store.runDir), "20261019-010203-abcdef12");
+      assert.equal(existsSync(store.runDir), false);
+    });
+
+    it("비밀 값과 이스케이프된 형태를 모두 가린다", () => {
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, ["e2e-user", PASSWORD, "abc"]);
+      const text = [
+        "id=e2e-user",
+        PASSWORD,
+        "p&amp;ss &quot;word&quot; 1!",
+        encodeURIComponent(PASSWORD),
+        new URLSearchParams({ pw: PASSWORD }).toString(),
+        JSON.stringify({ pw: PASSWORD }),
+        "abc",
+      ].join("\n");
+
+      const redacted = store.redact(text);
+      assert.equal(redacted.includes("e2e-user"), false);
+      assert.equal(redacted.includes("word"), false);
+      assert.match(redacted, /pw=\[REDACTED\]/);
+      // 너무 짧은 값은 가리지 않는다.
+      assert.match(redacted, /^abc$/m);
+    });
+
+    it("저장한 파일을 manifest.json에 기록한다", () => {
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, [PASSWORD]);
+      const filePath = store.writeText("login.html", `<input value="${PASSWORD}">`, {
+        account: "main",
+        step: "login",
+      });
+
+      assert.equal(readFileSync(filePath, "utf-8"), '<input value="[REDACTED]">');
+      const manifest = JSON.parse(
+        readFileSync(path.join(store.runDir, "manifest.json"), "utf-8")
+      ) as ArtifactManifest;
+      assert.equal(manifest.runId, RUN_ID);
+      assert.deepEqual(
+        manifest.files.map(({ file, account, step }) => ({ file, account, step })),
+        [{ file: "login.html", account: "main", step: "login" }]
+      );
+    });
+
+    it("HAR의 쿠키와 인증 헤더 값을 지운다", () => {
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, [PASSWORD]);
+      const har = {
+        log: {
+          entries: [
+            {
+              request: {
+                headers: [
+                  { name: "Cookie", value: "SESSION=abc123" },
+                  { name: "Authorization", value: "Bearer token-1" },
+                  { name: "Accept", value: "text/html" },
+                ],
+                cookies: [{ name: "SESSION", value: "abc123" }],
+                postData: { text: new URLSearchParams({ pw: PASSWORD }).toString() },
+              },
+              response: {
+                headers: [{ name: "set-cookie", value: "SESSION=def456; HttpOnly" }],
+                cookies: [{ name: "SESSION", value: "def456", httpOnly: true }],
+              },
+            },
+          ],
+        },
+      };
+
+      const filePath = store.writeHar("network.har", JSON.stringify(har));
+      assert.ok(filePath);
+      const saved = readFileSync(filePath, "utf-8");
+      assert.doesNotMatch(saved, /abc123|def456|token-1/);
+      assert.ok(!saved.includes(PASSWORD));
+
+      const [entry] = (JSON.parse(saved) as typeof har).log.entries;
+      assert.deepEqual(entry.request.headers.map(header => header.value), [
+        "[REDACTED]",
+        "[REDACTED]",
+        "text/html",
+      ]);
+      assert.deepEqual(entry.response.headers, [{ name: "set-cookie", value: "[REDACTED]" }]);
+      assert.deepEqual(entry.response.cookies, [
+        { name: "SESSION", value: "[REDACTED]", httpOnly: true },
+      ]);
+    });
+
+    it("읽을 수 없는 HAR는 저장하지 않는다", () => {
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, []);
+      assert.equal(store.writeHar("network.har", '{"log": {"entries": ['), null);
+      assert.equal(existsSync(store.runDir), false);
+    });
+
+    it("계정 ID와 비밀번호를 가리는 저장소를 만든다", () => {
+      const store = createArtifactStore({
+        accounts: [{ label: "main", jobkoreaId: "unit-user", jobkoreaPwd: PASSWORD }],
+      });
+      assert.equal(store.redact("unit-user"), "[REDACTED]");
+    });
+  });
+
+  describe("pruneArtifactRuns", () => {
+    it("최근 keepRuns개만 남긴다", () => {
+      makeRun("20261016-000000-aaaaaaaa");
+      makeRun("20261017-000000-bbbbbbbb");
+      makeRun("20261018-000000-cccccccc");
+
+      assert.equal(pruneArtifactRuns(), 1);
+      assert.deepEqual(readdirSync(artifactsDir).sort(), [
+        "20261017-000000-bbbbbbbb",
+        "20261018-000000-cccccccc",
+      ]);
+    });
+
+    it("이번 실행의 폴더를 포함해 keepRuns개를 남긴다", () => {
+      makeRun("20261016-000000-aaaaaaaa");
+      makeRun("20261017-000000-bbbbbbbb");
+      const store = new ArtifactStore(RUN_ID, STARTED_AT, []);
+      store.writeText("login.html", "<html></html>");
+
+      assert.equal(pruneArtifactRuns(), 1);
+      assert.deepEqual(readdirSync(artifactsDir).sort(), [
+        "20261017-000000-bbbbbbbb",
+        path.basename(store.runDir),
+      ]);
+    });
+
+    it("maxAgeDays보다 오래된 폴더를 삭제한다", () => {
+      const now = new Date("2026-10-19T00:00:00Z");
+      makeRun("20261001-000000-aaaaaaaa", new Date("2026-10-01T00:00:00Z"));
+      makeRun("20261018-000000-bbbbbbbb", new Date("2026-10-18T00:00:00Z"));
+
+      assert.equal(pruneArtifactRuns(now), 1);
+      assert.deepEqual(readdirSync(artifactsDir), ["20261018-000000-bbbbbbbb"]);
+    });
+
+    it("실행 폴더가 아닌 디렉터리는 남긴다", () => {
+      const old = new Date("2026-01-01T00:00:00Z");
+      makeRun("20261016-000000-aaaaaaaa");
+      makeRun("20261017-000000-bbbbbbbb");
+      makeRun("20261018-000000-cccccccc");
+      mkdirSync(path.join(artifactsDir, "keep-me"));
+      utimesSync(path.join(artifactsDir, "keep-me"), old, old);
+
+      // 보관 개수와 보관 기간 모두 실행 폴더만 따진다.
+      assert.equal(pruneArtifactRuns(new Date("2026-10-19T00:00:00Z")), 1);
+      assert.deepEqual(readdirSync(artifactsDir).sort(), [
+        "20261017-000000-bbbbbbbb",
+        "20261018-000000-cccccccc",
+        "keep-me",
+      ]);
+    });
+  });
+
+  describe("cleanupArtifacts", () => {
+    it("실행 폴더와 이전 버전의 아티팩트 파일을 삭제한다", () => {
+      makeRun("20261018-000000-aaaaaaaa");
+      writeFileSync(path.join(workDir, "error-login.png"), "");
+      writeFileSync(path.join(workDir, "notes.txt"), "");
+
+      assert.equal(cleanupArtifacts(), 2);
+      assert.deepEqual(readdirSync(artifactsDir), []);
+      assert.equal(existsSync(path.join(workDir, "notes.txt")), true);
+    });
+
+    it("실행 폴더가 아닌 디렉터리는 삭제하지 않는다", () => {
+      makeRun("20261018-000000-aaaaaaaa");
+      mkdirSync(path.join(artifactsDir, "keep-me", "nested"), { recursive: true });
+      writeFileSync(path.join(artifactsDir, "keep-me", "notes.txt"), "");
+
+      assert.equal(cleanupArtifacts(), 1);
+      assert.deepEqual(readdirSync(artifactsDir), ["keep-me"]);
+      assert.deepEqual(readdirSync(path.join(artifactsDir, "keep-me")).sort(), [
+        "nested",
+        "notes.txt",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// test/unit/config.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { buildConfig, defaultConfig } from "../../src/config";
+import { deepMerge, validateConfigOverlay } from "../../src/config/schema";
+
+describe("validateConfigOverlay", () => {
+  it("알 수 없는 키와 잘못된 타입을 키 경로와 함께 알린다", () => {
+    const errors = validateConfigOverlay(defaultConfig, {
+      retry: { maxDelay: -1, unknownKey: 1 },
+      browser: { headless: "yes" },
+    });
+    assert.ok(errors.some(error => error.startsWith("retry.maxDelay:")));
+    assert.ok(errors.includes("retry.unknownKey: 알 수 없는 설정 키입니다."));
+    assert.ok(errors.some(error => error.startsWith("browser.headless:")));
+  });
+
+  it("특수 규칙(로그 레벨, cron, 중단 규칙)을 검사한다", () => {
+    const errors = validateConfigOverlay(defaultConfig, {
+      logging: { logLevel: "verbose" },
+      schedule: { cron: ["0 25 * * *"] },
+      interruptions: [{ name: "x", popupUrl: "a", dialogMessage: "b", action: "dismiss" }],
+    });
+    assert.ok(errors.some(error => error.startsWith("logging.logLevel:")));
+    assert.ok(errors.some(error => error.startsWith("schedule.cron[0]:")));
+    assert.ok(errors.some(error => error.startsWith("interruptions[0]:")));
+  });
+
+  it("popupSelector 규칙은 정규식이 아닌 CSS 셀렉터로 받는다", () => {
+    const rule = { name: "안내 팝업", popupSelector: "a[href*=later]", action: "click" };
+    assert.deepEqual(
+      validateConfigOverlay(defaultConfig, { interruptions: [{ ...rule, selector: "a" }] }),
+      []
+    );
+    assert.deepEqual(
+      validateConfigOverlay(defaultConfig, { interruptions: [{ ...rule, action: "accept" }] }),
+      ["interruptions[0].action: popupSelector 규칙은 click | dismiss | fail 중 하나여야 합니다."]
+    );
+  });
+
+  it("올바른 부분 설정은 오류가 없다", () => {
+    assert.deepEqual(
+      validateConfigOverlay(defaultConfig, { timeouts: { navigation: 30000 } }),
+      []
+    );
+  });
+});
+
+describe("deepMerge", () => {
+  it("객체는 재귀적으로 합치고 배열은 통째로 바꾼다", () => {
+    const merged = deepMerge(
+      { a: { b: 1, c: 2 }, list: [1, 2, 3] },
+      { a: { c: 3 }, list: [4] }
+    );
+    assert.deepEqual(merged, { a: { b: 1, c: 3 }, list: [4] });
+  });
+});
+
+describe("buildConfig", () => {
+  let workDir: string;
+  let configFile: string;
+
+  before(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-config-"));
+    configFile = path.join(workDir, "jobkorea.config.json");
+    writeFileSync(
+      configFile,
+      JSON.stringify({
+        timeouts: { navigation: 30000, element: 5000 },
+        retry: { maxOperationRetries: 5 },
+        profiles: { ci: { timeouts: { element: 7000 }, browser: { headless: false } } },
+      })
+    );
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.NAVIGATION_TIMEOUT_MS;
+    delete process.env.RECORD_TRACE;
+  });
+
+  it("기본값 → 설정 파일 → 프로필 → 환경변수 → CLI 순으로 덮어쓴다", () => {
+    process.env.NAVIGATION_TIMEOUT_MS = "45000";
+    const { config, source, errors } = buildConfig({
+      configFile,
+      profile: "ci",
+      logLevel: "debug",
+    });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(source, { file: configFile, profile: "ci" });
+    assert.equal(config.timeouts.navigation, 45000);
+    assert.equal(config.timeouts.element, 7000);
+    assert.equal(config.timeouts.popup, defaultConfig.timeouts.popup);
+    assert.equal(config.retry.maxOperationRetries, 5);
+    assert.equal(config.browser.headless, false);
+    assert.equal(config.logging.logLevel, "debug");
+  });
+
+  it("없는 프로필은 사용 가능한 프로필과 함께 알린다", () => {
+    const { errors } = buildConfig({ configFile, profile: "prod" });
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /profiles\.prod: 프로필을 찾을 수 없습니다\. \(사용 가능: ci\)/);
+  });
+
+  it("CI 환경에서는 trace 기록을 거부한다", () => {
+    const ci = process.env.CI;
+    process.env.CI = "true";
+    process.env.RECORD_TRACE = "true";
+    try {
+      const { config, errors } = buildConfig();
+      assert.equal(config.browser.recording.trace, false);
+      assert.equal(errors.length, 1);
+      assert.match(errors[0], /^browser\.recording\.trace \(RECORD_TRACE\): CI 환경에서는/);
+
+      delete process.env.CI;
+      assert.equal(buildConfig().config.browser.recording.trace, true);
+    } finally {
+      if (ci === undefined) {
+        delete process.env.CI;
+      } else {
+        process.env.CI = ci;
+      }
+    }
+  });
+});
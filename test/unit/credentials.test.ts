@@ -0,0 +1,95 @@
+// test/unit/credentials.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import {
+  clearCredentials,
+  getVaultError,
+  readCredential,
+  resolveCredential,
+  writeVault,
+} from "../../src/config/credentials";
+
+const NAMES = ["UNIT_SECRET", "UNIT_OTHER", "SECRETS_VAULT_PASSPHRASE"];
+
+describe("credentials", () => {
+  let workDir: string;
+
+  const clearEnv = () => {
+    for (const name of NAMES) {
+      delete process.env[name];
+      delete process.env[`${name}_FILE`];
+      delete process.env[`${name}_COMMAND`];
+    }
+  };
+
+  before(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-credentials-"));
+    process.env.SECRETS_VAULT_FILE = path.join(workDir, "secrets.enc");
+    configManager.load();
+  });
+
+  after(() => {
+    clearEnv();
+    delete process.env.SECRETS_VAULT_FILE;
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    clearEnv();
+    clearCredentials();
+  });
+
+  it("환경변수 값을 그대로 쓴다", () => {
+    process.env.UNIT_SECRET = "from-env";
+    assert.deepEqual(resolveCredential("UNIT_SECRET"), { value: "from-env", source: "env" });
+  });
+
+  it("_FILE은 파일 끝 줄바꿈을 빼고 읽는다", () => {
+    const file = path.join(workDir, "secret.txt");
+    writeFileSync(file, "from-file\n");
+    process.env.UNIT_SECRET_FILE = file;
+    assert.deepEqual(resolveCredential("UNIT_SECRET"), { value: "from-file", source: "file" });
+  });
+
+  it("_COMMAND는 표준 출력을 쓰고, 실패하면 종료 코드만 알린다", () => {
+    process.env.UNIT_SECRET_COMMAND = "echo from-command";
+    assert.equal(readCredential("UNIT_SECRET"), "from-command");
+
+    process.env.UNIT_OTHER_COMMAND = "echo leaked-secret >&2; exit 3";
+    const failed = resolveCredential("UNIT_OTHER");
+    assert.equal(failed.value, undefined);
+    assert.match(failed.error ?? "", /종료 코드 3/);
+    assert.doesNotMatch(failed.error ?? "", /leaked-secret/);
+  });
+
+  it("제공자를 둘 이상 설정하면 오류로 본다", () => {
+    process.env.UNIT_SECRET = "from-env";
+    process.env.UNIT_SECRET_COMMAND = "echo from-command";
+    const resolution = resolveCredential("UNIT_SECRET");
+    assert.equal(resolution.value, undefined);
+    assert.match(resolution.error ?? "", /하나만 설정해야 합니다/);
+  });
+
+  it("다른 제공자에 없으면 암호화 파일에서 찾는다", () => {
+    process.env.SECRETS_VAULT_PASSPHRASE = "vault-passphrase";
+    writeVault({ UNIT_SECRET: "from-vault" });
+
+    assert.deepEqual(resolveCredential("UNIT_SECRET"), { value: "from-vault", source: "vault" });
+    assert.equal(readCredential("UNIT_OTHER"), undefined);
+    assert.equal(getVaultError(), undefined);
+  });
+
+  it("암호가 틀리면 암호화 파일 오류를 알린다", () => {
+    process.env.SECRETS_VAULT_PASSPHRASE = "vault-passphrase";
+    writeVault({ UNIT_SECRET: "from-vault" });
+
+    process.env.SECRETS_VAULT_PASSPHRASE = "wrong-passphrase";
+    clearCredentials();
+    assert.equal(readCredential("UNIT_SECRET"), undefined);
+    assert.match(getVaultError() ?? "", /암호화 파일을 열 수 없습니다/);
+  });
+});
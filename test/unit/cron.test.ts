@@ -0,0 +1,48 @@
+// test/unit/cron.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { nextCronTime, parseCron } from "../../src/utils/cron";
+
+describe("parseCron", () => {
+  it("범위, 목록, 간격을 펼친다", () => {
+    const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+    assert.deepEqual([...schedule.minutes].sort((a, b) => a - b), [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours].sort((a, b) => a - b), [9, 10, 11]);
+    assert.deepEqual([...schedule.daysOfMonth].sort((a, b) => a - b), [1, 15]);
+  });
+
+  it("요일 7은 일요일(0)로 본다", () => {
+    assert.ok(parseCron("0 9 * * 7").daysOfWeek.has(0));
+  });
+
+  it("필드 수나 범위가 틀리면 예외를 던진다", () => {
+    assert.throws(() => parseCron("0 9 * *"));
+    assert.throws(() => parseCron("60 9 * * *"), /분 필드/);
+    assert.throws(() => parseCron("0 24 * * *"));
+  });
+});
+
+describe("nextCronTime", () => {
+  it("KST 기준으로 다음 실행 시각을 계산한다", () => {
+    // 2026-10-19 00:00 UTC = 09:00 KST (월요일)
+    const next = nextCronTime(parseCron("30 9 * * *"), new Date("2026-10-19T00:00:00Z"));
+    assert.equal(next.toISOString(), "2026-10-19T00:30:00.000Z");
+  });
+
+  it("기준 시각과 같은 분은 건너뛴다", () => {
+    const next = nextCronTime(parseCron("0 9 * * *"), new Date("2026-10-19T00:00:00Z"));
+    assert.equal(next.toISOString(), "2026-10-20T00:00:00.000Z");
+  });
+
+  it("날짜와 요일을 모두 지정하면 둘 중 하나만 맞아도 실행한다", () => {
+    // 매월 1일 또는 일요일 09:00 KST. 2026-10-19(월) 이후 첫 실행은 10-25(일).
+    const next = nextCronTime(parseCron("0 9 1 * 0"), new Date("2026-10-19T01:00:00Z"));
+    assert.equal(next.toISOString(), "2026-10-25T00:00:00.000Z");
+  });
+
+  it("*로 시작하는 날짜 필드는 제한하지 않은 것으로 보고 요일과 함께 맞춘다", () => {
+    // 홀수 날짜이면서 평일인 09:00 KST. 10-20(화)은 짝수 날짜이므로 10-21(수)에 실행한다.
+    const next = nextCronTime(parseCron("0 9 */2 * 1-5"), new Date("2026-10-19T01:00:00Z"));
+    assert.equal(next.toISOString(), "2026-10-21T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,32 @@
+// test/unit/encryption.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decryptText, encryptText } from "../../src/utils/encryption";
+
+describe("encryption", () => {
+  it("암호화한 텍스트를 같은 키로 복호화한다", () => {
+    const file = encryptText("비밀 값 🔐", "passphrase");
+    assert.equal(decryptText(JSON.stringify(file), "passphrase"), "비밀 값 🔐");
+  });
+
+  it("암호화할 때마다 salt와 iv를 새로 만든다", () => {
+    const first = encryptText("same", "passphrase");
+    const second = encryptText("same", "passphrase");
+    assert.notEqual(first.salt, second.salt);
+    assert.notEqual(first.iv, second.iv);
+    assert.notEqual(first.data, second.data);
+  });
+
+  it("키가 틀리거나 내용이 바뀌면 예외를 던진다", () => {
+    const file = encryptText("secret", "passphrase");
+    assert.throws(() => decryptText(JSON.stringify(file), "wrong"));
+
+    const tampered = { ...file, data: Buffer.from("tampered").toString("base64") };
+    assert.throws(() => decryptText(JSON.stringify(tampered), "passphrase"));
+  });
+
+  it("지원하지 않는 버전은 거부한다", () => {
+    const file = { ...encryptText("secret", "passphrase"), version: 2 };
+    assert.throws(() => decryptText(JSON.stringify(file), "passphrase"), /버전/);
+  });
+});
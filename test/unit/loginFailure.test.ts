@@ -0,0 +1,66 @@
+// test/unit/loginFailure.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../../src/config";
+import {
+  AccountLockedError,
+  CaptchaRequiredError,
+  CredentialsRejectedError,
+  DormantAccountError,
+  VerificationRequiredError,
+} from "../../src/types";
+import { classifyLoginFailure, LoginPageSignals } from "../../src/utils/loginFailure";
+
+const patterns = defaultConfig.loginFailure;
+
+function signals(overrides: Partial<LoginPageSignals>): LoginPageSignals {
+  return {
+    url: "https://www.jobkorea.co.kr/Login/",
+    dialogs: [],
+    errorText: "",
+    captchaVisible: false,
+    ...overrides,
+  };
+}
+
+describe("classifyLoginFailure", () => {
+  it("휴면, 본인 인증 페이지로 이동하면 URL로 판별한다", () => {
+    const dormant = signals({ url: "https://www.jobkorea.co.kr/Login/Dormant" });
+    const verify = signals({ url: "https://www.jobkorea.co.kr/Login/Certify" });
+    assert.ok(classifyLoginFailure(dormant, patterns) instanceof DormantAccountError);
+    assert.ok(classifyLoginFailure(verify, patterns) instanceof VerificationRequiredError);
+  });
+
+  it("알림창과 오류 영역 문구로 판별하고 문구를 context에 남긴다", () => {
+    const error = classifyLoginFailure(
+      signals({ dialogs: ["  아이디 또는 비밀번호를 확인해주세요.  "] }),
+      patterns
+    );
+    assert.ok(error instanceof CredentialsRejectedError);
+    assert.equal(error.context?.message, "아이디 또는 비밀번호를 확인해주세요.");
+  });
+
+  it("여러 원인에 걸치는 문구는 앞의 원인을 택한다", () => {
+    const error = classifyLoginFailure(
+      signals({ errorText: "비밀번호 오류로 계정이 잠겼습니다" }),
+      patterns
+    );
+    assert.ok(error instanceof AccountLockedError);
+  });
+
+  it("문구가 없고 보안 문자 입력란만 보이면 CAPTCHA로 본다", () => {
+    assert.ok(
+      classifyLoginFailure(signals({ captchaVisible: true }), patterns) instanceof
+        CaptchaRequiredError
+    );
+  });
+
+  it("단서가 없으면 null", () => {
+    assert.equal(classifyLoginFailure(signals({ errorText: "   " }), patterns), null);
+  });
+
+  it("로그인 실패는 재시도하지 않는다", () => {
+    const error = classifyLoginFailure(signals({ errorText: "휴면 계정입니다" }), patterns);
+    assert.equal(error?.retryable, false);
+  });
+});
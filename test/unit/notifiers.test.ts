@@ -0,0 +1,295 @@
+// test/unit/notifiers.test.ts
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import {
+  AddressInfo,
+  createServer as createTcpServer,
+  Server as TcpServer,
+  Socket,
+} from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import { createTextNotification, Notifier, notifyAll } from "../../src/notifiers";
+import { DiscordNotifier } from "../../src/notifiers/discord";
+import { EmailNotifier } from "../../src/notifiers/email";
+import { SlackNotifier } from "../../src/notifiers/slack";
+import { TelegramNotifier } from "../../src/notifiers/telegram";
+import { WebhookNotifier } from "../../src/notifiers/webhook";
+import { SmtpSettings } from "../../src/types";
+
+const message = createTextNotification("failure", "업데이트 실패", { text: "a < b & 실패" });
+
+interface ReceivedRequest {
+  path: string;
+  body: unknown;
+  at: number;
+}
+
+type Reply = { status: number; headers?: Record<string, string> };
+
+/**
+ * 경로별로 정해 둔 응답을 차례대로 돌려주는 HTTP 서버.
+ * 응답을 다 쓰면 200을 돌려준다.
+ */
+class HttpStub {
+  readonly requests: ReceivedRequest[] = [];
+  private replies = new Map<string, Reply[]>();
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  url(pathname: string): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}${pathname}`;
+  }
+
+  reply(pathname: string, ...replies: Reply[]): void {
+    this.replies.set(pathname, replies);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.replies.clear();
+  }
+
+  requestsTo(pathname: string): ReceivedRequest[] {
+    return this.requests.filter(request => request.path === pathname);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const pathname = req.url ?? "";
+      this.requests.push({ path: pathname, body: JSON.parse(body || "null"), at: Date.now() });
+      const { status, headers } = this.replies.get(pathname)?.shift() ?? { status: 200 };
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify({ ok: status < 300 }));
+    });
+  }
+}
+
+/**
+ * STARTTLS를 지원하지 않는 평문 SMTP 서버.
+ * 받은 명령어를 남기고, failOnMail로 MAIL FROM에 돌려줄 오류 응답을 정한다.
+ */
+class SmtpStub {
+  readonly commands: string[] = [];
+  readonly messages: string[] = [];
+  failOnMail: string[] = [];
+  private server: TcpServer = createTcpServer(socket => this.handle(socket));
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  reset(): void {
+    this.commands.length = 0;
+    this.messages.length = 0;
+    this.failOnMail = [];
+  }
+
+  private handle(socket: Socket): void {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 stub ESMTP\r\n");
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf-8");
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) {
+            return;
+          }
+          this.messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 queued\r\n");
+          continue;
+        }
+
+        const end = buffer.indexOf("\r\n");
+        if (end < 0) {
+          return;
+        }
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.commands.push(line.split(" ")[0].toUpperCase());
+
+        if (/^EHLO/i.test(line)) {
+          socket.write("250-stub\r\n250 AUTH PLAIN\r\n");
+        } else if (/^MAIL FROM/i.test(line)) {
+          socket.write(`${this.failOnMail.shift() ?? "250 ok"}\r\n`);
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (/^QUIT/i.test(line)) {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+    socket.on("error", () => undefined);
+  }
+}
+
+describe("notifiers", () => {
+  const http = new HttpStub();
+  const smtp = new SmtpStub();
+
+  const smtpSettings = (overrides: Partial<SmtpSettings> = {}): SmtpSettings => ({
+    host: "127.0.0.1",
+    port: smtp.port,
+    secure: false,
+    from: "Bot <bot@example.com>",
+    to: ["me@example.com"],
+    ...overrides,
+  });
+
+  before(async () => {
+    await http.start();
+    await smtp.start();
+    Object.assign(process.env, {
+      TELEGRAM_API_BASE_URL: http.url(""),
+      MAX_OPERATION_RETRIES: "3",
+      RETRY_BASE_DELAY_MS: "10",
+      RETRY_MAX_DELAY_MS: "20",
+      LOG_LEVEL: "error",
+    });
+    configManager.load();
+  });
+
+  after(async () => {
+    for (const name of [
+      "TELEGRAM_API_BASE_URL",
+      "MAX_OPERATION_RETRIES",
+      "RETRY_BASE_DELAY_MS",
+      "RETRY_MAX_DELAY_MS",
+    ]) {
+      delete process.env[name];
+    }
+    configManager.load();
+    await http.stop();
+    await smtp.stop();
+  });
+
+  beforeEach(() => {
+    http.reset();
+    smtp.reset();
+  });
+
+  describe("HTTP 채널", () => {
+    it("채널별 형식으로 본문을 보낸다", async () => {
+      await new SlackNotifier(http.url("/slack")).send(message);
+      await new DiscordNotifier(http.url("/discord")).send(message);
+      await new WebhookNotifier(http.url("/webhook")).send(message);
+
+      assert.deepEqual(http.requestsTo("/slack")[0].body, { text: "a &lt; b &amp; 실패" });
+      assert.deepEqual(http.requestsTo("/discord")[0].body, {
+        content: "a < b & 실패",
+        allowed_mentions: { parse: [] },
+      });
+      const webhook = http.requestsTo("/webhook")[0].body as Record<string, unknown>;
+      assert.equal(webhook.severity, "failure");
+      assert.equal(webhook.subject, "업데이트 실패");
+      assert.equal(webhook.text, "a < b & 실패");
+    });
+
+    it("429 응답이면 채널마다 Retry-After만큼 기다린 뒤 다시 보낸다", async () => {
+      const channels: [string, Notifier][] = [
+        ["/slack", new SlackNotifier(http.url("/slack"))],
+        ["/discord", new DiscordNotifier(http.url("/discord"))],
+        ["/webhook", new WebhookNotifier(http.url("/webhook"))],
+        ["/botunit-token/sendMessage", new TelegramNotifier("unit-token", "1")],
+      ];
+      for (const [pathname] of channels) {
+        http.reply(pathname, { status: 429, headers: { "Retry-After": "1" } });
+      }
+
+      await Promise.all(channels.map(([, notifier]) => notifier.send(message)));
+
+      for (const [pathname] of channels) {
+        const [first, second, ...rest] = http.requestsTo(pathname);
+        assert.ok(second, `${pathname}: 다시 보내지 않았습니다.`);
+        assert.equal(rest.length, 0);
+        // 기본 대기 시간(10ms)이 아니라 Retry-After(1초)를 따른다.
+        assert.ok(second.at - first.at >= 900, `${pathname}: ${second.at - first.at}ms`);
+      }
+    });
+
+    it("429가 아닌 4xx 응답은 다시 보내지 않는다", async () => {
+      http.reply("/slack", { status: 404 });
+      await assert.rejects(new SlackNotifier(http.url("/slack")).send(message), /404/);
+      assert.equal(http.requestsTo("/slack").length, 1);
+    });
+  });
+
+  describe("EmailNotifier", () => {
+    it("인증이 없으면 평문 연결로도 메일을 보낸다", async () => {
+      await new EmailNotifier(smtpSettings()).send(message);
+
+      assert.equal(smtp.messages.length, 1);
+      const [headers, body] = smtp.messages[0].split("\r\n\r\n");
+      assert.match(headers, /^Subject: =\?UTF-8\?B\?/m);
+      assert.equal(Buffer.from(body.replace(/\r\n/g, ""), "base64").toString(), "a < b & 실패");
+    });
+
+    it("TLS 없이 계정 정보를 보내지 않는다", async () => {
+      const notifier = new EmailNotifier(smtpSettings({ user: "bot", pass: "smtp-pass" }));
+
+      await assert.rejects(notifier.send(message), /STARTTLS를 지원하지 않아/);
+      assert.ok(!smtp.commands.includes("AUTH"));
+      // 설정 문제이므로 다시 연결하지 않는다.
+      assert.equal(smtp.commands.filter(command => command === "EHLO").length, 1);
+    });
+
+    it("4xx 응답은 다시 보내고 5xx 응답은 바로 실패한다", async () => {
+      smtp.failOnMail = ["451 try later"];
+      await new EmailNotifier(smtpSettings()).send(message);
+      assert.equal(smtp.messages.length, 1);
+      assert.equal(smtp.commands.filter(command => command === "MAIL").length, 2);
+
+      smtp.reset();
+      smtp.failOnMail = ["550 rejected"];
+      await assert.rejects(new EmailNotifier(smtpSettings()).send(message), /550/);
+      assert.equal(smtp.commands.filter(command => command === "MAIL").length, 1);
+    });
+  });
+
+  describe("notifyAll", () => {
+    it("한 채널이 실패해도 다른 채널로 보낸다", async () => {
+      http.reply("/slack", { status: 403 });
+      const results = await notifyAll(
+        [
+          new SlackNotifier(http.url("/slack")),
+          new DiscordNotifier(http.url("/discord")),
+          new EmailNotifier(smtpSettings()),
+        ],
+        message
+      );
+
+      assert.deepEqual(results, [
+        { channel: "Slack", success: false },
+        { channel: "Discord", success: true },
+        { channel: "Email", success: true },
+      ]);
+      assert.equal(http.requestsTo("/discord").length, 1);
+      assert.equal(smtp.messages.length, 1);
+    });
+  });
+});
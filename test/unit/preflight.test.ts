@@ -0,0 +1,109 @@
+// test/unit/preflight.test.ts
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo, createServer as createTcpServer, Server as TcpServer } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import { runPreflight } from "../../src/services/preflight";
+import { NETWORK_FAILURE_REASONS, NetworkError } from "../../src/types";
+
+function listen<T extends Server | TcpServer>(server: T): Promise<number> {
+  return new Promise(resolve =>
+    server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port))
+  );
+}
+
+function close(server: Server | TcpServer): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+async function failureReason(url: string): Promise<string> {
+  try {
+    await runPreflight(url);
+  } catch (error) {
+    assert.ok(error instanceof NetworkError);
+    return error.reason;
+  }
+  assert.fail("접속 점검이 실패하지 않았습니다.");
+}
+
+describe("runPreflight", () => {
+  let status = 200;
+  const httpServer = createServer((_, res) => {
+    res.writeHead(status);
+    res.end();
+  });
+  // 연결은 받지만 아무 응답도 하지 않는 서버. 클라이언트가 연결을 닫았는지 알 수 있도록 읽기는 한다.
+  const silentServer = createTcpServer(socket => socket.resume());
+  let httpPort: number;
+  let silentPort: number;
+
+  before(async () => {
+    httpPort = await listen(httpServer);
+    silentPort = await listen(silentServer);
+    Object.assign(process.env, {
+      PREFLIGHT_TIMEOUT_MS: "300",
+      RETRY_BASE_DELAY_MS: "10",
+      RETRY_MAX_DELAY_MS: "20",
+      LOG_LEVEL: "error",
+    });
+    configManager.load();
+  });
+
+  after(async () => {
+    for (const name of ["PREFLIGHT_TIMEOUT_MS", "RETRY_BASE_DELAY_MS", "RETRY_MAX_DELAY_MS"]) {
+      delete process.env[name];
+    }
+    configManager.load();
+    // 점검이 소켓을 남기면 close가 끝나지 않는다.
+    await close(httpServer);
+    await close(silentServer);
+  });
+
+  it("성공하면 단계별 소요 시간을 남긴다", async () => {
+    status = 200;
+    const result = await runPreflight(`http://127.0.0.1:${httpPort}/Login/`);
+
+    assert.equal(result.status, 200);
+    assert.equal(result.remoteAddress, "127.0.0.1");
+    assert.equal(result.timings.tls, undefined);
+    assert.ok(result.timings.total >= result.timings.connect);
+  });
+
+  it("DNS 조회 실패를 DNS로 분류한다", async () => {
+    assert.equal(await failureReason("http://jobkorea-preflight.invalid/"), "DNS");
+  });
+
+  it("연결 거부를 CONNECT로 분류한다", async () => {
+    const closed = createTcpServer();
+    const port = await listen(closed);
+    await close(closed);
+
+    assert.equal(
+      await failureReason(`http://127.0.0.1:${port}/`),
+      NETWORK_FAILURE_REASONS.CONNECT
+    );
+  });
+
+  it("TLS가 아닌 서버에 https로 접속하면 TLS로 분류한다", async () => {
+    assert.equal(
+      await failureReason(`https://127.0.0.1:${httpPort}/`),
+      NETWORK_FAILURE_REASONS.TLS
+    );
+  });
+
+  it("4xx, 5xx 응답을 HTTP_STATUS로 분류한다", async () => {
+    status = 503;
+    assert.equal(
+      await failureReason(`http://127.0.0.1:${httpPort}/`),
+      NETWORK_FAILURE_REASONS.HTTP_STATUS
+    );
+  });
+
+  it("제한 시간 안에 끝나지 않으면 TIMEOUT으로 분류하고 연결 중인 소켓을 닫는다", async () => {
+    assert.equal(
+      await failureReason(`https://127.0.0.1:${silentPort}/`),
+      NETWORK_FAILURE_REASONS.TIMEOUT
+    );
+  });
+});
@@ -0,0 +1,137 @@
+// test/unit/runHistory.test.ts
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import {
+  describeStats,
+  isFirstRunOfWeek,
+  lastRunRecords,
+  recordsSince,
+  RunHistoryRecord,
+  summarizeHistory,
+} from "../../src/services/runHistory";
+
+function record(overrides: Partial<RunHistoryRecord>): RunHistoryRecord {
+  return {
+    runId: "run-1",
+    account: "main",
+    startedAt: "2026-10-19T00:00:00.000Z",
+    endedAt: "2026-10-19T00:01:00.000Z",
+    durationMs: 60000,
+    outcome: "success",
+    dryRun: false,
+    processAttempts: 1,
+    stepRetries: 0,
+    resumes: 1,
+    ...overrides,
+  };
+}
+
+describe("summarizeHistory", () => {
+  it("건너뜀과 드라이런을 빼고 성공률과 평균을 계산한다", () => {
+    const stats = summarizeHistory([
+      record({ durationMs: 30000 }),
+      record({ outcome: "failure", errorCode: "NETWORK_ERROR", processAttempts: 3 }),
+      record({ outcome: "skipped", durationMs: 0 }),
+      record({ dryRun: true, outcome: "failure", errorCode: "SELECTOR_DRIFT" }),
+    ]);
+
+    assert.equal(stats.total, 3);
+    assert.equal(stats.success, 1);
+    assert.equal(stats.failure, 1);
+    assert.equal(stats.skipped, 1);
+    assert.equal(stats.successRate, 0.5);
+    assert.equal(stats.averageDurationMs, 45000);
+    assert.equal(stats.averageProcessAttempts, 2);
+    assert.deepEqual(stats.topErrorCodes, [{ code: "NETWORK_ERROR", count: 1 }]);
+  });
+
+  it("실패 코드를 횟수, 이름 순으로 정렬해 상위만 남긴다", () => {
+    const failures = ["B", "A", "B", "C", "A", "D"].map(code =>
+      record({ outcome: "failure", errorCode: code })
+    );
+    const stats = summarizeHistory([...failures, record({ outcome: "failure" })], 3);
+    assert.deepEqual(stats.topErrorCodes, [
+      { code: "A", count: 2 },
+      { code: "B", count: 2 },
+      { code: "C", count: 1 },
+    ]);
+  });
+
+  it("실행이 없으면 비율과 평균은 null이다", () => {
+    const stats = summarizeHistory([]);
+    assert.equal(stats.successRate, null);
+    assert.equal(stats.averageDurationMs, null);
+    assert.deepEqual(describeStats(stats), ["실행 기록 없음"]);
+  });
+});
+
+describe("recordsSince / lastRunRecords", () => {
+  const records = [
+    record({ runId: "old", startedAt: "2026-10-01T00:00:00.000Z" }),
+    record({ runId: "new", startedAt: "2026-10-18T00:00:00.000Z" }),
+    record({ runId: "new", account: "sub", startedAt: "2026-10-18T00:00:01.000Z" }),
+  ];
+
+  it("기간 안의 기록만 남긴다", () => {
+    const recent = recordsSince(records, 7, new Date("2026-10-19T00:00:00.000Z"));
+    assert.deepEqual(
+      recent.map(item => item.runId),
+      ["new", "new"]
+    );
+  });
+
+  it("마지막 실행의 계정별 기록을 모은다", () => {
+    assert.deepEqual(
+      lastRunRecords(records).map(item => item.account),
+      ["main", "sub"]
+    );
+  });
+});
+
+describe("isFirstRunOfWeek", () => {
+  it("이전 실행이 지난주(월요일 시작, KST)면 true", () => {
+    // 2026-10-18(일) 23:00 KST → 2026-10-19(월) 00:30 KST
+    const previous = [record({ startedAt: "2026-10-18T14:00:00.000Z" })];
+    assert.equal(isFirstRunOfWeek(previous, new Date("2026-10-18T15:30:00.000Z")), true);
+  });
+
+  it("같은 주의 실행이거나 이력이 없으면 false", () => {
+    const previous = [record({ startedAt: "2026-10-19T01:00:00.000Z" })];
+    assert.equal(isFirstRunOfWeek(previous, new Date("2026-10-21T01:00:00.000Z")), false);
+    assert.equal(isFirstRunOfWeek([], new Date("2026-10-21T01:00:00.000Z")), false);
+  });
+
+  it("드라이런은 이전 실행으로 보지 않는다", () => {
+    const previous = [record({ startedAt: "2026-10-12T01:00:00.000Z", dryRun: true })];
+    assert.equal(isFirstRunOfWeek(previous, new Date("2026-10-19T01:00:00.000Z")), false);
+  });
+});
+
+describe("describeStats", () => {
+  afterEach(() => {
+    delete process.env.MESSAGE_LOCALE;
+    configManager.load();
+  });
+
+  const stats = summarizeHistory([
+    record({ durationMs: 90000 }),
+    record({ outcome: "failure", errorCode: "NETWORK_ERROR", durationMs: 30000 }),
+  ]);
+
+  it("설정한 언어로 요약 문구를 만든다", () => {
+    assert.deepEqual(describeStats(stats), [
+      "실행 2회: 성공 1 / 실패 1 / 건너뜀 0",
+      "성공률 50.0% · 평균 소요 시간 1분 0초 · 평균 시도 1.0회",
+      "주요 실패: NETWORK_ERROR 1회",
+    ]);
+
+    process.env.MESSAGE_LOCALE = "en";
+    configManager.load();
+    assert.deepEqual(describeStats(stats), [
+      "2 runs: success 1 / failure 1 / skipped 0",
+      "success rate 50.0% · average duration 1m 0s · average attempts 1.0",
+      "Top failures: NETWORK_ERROR ×1",
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+// test/unit/scheduler.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import { configManager } from "../../src/config";
+import { DaemonScheduler, parseSchedules } from "../../src/services/scheduler";
+
+const ENV_NAMES = [
+  "SCHEDULE_JITTER_MINUTES",
+  "SCHEDULE_SKIP_WEEKENDS",
+  "SCHEDULE_SKIP_DATES",
+  "HOLIDAYS_FILE",
+];
+
+// 2026-10-23(금) 10:00 KST
+const FRIDAY_MORNING = new Date("2026-10-23T01:00:00Z");
+
+function createScheduler(
+  expressions: string[],
+  env: Record<string, string>,
+  task: () => Promise<void> = async () => {}
+): DaemonScheduler {
+  Object.assign(process.env, env);
+  configManager.load();
+  return new DaemonScheduler(parseSchedules(expressions).schedules, task);
+}
+
+describe("DaemonScheduler", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-scheduler-"));
+    process.env.LOG_LEVEL = "error";
+  });
+
+  afterEach(() => {
+    ENV_NAMES.forEach(name => delete process.env[name]);
+    mock.restoreAll();
+  });
+
+  after(() => {
+    configManager.load();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("여러 일정 중 가장 가까운 시각을 고른다", async () => {
+    const scheduler = createScheduler(["0 18 * * *", "50 12 * * *"], {
+      SCHEDULE_JITTER_MINUTES: "0",
+    });
+    const { scheduledAt, runAt } = await scheduler.planNextRun(FRIDAY_MORNING);
+    assert.equal(scheduledAt.toISOString(), "2026-10-23T03:50:00.000Z");
+    assert.equal(runAt.toISOString(), scheduledAt.toISOString());
+  });
+
+  it("주말, 건너뛸 날짜, 공휴일 파일의 날짜를 건너뛴다", async () => {
+    const holidaysFile = path.join(workDir, "holidays.txt");
+    writeFileSync(holidaysFile, "# 2026년\n2026-10-27 # 임시 공휴일\nnot-a-date\n");
+    const scheduler = createScheduler(["0 9 * * *"], {
+      SCHEDULE_JITTER_MINUTES: "0",
+      SCHEDULE_SKIP_WEEKENDS: "true",
+      SCHEDULE_SKIP_DATES: "2026-10-26",
+      HOLIDAYS_FILE: holidaysFile,
+    });
+
+    // 토, 일, 10-26(월), 10-27(화)을 건너뛰고 10-28(수) 09:00 KST
+    const { scheduledAt } = await scheduler.planNextRun(FRIDAY_MORNING);
+    assert.equal(scheduledAt.toISOString(), "2026-10-28T00:00:00.000Z");
+  });
+
+  it("공휴일 파일을 읽지 못하면 공휴일 없이 계산한다", async () => {
+    const scheduler = createScheduler(["0 9 * * *"], {
+      SCHEDULE_JITTER_MINUTES: "0",
+      HOLIDAYS_FILE: path.join(workDir, "missing.txt"),
+    });
+    const { scheduledAt } = await scheduler.planNextRun(FRIDAY_MORNING);
+    assert.equal(scheduledAt.toISOString(), "2026-10-24T00:00:00.000Z");
+  });
+
+  it("예약 시각보다 0~jitterMinutes분 늦게 실행한다", async () => {
+    const scheduler = createScheduler(["0 9 * * *"], { SCHEDULE_JITTER_MINUTES: "10" });
+
+    mock.method(Math, "random", () => 1);
+    const latest = await scheduler.planNextRun(FRIDAY_MORNING);
+    assert.equal(latest.runAt.getTime() - latest.scheduledAt.getTime(), 10 * 60 * 1000);
+
+    mock.method(Math, "random", () => 0);
+    const earliest = await scheduler.planNextRun(FRIDAY_MORNING);
+    assert.equal(earliest.runAt.getTime(), earliest.scheduledAt.getTime());
+  });
+
+  it("모든 일정이 건너뛸 날짜이면 예외를 던진다", async () => {
+    const scheduler = createScheduler(["0 9 * * 6,0"], { SCHEDULE_SKIP_WEEKENDS: "true" });
+    await assert.rejects(scheduler.planNextRun(FRIDAY_MORNING), /실행할 일정이 없습니다/);
+  });
+
+  it("대기 중에 stop()하면 실행하지 않고 바로 끝난다", async () => {
+    let runs = 0;
+    const scheduler = createScheduler(["0 9 1 1 *"], {}, async () => {
+      runs++;
+    });
+
+    const started = scheduler.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    scheduler.stop();
+    await started;
+
+    assert.equal(runs, 0);
+  });
+});
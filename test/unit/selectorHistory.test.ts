@@ -0,0 +1,70 @@
+// test/unit/selectorHistory.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { SelectorMatch } from "../../src/services/runReport";
+import { SelectorHistoryStore } from "../../src/services/selectorHistory";
+
+function match(name: string, selector: string, index = 0): SelectorMatch {
+  return { name, selector, index, matchedAt: "2026-10-19T00:00:00.000Z" };
+}
+
+describe("SelectorHistoryStore", () => {
+  let workDir: string;
+
+  before(() => {
+    process.env.LOG_LEVEL = "error";
+    workDir = mkdtempSync(path.join(tmpdir(), "jobkorea-selector-history-"));
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("fallback 셀렉터 매칭을 알린다", () => {
+    const store = new SelectorHistoryStore(path.join(workDir, "fallback.json"), 100);
+    const drifts = store.detectDrift("main", [match("login.idInput", "#user_id", 1)]);
+    assert.deepEqual(
+      drifts.map(drift => drift.kind),
+      ["fallback"]
+    );
+  });
+
+  it("같은 계정의 이전 매칭과 다르면 changed로 알린다", () => {
+    const store = new SelectorHistoryStore(path.join(workDir, "changed.json"), 100);
+    store.record("run-1", "main", [match("mypage.updateButton", ".button-update")]);
+
+    const [drift] = store.detectDrift("main", [match("mypage.updateButton", ".btn-update")]);
+    assert.equal(drift.kind, "changed");
+    assert.equal(drift.previousSelector, ".button-update");
+  });
+
+  it("다른 계정의 매칭과는 비교하지 않는다", () => {
+    const store = new SelectorHistoryStore(path.join(workDir, "accounts.json"), 100);
+    store.record("run-1", "main", [match("mypage.updateButton", ".button-update")]);
+    store.record("run-1", "sub", [match("mypage.updateButton", ".btn-update")]);
+
+    assert.deepEqual(
+      store.detectDrift("main", [match("mypage.updateButton", ".button-update")]),
+      []
+    );
+    assert.deepEqual(
+      store.detectDrift("sub", [match("mypage.updateButton", ".btn-update")]),
+      []
+    );
+  });
+
+  it("저장한 이력을 다시 읽어 비교한다", async () => {
+    const filePath = path.join(workDir, "saved.json");
+    const first = new SelectorHistoryStore(filePath, 100);
+    first.record("run-1", "main", [match("login.idInput", ".input-id")]);
+    await first.save();
+
+    const second = new SelectorHistoryStore(filePath, 100);
+    await second.load();
+    const [drift] = second.detectDrift("main", [match("login.idInput", "#user_id")]);
+    assert.equal(drift.previousSelector, ".input-id");
+  });
+});
@@ -0,0 +1,61 @@
+// test/unit/session.test.ts
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import { clearCredentials } from "../../src/config/credentials";
+import { createSessionStore, StorageState } from "../../src/services/session";
+
+function stateFor(name: string): StorageState {
+  return {
+    cookies: [
+      {
+        name: "SESSION",
+        value: name,
+        domain: ".jobkorea.co.kr",
+        path: "/",
+        expires: -1,
+        httpOnly: true,
+        secure: true,
+        sameSite: "Lax",
+      },
+    ],
+    origins: [],
+  };
+}
+
+describe("createSessionStore", () => {
+  let stateDir: string;
+
+  before(() => {
+    stateDir = mkdtempSync(path.join(tmpdir(), "jobkorea-session-"));
+    Object.assign(process.env, {
+      SESSION_ENCRYPTION_KEY: "unit-session-key",
+      SESSION_STATE_DIR: stateDir,
+      LOG_LEVEL: "error",
+    });
+    clearCredentials();
+    configManager.load();
+  });
+
+  after(() => {
+    delete process.env.SESSION_ENCRYPTION_KEY;
+    delete process.env.SESSION_STATE_DIR;
+    clearCredentials();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("파일명으로 바꾸면 같아지는 label이어도 계정마다 다른 세션 파일을 쓴다", async () => {
+    const dev = { label: "개발", jobkoreaId: "dev-user", jobkoreaPwd: "dev-pass" };
+    const prod = { label: "운영", jobkoreaId: "prod-user", jobkoreaPwd: "prod-pass" };
+
+    await createSessionStore(dev).save(stateFor("dev"));
+    await createSessionStore(prod).save(stateFor("prod"));
+
+    assert.equal(readdirSync(stateDir).length, 2);
+    assert.equal((await createSessionStore(dev).load())?.cookies[0].value, "dev");
+    assert.equal((await createSessionStore(prod).load())?.cookies[0].value, "prod");
+  });
+});
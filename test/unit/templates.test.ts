@@ -0,0 +1,67 @@
+// test/unit/templates.test.ts
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import {
+  formatDateTime,
+  getPhrases,
+  renderMessage,
+  renderTemplate,
+} from "../../src/notifiers/templates";
+
+describe("renderTemplate", () => {
+  it("자리표시자를 값으로 바꾼다", () => {
+    assert.equal(
+      renderTemplate("계정: {account}\n재시도: {retryCount}번", { account: "main", retryCount: 2 }),
+      "계정: main\n재시도: 2번"
+    );
+  });
+
+  it("값이 없거나 빈 자리표시자가 있는 줄은 생략한다", () => {
+    assert.equal(
+      renderTemplate("계정: {account}\n이유: {error}\n조치: {suggestion}", {
+        account: "main",
+        suggestion: "",
+      }),
+      "계정: main"
+    );
+  });
+
+  it("0은 값으로 본다", () => {
+    assert.equal(renderTemplate("재시도: {retryCount}번", { retryCount: 0 }), "재시도: 0번");
+  });
+});
+
+describe("renderMessage", () => {
+  afterEach(() => {
+    delete process.env.MESSAGE_LOCALE;
+    delete process.env.MESSAGE_TEMPLATE_SUCCESS;
+    delete process.env.MESSAGE_TIMEZONE;
+    configManager.load();
+  });
+
+  it("설정한 언어의 기본 템플릿을 쓴다", () => {
+    process.env.MESSAGE_LOCALE = "en";
+    configManager.load();
+    assert.match(renderMessage("success", { account: "main" }), /Account: main/);
+    assert.equal(getPhrases().resume.success, "updated");
+    assert.match(getPhrases().bot.help, /^Available commands:/);
+    assert.match(getPhrases().usage, /^Usage: jobkorea-updater/);
+  });
+
+  it("설정한 템플릿이 기본 템플릿보다 우선한다", () => {
+    process.env.MESSAGE_TEMPLATE_SUCCESS = "OK {account}\\n{date}";
+    configManager.load();
+    assert.equal(
+      renderMessage("success", { account: "main", date: "2026-10-19" }),
+      "OK main\n2026-10-19"
+    );
+  });
+
+  it("설정한 시간대로 날짜를 만든다", () => {
+    process.env.MESSAGE_TIMEZONE = "Asia/Seoul";
+    configManager.load();
+    // 2026-10-18 23:30 UTC = 2026-10-19 08:30 KST
+    assert.equal(formatDateTime(new Date("2026-10-18T23:30:00Z")).date, "2026. 10. 19.");
+  });
+});
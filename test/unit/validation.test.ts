@@ -0,0 +1,37 @@
+// test/unit/validation.test.ts
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { configManager } from "../../src/config";
+import { Account } from "../../src/types";
+import { ConfigValidator } from "../../src/utils/validation";
+
+function validate(accounts: Account[]) {
+  return ConfigValidator.validateConfig(
+    { accounts, telegramToken: "", telegramChatId: "" },
+    { notifiers: false }
+  );
+}
+
+describe("ConfigValidator.validateConfig", () => {
+  before(() => {
+    process.env.LOG_LEVEL = "error";
+    configManager.load();
+  });
+
+  it("파일명에서 같은 이름이 되는 label을 거부한다", () => {
+    const result = validate([
+      { label: "개발", jobkoreaId: "dev-user", jobkoreaPwd: "dev-pass" },
+      { label: "운영", jobkoreaId: "prod-user", jobkoreaPwd: "prod-pass" },
+    ]);
+    assert.equal(result.isValid, false);
+    assert.ok(result.errors.some(error => error.includes("같은 이름(__)")));
+  });
+
+  it("파일명에서도 구분되는 label은 받아들인다", () => {
+    const result = validate([
+      { label: "dev", jobkoreaId: "dev-user", jobkoreaPwd: "dev-pass" },
+      { label: "prod", jobkoreaId: "prod-user", jobkoreaPwd: "prod-pass" },
+    ]);
+    assert.deepEqual(result.errors, []);
+  });
+});